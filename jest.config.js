@@ -15,6 +15,8 @@ export default {
         useESM: true,
         tsconfig: {
           moduleResolution: 'node',
+          // Tests import shared fixtures from test/ as well as src/
+          rootDir: '.',
           module: 'ESNext',
         },
       },
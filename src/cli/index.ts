@@ -4,9 +4,16 @@
  * Memory management command-line interface
  */
 
-import { program } from 'commander';
-import { loadConfig } from '../config.js';
+import { program, type Command } from 'commander';
+import { loadConfig, type TinmemConfig } from '../config.js';
 import { getMemoryManager } from '../memory/manager.js';
+import { openEmbeddingCache } from '../embedding-cache.js';
+import { filterFromInput } from '../memory/filter.js';
+import type { FieldCipher } from '../memory/encryption.js';
+import type {
+  EmbeddingCacheStats, EntityType, ListOrderField, Memory, MemoryFilter, MemoryScope, MetadataValue, RelationDirection, RelationType,
+  ResolvedScope, ScopeTransferResult, Snapshot,
+} from '../types.js';
 import chalk from 'chalk';
 import { createRequire } from 'module';
 import { fileURLToPath } from 'url';
@@ -30,32 +37,102 @@ program
     }
   });
 
+// ─── filter options (list, search) ───────────────────────────────────────────
+
+function addFilterOptions(command: Command): Command {
+  return command
+    .option('--tag <tags...>', 'Only memories with any of these tags')
+    .option('--all-tags <tags...>', 'Only memories with all of these tags')
+    .option('--tag-prefix <prefixes...>', 'Only memories with a tag starting with any of these')
+    .option('--min-importance <n>', 'Minimum importance (0.0-1.0)')
+    .option('--max-importance <n>', 'Maximum importance (0.0-1.0)')
+    .option('--since <time>', 'Created at or after (ISO date or duration ago, e.g. 30d)')
+    .option('--until <time>', 'Created at or before (ISO date or duration ago)')
+    .option('--updated-since <time>', 'Updated at or after')
+    .option('--accessed-since <time>', 'Last recalled at or after')
+    .option('--meta <pairs...>', 'Metadata equality, key=value (value parsed as JSON when possible)');
+}
+
+function parseNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = parseFloat(value as string);
+  if (Number.isNaN(n)) throw new Error(`${name} must be a number`);
+  return n;
+}
+
+function parseFilterOptions(opts: Record<string, unknown>): MemoryFilter | undefined {
+  let metadata: Record<string, MetadataValue> | undefined;
+  for (const pair of (opts.meta as string[] | undefined) ?? []) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) throw new Error(`Invalid --meta ${pair}: expected key=value`);
+    const raw = pair.slice(eq + 1);
+    let value: MetadataValue = raw;
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (['string', 'number', 'boolean'].includes(typeof parsed)) value = parsed as MetadataValue;
+    } catch {
+      // Plain string
+    }
+    metadata = { ...metadata, [pair.slice(0, eq)]: value };
+  }
+
+  return filterFromInput({
+    tags: opts.tag as string[] | undefined,
+    allTags: opts.allTags as string[] | undefined,
+    tagPrefixes: opts.tagPrefix as string[] | undefined,
+    minImportance: parseNumber(opts.minImportance, '--min-importance'),
+    maxImportance: parseNumber(opts.maxImportance, '--max-importance'),
+    createdAfter: opts.since as string | undefined,
+    createdBefore: opts.until as string | undefined,
+    updatedAfter: opts.updatedSince as string | undefined,
+    accessedAfter: opts.accessedSince as string | undefined,
+    metadata,
+  });
+}
+
+/** Filter from the shared options; exits with a message when an option is invalid */
+function filterFromOptions(opts: Record<string, unknown>): MemoryFilter | undefined {
+  try {
+    return parseFilterOptions(opts);
+  } catch (err) {
+    console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+    process.exit(1);
+  }
+}
+
 // ─── list ────────────────────────────────────────────────────────────────────
 
-program
+addFilterOptions(program
   .command('list')
   .description('List memories')
   .option('-s, --scope <scope>', 'Filter by scope (e.g., global, agent:myagent)')
   .option('-c, --category <categories...>', 'Filter by categories')
   .option('-l, --limit <n>', 'Max results', '50')
-  .option('-o, --order <field>', 'Order by: createdAt, importance, accessCount', 'createdAt')
+  .option('-o, --order <field>', 'Order by: createdAt, updatedAt, lastAccessedAt, importance, accessCount', 'createdAt')
   .option('--asc', 'Sort ascending')
+  .option('--cursor <cursor>', 'Continue from the nextCursor of a previous page')
+  .option('--include-expired', 'Include memories past their expiry date')
   .option('--json', 'Output as JSON')
+  .option('--page-info', 'With --json, output { memories, nextCursor } instead of an array (implied by --cursor)'))
   .action(async (opts) => {
     const { table } = await import('table');
     const config = loadConfig((program.opts() as { config?: string }).config);
     const manager = await getMemoryManager(config);
 
-    const memories = await manager.list({
+    const { memories, nextCursor } = await manager.list({
       scope: opts.scope,
       categories: opts.category,
+      filter: filterFromOptions(opts),
       limit: parseInt(opts.limit as string, 10),
-      orderBy: opts.order as 'createdAt' | 'importance' | 'accessCount',
+      cursor: opts.cursor,
+      orderBy: opts.order as ListOrderField,
       orderDir: opts.asc ? 'asc' : 'desc',
+      includeExpired: opts.includeExpired,
     });
 
     if (opts.json) {
-      console.log(JSON.stringify(memories, null, 2));
+      const paginating = opts.pageInfo || opts.cursor;
+      console.log(JSON.stringify(paginating ? { memories, nextCursor } : memories, null, 2));
       return;
     }
 
@@ -83,32 +160,60 @@ program
     });
 
     console.log(output);
-    console.log(chalk.gray(`Total: ${memories.length} memories`));
+    console.log(chalk.gray(`Showing: ${memories.length} memories`));
+    if (nextCursor) {
+      console.log(chalk.gray(`More results: re-run with --cursor ${nextCursor}`));
+    }
   });
 
 // ─── search ──────────────────────────────────────────────────────────────────
 
-program
+addFilterOptions(program
   .command('search <query>')
   .description('Search memories using hybrid retrieval')
-  .option('-s, --scope <scope>', 'Scope to search')
+  .option('-s, --scope <scope>', 'Scope to search (with the scopes it inherits from)')
+  .option('--no-inherit', 'Search only the given scope, not the scopes it inherits from')
   .option('-c, --category <categories...>', 'Filter by categories')
   .option('-l, --limit <n>', 'Max results', '10')
   .option('--min-score <score>', 'Minimum score threshold', '0.3')
   .option('--level <level>', 'Detail level: L0, L1, L2', 'L1')
-  .option('--json', 'Output as JSON')
+  .option('--expand <mode>', 'Rewrite the query with the LLM first: off, multi-query, hyde (default: retrieval.queryExpansion.mode)')
+  .option('--mmr [lambda]', 'Diversify results with maximal marginal relevance (lambda 0-1, default: retrieval.mmr.lambda)')
+  .option('--json', 'Output as JSON'))
   .action(async (query: string, opts) => {
     const ora = (await import('ora')).default;
     const config = loadConfig((program.opts() as { config?: string }).config);
+    if (opts.expand && !['off', 'multi-query', 'hyde'].includes(opts.expand)) {
+      console.error(chalk.red(`Invalid expansion mode: ${opts.expand}. Must be one of: off, multi-query, hyde`));
+      process.exit(1);
+    }
+    let minScore: number | undefined;
+    let mmrLambda: number | undefined;
+    try {
+      minScore = parseNumber(opts.minScore, '--min-score');
+      mmrLambda = typeof opts.mmr === 'string' ? parseNumber(opts.mmr, '--mmr') : undefined;
+      if (mmrLambda !== undefined && !(mmrLambda >= 0 && mmrLambda <= 1)) {
+        throw new Error(`Invalid MMR lambda: ${mmrLambda}. Must be between 0 and 1`);
+      }
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
     const manager = await getMemoryManager(config);
 
+    const filter = filterFromOptions(opts);
     const spinner = ora(`Searching for "${query}"...`).start();
 
     const result = await manager.recall(query, {
       scope: opts.scope,
+      inheritScopes: Boolean(opts.inherit),
       categories: opts.category,
+      filter,
       limit: parseInt(opts.limit as string, 10),
-      minScore: parseFloat(opts.minScore as string),
+      minScore,
+      queryExpansion: opts.expand,
+      mmr: opts.mmr ? true : undefined,
+      mmrLambda,
     });
 
     spinner.stop();
@@ -128,7 +233,8 @@ program
     for (const m of result.memories) {
       const level = opts.level as 'L0' | 'L1' | 'L2';
       console.log(chalk.bold(`[${chalk.cyan(m.category)}] ${m.headline}`));
-      console.log(chalk.gray(`  ID: ${m.id} | Score: ${m.score.toFixed(3)} | Scope: ${m.scope}`));
+      const inherited = m.inheritedFrom ? chalk.yellow(' (inherited)') : '';
+      console.log(chalk.gray(`  ID: ${m.id} | Score: ${m.score.toFixed(3)} | Scope: ${m.scope}`) + inherited);
       if (level === 'L1' || level === 'L2') {
         console.log(chalk.white(`  ${m.summary}`));
       }
@@ -141,6 +247,18 @@ program
 
 // ─── stats ───────────────────────────────────────────────────────────────────
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
 program
   .command('stats')
   .description('Show memory statistics')
@@ -166,6 +284,28 @@ program
     if (stats.newestMemory) {
       console.log(`${chalk.bold('Newest memory:')} ${new Date(stats.newestMemory).toLocaleDateString()}`);
     }
+    if (stats.dbSizeBytes !== undefined) {
+      console.log(`${chalk.bold('Size on disk:')} ${formatBytes(stats.dbSizeBytes)}`);
+    }
+    if (stats.fragmentCount !== undefined) {
+      console.log(`${chalk.bold('Fragments:')} ${stats.fragmentCount}`);
+    }
+    if (stats.lastMaintenanceAt) {
+      console.log(`${chalk.bold('Last maintenance:')} ${new Date(stats.lastMaintenanceAt).toLocaleString()}`);
+    }
+    if (stats.lastRecovery) {
+      const { recoveredAt, records } = stats.lastRecovery;
+      console.log(
+        `${chalk.bold('Last crash recovery:')} ${new Date(recoveredAt).toLocaleString()} ` +
+        chalk.yellow(`(${records.length} interrupted write(s) repaired)`),
+      );
+      for (const r of records) {
+        console.log(chalk.gray(`  ${r.memoryId}  ${r.operation} → ${r.action}`));
+      }
+    }
+    if (stats.embeddingCache) {
+      console.log(`${chalk.bold('Embedding cache:')} ${formatCacheStats(stats.embeddingCache)}`);
+    }
 
     console.log(chalk.bold('\nBy Category:'));
     const { table: tableRenderer } = await import('table');
@@ -180,116 +320,392 @@ program
 
     if (Object.keys(stats.byScope).length > 0) {
       console.log(chalk.bold('By Scope:'));
+      const quotas = stats.quotas ?? {};
       const scopeData = [
-        [chalk.bold('Scope'), chalk.bold('Count')],
-        ...Object.entries(stats.byScope).map(([scope, count]) => [
-          chalk.gray(scope),
-          String(count),
-        ]),
+        [chalk.bold('Scope'), chalk.bold('Count'), chalk.bold('Quota')],
+        ...Object.entries(stats.byScope).map(([scope, count]) => {
+          const quota = quotas[scope];
+          if (quota === undefined) return [chalk.gray(scope), String(count), chalk.gray('-')];
+          const usage = `${count}/${quota} (${Math.round((count / quota) * 100)}%)`;
+          return [chalk.gray(scope), String(count), count > quota ? chalk.red(usage) : usage];
+        }),
       ];
       console.log(tableRenderer(scopeData));
     }
+
+    if (stats.indexes && stats.indexes.length > 0) {
+      console.log(chalk.bold('Indexes:'));
+      const indexData = [
+        [chalk.bold('Index'), chalk.bold('Type'), chalk.bold('Indexed'), chalk.bold('Unindexed')],
+        ...stats.indexes.map(i => [
+          chalk.gray(i.name),
+          i.type,
+          String(i.indexedRows),
+          i.unindexedRows > 0 ? chalk.yellow(String(i.unindexedRows)) : '0',
+        ]),
+      ];
+      console.log(tableRenderer(indexData));
+    }
   });
 
-// ─── delete ──────────────────────────────────────────────────────────────────
+// ─── tags ────────────────────────────────────────────────────────────────────
 
-program
-  .command('delete <id>')
-  .description('Delete a memory by ID')
-  .option('-y, --yes', 'Skip confirmation')
-  .action(async (id: string, opts) => {
+const tags = program
+  .command('tags')
+  .description('List, rename and merge tags');
+
+tags
+  .command('list', { isDefault: true })
+  .description('List tags with the number of memories using each')
+  .option('-s, --scope <scope>', 'Only memories in this scope')
+  .option('-p, --prefix <prefix>', 'Only tags starting with this prefix')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { table } = await import('table');
     const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
 
-    if (!opts.yes) {
-      const { createInterface } = await import('readline');
-      const rl = createInterface({ input: process.stdin, output: process.stdout });
-      const answer = await new Promise<string>(resolve => {
-        rl.question(chalk.yellow(`Delete memory ${id}? (y/N): `), resolve);
-      });
-      rl.close();
-      if (answer.toLowerCase() !== 'y') {
-        console.log('Cancelled.');
-        return;
-      }
+    const counts = await manager.listTags({ scope: opts.scope, prefix: opts.prefix });
+
+    if (opts.json) {
+      console.log(JSON.stringify(counts, null, 2));
+      return;
+    }
+
+    if (counts.length === 0) {
+      console.log(chalk.yellow('No tags found.'));
+      return;
+    }
+
+    const data = [
+      ['Tag', 'Memories'].map(h => chalk.bold(h)),
+      ...counts.map(t => [chalk.cyan(t.tag), String(t.count)]),
+    ];
+
+    console.log(table(data));
+    console.log(chalk.gray(`Total: ${counts.length} tags`));
+  });
+
+tags
+  .command('rename <from> <to>')
+  .description('Rename a tag on every memory (merges into <to> if it already exists)')
+  .option('-s, --scope <scope>', 'Only memories in this scope')
+  .action(async (from: string, to: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const changed = await manager.renameTag(from, to, { scope: opts.scope, actor: 'cli' });
+    console.log(chalk.green(`✓ Renamed "${from}" to "${to}" on ${changed} memories`));
+  });
+
+tags
+  .command('merge <tags...>')
+  .description('Replace several tags with one')
+  .requiredOption('--into <tag>', 'Tag to merge into')
+  .option('-s, --scope <scope>', 'Only memories in this scope')
+  .action(async (sources: string[], opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const changed = await manager.mergeTags(sources, opts.into as string, { scope: opts.scope, actor: 'cli' });
+    console.log(chalk.green(`✓ Merged ${sources.map(t => `"${t}"`).join(', ')} into "${opts.into}" on ${changed} memories`));
+  });
+
+// ─── scopes ──────────────────────────────────────────────────────────────────
+
+const scopes = program
+  .command('scopes')
+  .description('List, rename, copy, move and merge scopes, and inspect inheritance');
+
+scopes
+  .command('list', { isDefault: true })
+  .description('List scopes with memory counts, last activity and average importance')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { table } = await import('table');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const list = await manager.listScopes();
+
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+
+    if (list.length === 0) {
+      console.log(chalk.yellow('No scopes found.'));
+      return;
     }
 
+    const data = [
+      ['Scope', 'Memories', 'Last activity', 'Avg importance'].map(h => chalk.bold(h)),
+      ...list.map(s => [
+        chalk.cyan(s.scope),
+        String(s.count),
+        new Date(s.lastActivityAt).toLocaleString(),
+        s.avgImportance.toFixed(2),
+      ]),
+    ];
+
+    console.log(table(data));
+    console.log(chalk.gray(`Total: ${list.length} scopes`));
+  });
+
+/** Ask before a scope change that can't be undone without a snapshot */
+async function confirmScopeChange(question: string, yes: boolean | undefined): Promise<boolean> {
+  if (yes) return true;
+  const { createInterface } = await import('readline');
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>(resolve => {
+    rl.question(chalk.yellow(`${question} (y/N): `), resolve);
+  });
+  rl.close();
+  if (answer.toLowerCase() !== 'y') console.log('Cancelled.');
+  return answer.toLowerCase() === 'y';
+}
+
+function printScopeTransfer(verb: string, result: ScopeTransferResult): void {
+  const parts = [`${result.transferred} memories`];
+  if (result.merged > 0) parts.push(`${result.merged} merged into existing memories`);
+  if (result.skipped > 0) parts.push(`${result.skipped} duplicates trashed`);
+  parts.push(`${result.entities} entities`);
+  console.log(chalk.green(`✓ ${verb} ${result.source} → ${result.target}: ${parts.join(', ')}`));
+}
+
+scopes
+  .command('rename <from> <to>')
+  .description('Rename a scope (<to> must be empty; use merge otherwise)')
+  .action(async (from: string, to: string) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
     const manager = await getMemoryManager(config);
-    const success = await manager.forget(id);
 
-    if (success) {
-      console.log(chalk.green(`✓ Deleted memory ${id}`));
-    } else {
-      console.log(chalk.red(`✗ Memory ${id} not found`));
+    try {
+      printScopeTransfer('Renamed', await manager.renameScope(from as MemoryScope, to as MemoryScope, { actor: 'cli' }));
+    } catch (err) {
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
       process.exit(1);
     }
   });
 
-// ─── export ──────────────────────────────────────────────────────────────────
+scopes
+  .command('copy <from> <to>')
+  .description('Copy every memory and entity of a scope into another scope')
+  .action(async (from: string, to: string) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
 
-program
-  .command('export')
-  .description('Export memories to JSON file')
-  .option('-o, --output <path>', 'Output file path', 'tinmem-export.json')
-  .option('-s, --scope <scope>', 'Export only from this scope')
-  .action(async (opts) => {
+    try {
+      printScopeTransfer('Copied', await manager.copyScope(from as MemoryScope, to as MemoryScope));
+    } catch (err) {
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
+      process.exit(1);
+    }
+  });
+
+scopes
+  .command('move <from> <to>')
+  .description('Move every memory and entity of a scope into another scope, as they are')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (from: string, to: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    if (!(await confirmScopeChange(`Move all memories from ${from} to ${to}?`, opts.yes))) return;
+    const manager = await getMemoryManager(config);
+
+    try {
+      printScopeTransfer('Moved', await manager.moveScope(from as MemoryScope, to as MemoryScope, { actor: 'cli' }));
+    } catch (err) {
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
+      process.exit(1);
+    }
+  });
+
+scopes
+  .command('merge <from>')
+  .description('Merge a scope into another, deduplicating each memory against the target')
+  .requiredOption('--into <scope>', 'Scope to merge into')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (from: string, opts) => {
     const ora = (await import('ora')).default;
-    const { writeFileSync } = await import('fs');
     const config = loadConfig((program.opts() as { config?: string }).config);
+    const into = opts.into as MemoryScope;
+    if (!(await confirmScopeChange(`Merge ${from} into ${into}? Duplicates will be trashed.`, opts.yes))) return;
     const manager = await getMemoryManager(config);
 
-    const spinner = ora('Exporting memories...').start();
+    const spinner = ora(`Merging ${from} into ${into}...`).start();
+    try {
+      const result = await manager.mergeScope(from as MemoryScope, into, { actor: 'cli' });
+      spinner.stop();
+      printScopeTransfer('Merged', result);
+    } catch (err) {
+      spinner.fail(`Merge failed: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  });
 
-    const data = await manager.export(opts.scope);
-    writeFileSync(opts.output, JSON.stringify(data, null, 2), 'utf-8');
+scopes
+  .command('resolve <scope>')
+  .description('Show the scopes read for <scope>, nearest first, and its write policy')
+  .option('--json', 'Output as JSON')
+  .action(async (scope: string, opts) => {
+    const { ScopeResolver } = await import('../memory/scopes.js');
+    const config = loadConfig((program.opts() as { config?: string }).config);
 
-    spinner.succeed(`Exported ${data.memories.length} memories to ${opts.output}`);
+    let resolver: InstanceType<typeof ScopeResolver>;
+    let chain: ResolvedScope[];
+    try {
+      resolver = new ScopeResolver(config.scopes);
+      chain = resolver.resolve(scope as MemoryScope);
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify({ scope, rule: resolver.rule(scope as MemoryScope), chain }, null, 2));
+      return;
+    }
+
+    for (const r of chain) {
+      const indent = '  '.repeat(r.depth);
+      const via = r.via ? chalk.gray(` (via ${r.via})`) : '';
+      const access = resolver.canWrite(r.scope) ? '' : chalk.yellow(' [read-only]');
+      console.log(`${indent}${chalk.cyan(r.scope)}${via}${access}`);
+    }
   });
 
-// ─── import ──────────────────────────────────────────────────────────────────
+// ─── entities ────────────────────────────────────────────────────────────────
 
-program
-  .command('import <file>')
-  .description('Import memories from JSON file')
-  .option('-s, --scope <scope>', 'Override scope for imported memories')
-  .action(async (file: string, opts) => {
-    const ora = (await import('ora')).default;
-    const { readFileSync } = await import('fs');
+const entities = program
+  .command('entities')
+  .description('List, inspect, rename and merge registered entities');
+
+entities
+  .command('list', { isDefault: true })
+  .description('List entities with their aliases and number of memories')
+  .option('-s, --scope <scope>', 'Only entities in this scope')
+  .option('-t, --type <type>', 'Only this type: person, project, organization, tool, place, other')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { table } = await import('table');
     const config = loadConfig((program.opts() as { config?: string }).config);
     const manager = await getMemoryManager(config);
 
-    const spinner = ora(`Importing memories from ${file}...`).start();
+    const list = await manager.listEntities({ scope: opts.scope, type: opts.type as EntityType | undefined });
+
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+
+    if (list.length === 0) {
+      console.log(chalk.yellow('No entities found.'));
+      return;
+    }
+
+    const data = [
+      ['ID', 'Name', 'Type', 'Aliases', 'Memories', 'Scope'].map(h => chalk.bold(h)),
+      ...list.map(e => [
+        chalk.gray(e.id.slice(0, 8)),
+        chalk.cyan(e.name),
+        e.type,
+        e.aliases.join(', '),
+        String(e.memoryIds.length),
+        e.scope,
+      ]),
+    ];
+
+    console.log(table(data));
+    console.log(chalk.gray(`Total: ${list.length} entities`));
+  });
+
+entities
+  .command('show <entity>')
+  .description('Show an entity (by ID, name or alias) and its memories')
+  .option('-s, --scope <scope>', 'Scope to look the name up in (default: defaultScope)')
+  .option('--json', 'Output as JSON')
+  .action(async (ref: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const entity = await manager.resolveEntity(ref, opts.scope);
+    if (!entity) {
+      console.log(chalk.red(`✗ Entity ${ref} not found`));
+      process.exit(1);
+    }
+    const memories = await manager.getEntityMemories(entity.id);
+
+    if (opts.json) {
+      console.log(JSON.stringify({ ...entity, memories }, null, 2));
+      return;
+    }
+
+    console.log(`${chalk.bold(entity.name)} ${chalk.gray(`(${entity.type}, ${entity.scope})`)}`);
+    console.log(chalk.gray(`ID: ${entity.id}`));
+    if (entity.aliases.length > 0) console.log(`Aliases: ${entity.aliases.join(', ')}`);
+    for (const [key, value] of Object.entries(entity.attributes)) {
+      console.log(`${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+
+    console.log();
+    if (memories.length === 0) {
+      console.log(chalk.yellow('No memories linked.'));
+      return;
+    }
+    for (const m of memories) {
+      console.log(`  ${chalk.gray(m.id.slice(0, 8))} ${chalk.cyan(`[${m.category}]`)} ${m.headline}`);
+    }
+  });
+
+entities
+  .command('rename <entity> <name>')
+  .description('Change an entity\'s canonical name (the old name is kept as an alias)')
+  .option('-s, --scope <scope>', 'Scope to look the name up in (default: defaultScope)')
+  .action(async (ref: string, name: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
 
     try {
-      const rawData = readFileSync(file, 'utf-8');
-      const data = JSON.parse(rawData) as import('../types.js').ExportData;
+      const entity = await manager.renameEntity(ref, name, { scope: opts.scope });
+      console.log(chalk.green(`✓ Renamed to "${entity.name}" (aliases: ${entity.aliases.join(', ')})`));
+    } catch (err) {
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
+      process.exit(1);
+    }
+  });
 
-      const imported = await manager.import(data, opts.scope);
-      spinner.succeed(`Imported ${imported}/${data.memories.length} memories`);
+entities
+  .command('merge <entities...>')
+  .description('Merge entities into one; their names become aliases')
+  .requiredOption('--into <entity>', 'Entity to merge into')
+  .option('-s, --scope <scope>', 'Scope to look the names up in (default: defaultScope)')
+  .action(async (sources: string[], opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    try {
+      const entity = await manager.mergeEntities(sources, opts.into as string, { scope: opts.scope });
+      console.log(chalk.green(`✓ Merged into "${entity.name}" (${entity.memoryIds.length} memories, aliases: ${entity.aliases.join(', ')})`));
     } catch (err) {
-      spinner.fail(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
       process.exit(1);
     }
   });
 
-// ─── reembed ─────────────────────────────────────────────────────────────────
+// ─── delete ──────────────────────────────────────────────────────────────────
 
 program
-  .command('reembed')
-  .description('Re-embed all memories (use after changing embedding model)')
-  .option('-s, --scope <scope>', 'Re-embed only this scope')
+  .command('delete <id>')
+  .description('Move a memory to the trash by ID')
   .option('-y, --yes', 'Skip confirmation')
-  .action(async (opts) => {
-    const ora = (await import('ora')).default;
+  .action(async (id: string, opts) => {
     const config = loadConfig((program.opts() as { config?: string }).config);
 
     if (!opts.yes) {
       const { createInterface } = await import('readline');
       const rl = createInterface({ input: process.stdin, output: process.stdout });
       const answer = await new Promise<string>(resolve => {
-        rl.question(
-          chalk.yellow('This will re-embed all memories. This may take a while and consume API credits. Continue? (y/N): '),
-          resolve,
-        );
+        rl.question(chalk.yellow(`Delete memory ${id}? (y/N): `), resolve);
       });
       rl.close();
       if (answer.toLowerCase() !== 'y') {
@@ -299,13 +715,878 @@ program
     }
 
     const manager = await getMemoryManager(config);
-    const spinner = ora('Re-embedding memories...').start();
+    const success = await manager.forget(id, { actor: 'cli' });
 
-    try {
-      const count = await manager.reembed(opts.scope);
-      spinner.succeed(`Re-embedded ${count} memories`);
-    } catch (err) {
-      spinner.fail(`Re-embedding failed: ${err instanceof Error ? err.message : String(err)}`);
+    if (success) {
+      console.log(chalk.green(`✓ Moved memory ${id} to trash`));
+      console.log(chalk.gray(`  Restore with: tinmem trash restore ${id}`));
+    } else {
+      console.log(chalk.red(`✗ Memory ${id} not found`));
+      process.exit(1);
+    }
+  });
+
+// ─── trash ───────────────────────────────────────────────────────────────────
+
+const trash = program
+  .command('trash')
+  .description('Manage deleted memories');
+
+trash
+  .command('list')
+  .description('List memories in the trash')
+  .option('-s, --scope <scope>', 'Filter by scope')
+  .option('-l, --limit <n>', 'Max results', '50')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { table } = await import('table');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const trashed = await manager.listTrash({
+      scope: opts.scope,
+      limit: parseInt(opts.limit as string, 10),
+    });
+
+    if (opts.json) {
+      console.log(JSON.stringify(trashed, null, 2));
+      return;
+    }
+
+    if (trashed.length === 0) {
+      console.log(chalk.yellow('Trash is empty.'));
+      return;
+    }
+
+    const data = [
+      ['ID', 'Category', 'Scope', 'Headline', 'Deleted', 'By'].map(h => chalk.bold(h)),
+      ...trashed.map(m => [
+        m.id,
+        chalk.cyan(m.category),
+        chalk.gray(m.scope),
+        m.headline.slice(0, 50),
+        new Date(m.deletedAt).toLocaleString(),
+        chalk.magenta(m.deletedBy),
+      ]),
+    ];
+
+    console.log(table(data, { columns: { 3: { width: 50, wrapWord: true } } }));
+    console.log(chalk.gray(`Total: ${trashed.length} trashed memories (purged after ${config.trash.retentionDays} days)`));
+  });
+
+trash
+  .command('restore <id>')
+  .description('Restore a memory from the trash')
+  .action(async (id: string) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const restored = await manager.restore(id);
+    if (restored) {
+      console.log(chalk.green(`✓ Restored memory ${id}: ${restored.headline}`));
+    } else {
+      console.log(chalk.red(`✗ Memory ${id} not found in trash`));
+      process.exit(1);
+    }
+  });
+
+trash
+  .command('purge')
+  .description('Permanently delete trashed memories past the retention window')
+  .option('-a, --all', 'Purge everything in the trash, regardless of age')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    if (opts.all && !opts.yes) {
+      const { createInterface } = await import('readline');
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>(resolve => {
+        rl.question(chalk.yellow('Permanently delete everything in the trash? (y/N): '), resolve);
+      });
+      rl.close();
+      if (answer.toLowerCase() !== 'y') {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    const manager = await getMemoryManager(config);
+    const purged = await manager.purgeTrash({ all: opts.all });
+    console.log(chalk.green(`✓ Purged ${purged} memories from trash`));
+  });
+
+// ─── snapshot ────────────────────────────────────────────────────────────────
+
+const snapshot = program
+  .command('snapshot')
+  .description('Create and restore point-in-time snapshots of the store');
+
+snapshot
+  .command('create <label>')
+  .description('Snapshot the current state of the store')
+  .action(async (label: string) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    try {
+      const created = await manager.snapshot(label);
+      console.log(chalk.green(`✓ Created snapshot ${created.id.slice(0, 8)} "${created.label}" (${created.memoryCount} memories)`));
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+  });
+
+snapshot
+  .command('list')
+  .description('List snapshots, newest first')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { table } = await import('table');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const snapshots = await manager.listSnapshots();
+
+    if (opts.json) {
+      console.log(JSON.stringify(snapshots, null, 2));
+      return;
+    }
+
+    if (snapshots.length === 0) {
+      console.log(chalk.yellow('No snapshots.'));
+      return;
+    }
+
+    const data = [
+      ['ID', 'Label', 'Trigger', 'Memories', 'Created'].map(h => chalk.bold(h)),
+      ...snapshots.map(s => [
+        s.id.slice(0, 8),
+        s.label,
+        chalk.magenta(s.trigger),
+        String(s.memoryCount),
+        new Date(s.createdAt).toLocaleString(),
+      ]),
+    ];
+
+    console.log(table(data));
+    console.log(chalk.gray(`Total: ${snapshots.length} snapshots (keeping the newest ${config.snapshots.retain})`));
+  });
+
+snapshot
+  .command('restore <snapshot>')
+  .description('Roll the store back to a snapshot (by ID, ID prefix or label)')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (ref: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    if (!opts.yes) {
+      const { createInterface } = await import('readline');
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>(resolve => {
+        rl.question(chalk.yellow(`Replace all memories, trash, history, relations and entities with snapshot "${ref}"? (y/N): `), resolve);
+      });
+      rl.close();
+      if (answer.toLowerCase() !== 'y') {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    const manager = await getMemoryManager(config);
+    let restored: Snapshot | null;
+    try {
+      restored = await manager.restoreSnapshot(ref);
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+    if (restored) {
+      console.log(chalk.green(`✓ Restored snapshot "${restored.label}" (${restored.memoryCount} memories)`));
+      if (config.snapshots.autoSnapshot) {
+        console.log(chalk.gray('The previous state was saved as a snapshot; use `tinmem snapshot list` to find it.'));
+      }
+    } else {
+      console.log(chalk.red(`✗ Snapshot ${ref} not found`));
+      process.exit(1);
+    }
+  });
+
+snapshot
+  .command('delete <snapshot>')
+  .description('Forget a snapshot')
+  .action(async (ref: string) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    let deleted: boolean;
+    try {
+      deleted = await manager.deleteSnapshot(ref);
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+    if (deleted) {
+      console.log(chalk.green(`✓ Deleted snapshot ${ref}`));
+    } else {
+      console.log(chalk.red(`✗ Snapshot ${ref} not found`));
+      process.exit(1);
+    }
+  });
+
+// ─── sweep ───────────────────────────────────────────────────────────────────
+
+program
+  .command('sweep')
+  .description('Archive (or delete) memories past their expiry date')
+  .option('--archive', 'Move expired memories to the trash')
+  .option('--delete', 'Permanently delete expired memories')
+  .option('--dry-run', 'Only list what would be swept')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    if (opts.archive && opts.delete) {
+      console.error(chalk.red('Use either --archive or --delete, not both.'));
+      process.exit(1);
+    }
+
+    // Don't let the startup sweep run first, or --dry-run would have nothing to show
+    const manager = await getMemoryManager({ ...config, ttl: { ...config.ttl, sweepOnStartup: false } });
+    const action = opts.delete ? 'delete' : opts.archive ? 'archive' : undefined;
+    const result = await manager.sweepExpired({ action, dryRun: opts.dryRun });
+
+    if (opts.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.memoryIds.length === 0) {
+      console.log(chalk.green('No expired memories.'));
+      return;
+    }
+
+    const verb = result.action === 'archive' ? 'moved to trash' : 'permanently deleted';
+    if (result.dryRun) {
+      console.log(chalk.yellow(`${result.memoryIds.length} expired memories would be ${verb}:`));
+      for (const id of result.memoryIds) console.log(chalk.gray(`  ${id}`));
+      return;
+    }
+    console.log(chalk.green(`✓ ${result.memoryIds.length} expired memories ${verb}`));
+  });
+
+// ─── evict ───────────────────────────────────────────────────────────────────
+
+program
+  .command('evict')
+  .description('Evict memories from scopes over their quota')
+  .option('-s, --scope <scope>', 'Only evict from this scope')
+  .option('-p, --policy <policy>', 'Evict first by: importance, lru, oldest (default: scopes.eviction.policy)')
+  .option('--archive', 'Move evicted memories to the trash')
+  .option('--delete', 'Permanently delete evicted memories')
+  .option('--dry-run', 'Only list what would be evicted')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    if (opts.archive && opts.delete) {
+      console.error(chalk.red('Use either --archive or --delete, not both.'));
+      process.exit(1);
+    }
+    if (opts.policy && !['importance', 'lru', 'oldest'].includes(opts.policy)) {
+      console.error(chalk.red(`Invalid policy: ${opts.policy}. Must be one of: importance, lru, oldest`));
+      process.exit(1);
+    }
+
+    const manager = await getMemoryManager(config);
+    const action = opts.delete ? 'delete' : opts.archive ? 'archive' : undefined;
+    const result = await manager.evict({ scope: opts.scope, policy: opts.policy, action, dryRun: opts.dryRun });
+
+    if (opts.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const entries = Object.entries(result.evicted);
+    if (entries.length === 0) {
+      console.log(chalk.green('All scopes are within their quotas.'));
+      return;
+    }
+
+    const verb = result.action === 'archive' ? 'moved to trash' : 'permanently deleted';
+    for (const [scope, ids = []] of entries) {
+      if (result.dryRun) {
+        console.log(chalk.yellow(`${scope}: ${ids.length} memories would be ${verb} (${result.policy}):`));
+        for (const id of ids) console.log(chalk.gray(`  ${id}`));
+      } else {
+        console.log(chalk.green(`✓ ${scope}: ${ids.length} memories ${verb} (${result.policy})`));
+      }
+    }
+  });
+
+// ─── history ─────────────────────────────────────────────────────────────────
+
+program
+  .command('history <id>')
+  .description('Show previous versions of a memory')
+  .option('--json', 'Output as JSON')
+  .action(async (id: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const current = await manager.getById(id);
+    const versions = await manager.getHistory(id);
+
+    if (opts.json) {
+      console.log(JSON.stringify({
+        current,
+        versions: versions.map(({ snapshot: { vector: _vector, ...snapshot }, ...v }) => ({ ...v, snapshot })),
+      }, null, 2));
+      return;
+    }
+
+    if (!current && versions.length === 0) {
+      console.log(chalk.red(`✗ Memory ${id} not found`));
+      process.exit(1);
+    }
+
+    if (current) {
+      console.log(chalk.bold(`Current: ${current.headline}`));
+      console.log(chalk.gray(`  Updated: ${new Date(current.updatedAt).toLocaleString()}\n`));
+    }
+
+    if (versions.length === 0) {
+      console.log(chalk.yellow('No previous versions recorded.'));
+      return;
+    }
+
+    for (const v of versions) {
+      console.log(chalk.bold(`v${v.version} ${chalk.cyan(v.operation)} by ${chalk.magenta(v.actor)} — ${new Date(v.createdAt).toLocaleString()}`));
+      if (v.reason) console.log(chalk.gray(`  Reason: ${v.reason}`));
+      console.log(`  ${v.snapshot.headline}`);
+      console.log(chalk.gray(`  ${v.snapshot.summary}`));
+      console.log();
+    }
+  });
+
+// ─── revert ──────────────────────────────────────────────────────────────────
+
+program
+  .command('revert <id> <version>')
+  .description('Restore a memory to a previous version')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (id: string, version: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    if (!opts.yes) {
+      const { createInterface } = await import('readline');
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>(resolve => {
+        rl.question(chalk.yellow(`Revert memory ${id} to version ${version}? (y/N): `), resolve);
+      });
+      rl.close();
+      if (answer.toLowerCase() !== 'y') {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    const manager = await getMemoryManager(config);
+    let reverted: Memory | null;
+    try {
+      reverted = await manager.revert(id, parseInt(version, 10), { actor: 'cli' });
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+
+    if (reverted) {
+      console.log(chalk.green(`✓ Reverted memory ${id} to version ${version}`));
+    } else {
+      console.log(chalk.red(`✗ Version ${version} of memory ${id} not found`));
+      process.exit(1);
+    }
+  });
+
+// ─── links ───────────────────────────────────────────────────────────────────
+
+program
+  .command('links <id>')
+  .description('Show the memories linked to a memory')
+  .option('-t, --type <types...>', 'Only these relation types: supersedes, relatedTo, derivedFrom, mergedFrom')
+  .option('-d, --direction <direction>', 'out (from this memory), in (to it) or both', 'both')
+  .option('--depth <n>', 'Follow links this many hops', '1')
+  .option('--json', 'Output as JSON')
+  .action(async (id: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const current = await manager.getById(id);
+    if (!current) {
+      console.log(chalk.red(`✗ Memory ${id} not found`));
+      process.exit(1);
+    }
+
+    const linked = await manager.traverse(id, {
+      types: opts.type as RelationType[] | undefined,
+      direction: opts.direction as RelationDirection,
+      maxDepth: parseInt(opts.depth as string, 10),
+    });
+
+    if (opts.json) {
+      console.log(JSON.stringify(linked, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold(current.headline));
+    if (linked.length === 0) {
+      console.log(chalk.yellow('  No linked memories.'));
+      return;
+    }
+
+    for (const { relation, direction, memory, depth } of linked) {
+      const arrow = direction === 'out' ? '→' : '←';
+      const indent = '  '.repeat(depth);
+      console.log(`${indent}${arrow} ${chalk.cyan(relation.type)} ${chalk.gray(memory.id.slice(0, 8))} ${memory.headline}`);
+      if (relation.reason) console.log(chalk.gray(`${indent}  ${relation.reason}`));
+    }
+  });
+
+program
+  .command('link <source> <type> <target>')
+  .description('Link two memories, e.g. tinmem link <new-id> supersedes <old-id>')
+  .option('-r, --reason <text>', 'Why the memories are linked')
+  .action(async (source: string, type: string, target: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    try {
+      const relation = await manager.link(source, target, type as RelationType, { actor: 'cli', reason: opts.reason });
+      console.log(chalk.green(`✓ ${source} ${relation.type} ${target}`));
+    } catch (err) {
+      console.log(chalk.red(`✗ ${(err as Error).message}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unlink <source> <target>')
+  .description('Remove the links from one memory to another')
+  .option('-t, --type <type>', 'Only remove this relation type')
+  .action(async (source: string, target: string, opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const removed = await manager.unlink(source, target, opts.type as RelationType | undefined);
+    if (removed > 0) {
+      console.log(chalk.green(`✓ Removed ${removed} relation(s)`));
+    } else {
+      console.log(chalk.yellow('No matching relation.'));
+    }
+  });
+
+// ─── export ──────────────────────────────────────────────────────────────────
+
+program
+  .command('export')
+  .description('Export memories to JSON file')
+  .option('-o, --output <path>', 'Output file path', 'tinmem-export.json')
+  .option('-s, --scope <scope>', 'Export only from this scope')
+  .action(async (opts) => {
+    const ora = (await import('ora')).default;
+    const { writeFileSync } = await import('fs');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const spinner = ora('Exporting memories...').start();
+
+    const data = await manager.export(opts.scope);
+    writeFileSync(opts.output, JSON.stringify(data, null, 2), 'utf-8');
+
+    spinner.succeed(`Exported ${data.memories.length} memories to ${opts.output}`);
+  });
+
+// ─── import ──────────────────────────────────────────────────────────────────
+
+program
+  .command('import <file>')
+  .description('Import memories from JSON file')
+  .option('-s, --scope <scope>', 'Override scope for imported memories')
+  .action(async (file: string, opts) => {
+    const ora = (await import('ora')).default;
+    const { readFileSync } = await import('fs');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const spinner = ora(`Importing memories from ${file}...`).start();
+
+    try {
+      const rawData = readFileSync(file, 'utf-8');
+      const data = JSON.parse(rawData) as import('../types.js').ExportData;
+
+      const imported = await manager.import(data, opts.scope);
+      spinner.succeed(`Imported ${imported}/${data.memories.length} memories`);
+    } catch (err) {
+      spinner.fail(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+// ─── reembed ─────────────────────────────────────────────────────────────────
+
+program
+  .command('reembed')
+  .description('Re-embed all memories (use after changing embedding model)')
+  .option('-s, --scope <scope>', 'Re-embed only this scope')
+  .option('-y, --yes', 'Skip confirmation')
+  .action(async (opts) => {
+    const ora = (await import('ora')).default;
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    if (!opts.yes) {
+      const { createInterface } = await import('readline');
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      const answer = await new Promise<string>(resolve => {
+        rl.question(
+          chalk.yellow('This will re-embed all memories. This may take a while and consume API credits. Continue? (y/N): '),
+          resolve,
+        );
+      });
+      rl.close();
+      if (answer.toLowerCase() !== 'y') {
+        console.log('Cancelled.');
+        return;
+      }
+    }
+
+    const manager = await getMemoryManager(config);
+    const spinner = ora('Re-embedding memories...').start();
+
+    try {
+      const count = await manager.reembed(opts.scope);
+      spinner.succeed(`Re-embedded ${count} memories`);
+    } catch (err) {
+      spinner.fail(`Re-embedding failed: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+// ─── cache ───────────────────────────────────────────────────────────────────
+
+function formatCacheStats(stats: EmbeddingCacheStats): string {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : '-';
+  return `${stats.entries}/${stats.maxEntries} vectors, ` +
+    `${formatBytes(stats.sizeBytes)}/${formatBytes(stats.maxBytes)}, ` +
+    `${stats.hits} hits, ${stats.misses} misses (hit rate ${hitRate})`;
+}
+
+function requireEmbeddingCache(config: TinmemConfig) {
+  const cache = openEmbeddingCache(config);
+  if (!cache) {
+    console.log(chalk.yellow('Embedding cache is disabled (see embeddingCache in the config).'));
+    process.exit(1);
+  }
+  return cache;
+}
+
+const cache = program
+  .command('cache')
+  .description('Inspect and clear the persistent embedding cache');
+
+cache
+  .command('stats', { isDefault: true })
+  .description('Show cached vectors, disk usage and hit/miss counters')
+  .option('--json', 'Output as JSON')
+  .action((opts) => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const embeddingCache = requireEmbeddingCache(config);
+    const stats = embeddingCache.stats();
+
+    if (opts.json) {
+      console.log(JSON.stringify({ dir: embeddingCache.dir, ...stats }, null, 2));
+      return;
+    }
+
+    console.log(`${chalk.bold('Directory:')} ${embeddingCache.dir}`);
+    console.log(`${chalk.bold('Embedding cache:')} ${formatCacheStats(stats)}`);
+  });
+
+cache
+  .command('clear')
+  .description('Delete every cached vector and reset the counters')
+  .action(() => {
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const removed = requireEmbeddingCache(config).clear();
+    console.log(chalk.green(`✓ Cleared ${removed} cached embeddings`));
+  });
+
+// ─── migrate ─────────────────────────────────────────────────────────────────
+
+program
+  .command('migrate')
+  .description('Upgrade the memory store schema to the latest version')
+  .option('--dry-run', 'Report pending changes without modifying the store')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { TinmemDB } = await import('../memory/db.js');
+    const { LATEST_SCHEMA_VERSION } = await import('../memory/migrations.js');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    const db = new TinmemDB(config.dbPath, config.embedding.dimensions, {
+      autoMigrate: false,
+      lock: config.storage.lock,
+    });
+    await db.init();
+    const report = await db.migrate({ dryRun: Boolean(opts.dryRun) });
+
+    if (opts.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    if (report.migrations.length === 0) {
+      console.log(chalk.green(`✓ Store schema is up to date (v${LATEST_SCHEMA_VERSION})`));
+      return;
+    }
+
+    const verb = report.dryRun ? 'Would migrate' : 'Migrated';
+    console.log(chalk.bold(`${verb} store schema v${report.fromVersion} → v${report.toVersion}\n`));
+    for (const m of report.migrations) {
+      console.log(`${chalk.cyan(`v${m.version}`)} ${m.description}`);
+      if (m.changes.length === 0) {
+        console.log(chalk.gray('  (nothing to change)'));
+      }
+      for (const change of m.changes) {
+        console.log(chalk.gray(`  - ${change}`));
+      }
+    }
+
+    if (report.dryRun) {
+      console.log(chalk.yellow('\nDry run: no changes were made. Re-run without --dry-run to apply.'));
+    }
+  });
+
+// ─── maintain ────────────────────────────────────────────────────────────────
+
+program
+  .command('maintain')
+  .description('Compact tables, prune old versions and rebuild indexes')
+  .option('--reindex', 'Rebuild the vector index even if it is up to date')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const ora = (await import('ora')).default;
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    const manager = await getMemoryManager(config);
+
+    const spinner = opts.json ? null : ora('Maintaining tables...').start();
+    try {
+      const report = await manager.maintain({ reindex: opts.reindex });
+
+      if (opts.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      spinner?.succeed(`Maintenance finished in ${(report.durationMs / 1000).toFixed(1)}s`);
+      const { compaction, prune } = report;
+      console.log(`  Compaction:   ${compaction.fragmentsRemoved} fragments → ${compaction.fragmentsAdded}`);
+      console.log(`  Pruned:       ${prune.versionsRemoved} old versions (${formatBytes(prune.bytesRemoved)})`);
+      console.log(`  Vector index: ${report.vectorIndex === 'none'
+        ? chalk.gray(`none (below ${config.maintenance.vectorIndexThreshold} memories)`)
+        : report.vectorIndex}`);
+      console.log(`  FTS indexes:  ${report.ftsIndexesRebuilt.length > 0 ? `rebuilt (${report.ftsIndexesRebuilt.join(', ')})` : chalk.gray('none')}`);
+      console.log(`  Size:         ${formatBytes(report.sizeBeforeBytes)} → ${formatBytes(report.sizeAfterBytes)}`);
+    } catch (err) {
+      spinner?.fail(`Maintenance failed: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  });
+
+// ─── encrypt / decrypt ───────────────────────────────────────────────────────
+
+/**
+ * Rewrite the store's text fields with `target` (undefined: plaintext),
+ * reading existing values with `reader`. Shared by encrypt and decrypt.
+ */
+async function reencryptStore(
+  config: TinmemConfig,
+  reader: FieldCipher,
+  target: FieldCipher | undefined,
+  opts: { keepVersions?: boolean; yes?: boolean; json?: boolean },
+): Promise<void> {
+  const ora = (await import('ora')).default;
+  const { TinmemDB } = await import('../memory/db.js');
+
+  if (config.storage.backend !== 'lancedb') {
+    console.error(chalk.red(`✗ Encryption at rest is only supported by the lancedb backend, not ${config.storage.backend}`));
+    process.exit(1);
+  }
+
+  if (!opts.yes) {
+    const { createInterface } = await import('readline');
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    const action = target ? `encrypt it with key ${target.keyId}` : 'store it as plaintext';
+    const pruning = opts.keepVersions ? '' : ' Old table versions and all snapshots will be removed.';
+    const answer = await new Promise<string>(resolve => {
+      rl.question(chalk.yellow(`This rewrites every memory to ${action}.${pruning} Continue? (y/N): `), resolve);
+    });
+    rl.close();
+    if (answer.toLowerCase() !== 'y') {
+      console.log('Cancelled.');
+      return;
+    }
+  }
+
+  const db = new TinmemDB(config.dbPath, config.embedding.dimensions, {
+    autoMigrate: config.storage.autoMigrate,
+    lock: config.storage.lock,
+    cipher: reader,
+  });
+  const spinner = opts.json ? null : ora(target ? 'Encrypting memories...' : 'Decrypting memories...').start();
+
+  try {
+    await db.init();
+    const report = await db.reencrypt(target, { keepVersions: opts.keepVersions });
+
+    if (opts.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    spinner?.succeed(`${target ? `Encrypted with key ${target.keyId}` : 'Decrypted'}: ` +
+      `${report.memories} memories, ${report.trash} trashed, ${report.history} history versions`);
+    if (opts.keepVersions) {
+      console.log(chalk.yellow('Old table versions were kept and still hold the previous values. Run `tinmem maintain` to prune them.'));
+    } else {
+      console.log(chalk.gray(`Pruned ${report.versionsPruned} old table versions and ${report.snapshotsDropped} snapshots.`));
+    }
+    if (Boolean(target) !== config.encryption.enabled) {
+      console.log(chalk.cyan(`Set "encryption": { "enabled": ${Boolean(target)} } in your config to match.`));
+    }
+  } catch (err) {
+    spinner?.fail(`${target ? 'Encryption' : 'Decryption'} failed: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+/** Keys named by --old-key-env / --old-key-file, for reading a store mid-rotation */
+async function previousKeys(opts: { oldKeyEnv?: string; oldKeyFile?: string }): Promise<Buffer[]> {
+  if (!opts.oldKeyEnv && !opts.oldKeyFile) return [];
+  const { loadKey } = await import('../memory/encryption.js');
+  const key = loadKey({ keyEnv: opts.oldKeyEnv, keyFile: opts.oldKeyFile });
+  if (!key) throw new Error(`No key found in $${opts.oldKeyEnv}`);
+  return [key];
+}
+
+program
+  .command('encrypt')
+  .description('Encrypt existing memories with the configured key, or rotate them to it')
+  .option('--old-key-env <name>', 'Environment variable holding the key the store is encrypted with now')
+  .option('--old-key-file <path>', 'File holding the key the store is encrypted with now')
+  .option('--keep-versions', 'Keep old table versions and snapshots (they still hold the previous values)')
+  .option('--generate-key', 'Print a new random key and exit')
+  .option('-y, --yes', 'Skip confirmation')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { createFieldCipher, generateKey } = await import('../memory/encryption.js');
+    if (opts.generateKey) {
+      console.log(generateKey());
+      return;
+    }
+
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    let cipher: FieldCipher;
+    try {
+      cipher = createFieldCipher(config.encryption, await previousKeys(opts));
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+    await reencryptStore(config, cipher, cipher, opts);
+  });
+
+program
+  .command('decrypt')
+  .description('Decrypt all memories back to plaintext (re-enables full-text search)')
+  .option('--old-key-env <name>', 'Environment variable holding another key some values are encrypted with')
+  .option('--old-key-file <path>', 'File holding another key some values are encrypted with')
+  .option('--keep-versions', 'Keep old table versions and snapshots (they still hold the encrypted values)')
+  .option('-y, --yes', 'Skip confirmation')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const { createFieldCipher } = await import('../memory/encryption.js');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+    let cipher: FieldCipher;
+    try {
+      cipher = createFieldCipher(config.encryption, await previousKeys(opts));
+    } catch (err) {
+      console.error(chalk.red(`✗ ${err instanceof Error ? err.message : String(err)}`));
+      process.exit(1);
+    }
+    await reencryptStore(config, cipher, undefined, opts);
+  });
+
+// ─── migrate-backend ─────────────────────────────────────────────────────────
+
+program
+  .command('migrate-backend')
+  .description('Copy all memories, trash, history, relations and entities from one storage backend to another')
+  .requiredOption('--from <backend>', 'Source backend: lancedb or sqlite')
+  .requiredOption('--to <backend>', 'Target backend: lancedb or sqlite')
+  .option('--target-path <path>', 'dbPath for the target store (default: same dbPath)')
+  .action(async (opts) => {
+    const ora = (await import('ora')).default;
+    const { createMemoryStore, copyMemories, copyArchive } = await import('../memory/store.js');
+    const config = loadConfig((program.opts() as { config?: string }).config);
+
+    const backends = ['lancedb', 'sqlite'] as const;
+    type Backend = typeof backends[number];
+    for (const b of [opts.from, opts.to] as string[]) {
+      if (!(backends as readonly string[]).includes(b)) {
+        console.error(chalk.red(`Unknown backend: ${b}. Must be one of: ${backends.join(', ')}`));
+        process.exit(1);
+      }
+    }
+    if (opts.from === opts.to && !opts.targetPath) {
+      console.error(chalk.red('Source and target are the same store. Use a different --to or --target-path.'));
+      process.exit(1);
+    }
+
+    const storeFor = (backend: Backend, dbPath: string) =>
+      createMemoryStore({ ...config, dbPath, storage: { ...config.storage, backend } });
+
+    const source = await storeFor(opts.from as Backend, config.dbPath);
+    const target = await storeFor(opts.to as Backend, (opts.targetPath as string | undefined) ?? config.dbPath);
+
+    // Refuse to mix into an existing store: IDs would collide and counts would be misleading
+    const existing = (await target.getStats()).total;
+    if (existing > 0) {
+      console.error(chalk.red(`Target ${opts.to} store already contains ${existing} memories. Aborting.`));
+      process.exit(1);
+    }
+    if ((await target.listTrash({ limit: 1 })).length > 0) {
+      console.error(chalk.red(`Target ${opts.to} store already has memories in its trash. Aborting.`));
+      process.exit(1);
+    }
+
+    const total = (await source.getStats()).total;
+    const spinner = ora(`Copying ${total} memories from ${opts.from} to ${opts.to}...`).start();
+
+    try {
+      const copied = await copyMemories(source, target, {
+        onProgress: n => { spinner.text = `Copying memories from ${opts.from} to ${opts.to}... ${n}/${total}`; },
+      });
+      spinner.text = `Copying trash, history, relations and entities from ${opts.from} to ${opts.to}...`;
+      const archived = await copyArchive(source, target);
+      spinner.succeed(`Copied ${copied} memories from ${opts.from} to ${opts.to}`);
+      console.log(chalk.gray(
+        `Also copied ${archived.trash} trashed memories, ${archived.history} history versions, ` +
+        `${archived.relations} relations and ${archived.entities} entities.`,
+      ));
+      console.log(chalk.cyan(`Set "storage": { "backend": "${opts.to}" } in your config to switch.`));
+      if (opts.targetPath) console.log(chalk.cyan(`Also set "dbPath": "${opts.targetPath}".`));
+    } catch (err) {
+      spinner.fail(`Migration failed: ${err instanceof Error ? err.message : String(err)}`);
       process.exit(1);
     }
   });
@@ -96,9 +96,57 @@ export const TinmemConfigSchema = z.object({
   /** Default memory scope when none specified */
   defaultScope: z.string().default('global'),
 
+  /** Scope inheritance and access policies */
+  scopes: z.object({
+    /** Scopes read by a scope that has no rule of its own (global never inherits) */
+    defaultInherits: z.array(z.string()).default(['global']),
+    /**
+     * Rules keyed by scope ("project:x") or by scope type ("agent:*");
+     * an exact key wins over a type pattern
+     */
+    rules: z.record(z.object({
+      /** Scopes to read from besides this one, nearest first (replaces defaultInherits) */
+      inherits: z.array(z.string()).optional(),
+      /** false: keep this scope private, skipped by scopes that inherit from it */
+      read: z.boolean().default(true),
+      /** false: capture hooks and memory tools can't write to this scope */
+      write: z.boolean().default(true),
+      /** Most memories the scope may hold (replaces defaultMaxMemories) */
+      maxMemories: z.number().int().positive().optional(),
+    })).default({}),
+    /** Most memories a scope without its own maxMemories may hold (unset = unlimited) */
+    defaultMaxMemories: z.number().int().positive().optional(),
+    /** What happens when a scope goes over its quota */
+    eviction: z.object({
+      /**
+       * Which memories go first: importance (lowest first), lru (least
+       * recently accessed first) or oldest (earliest created first)
+       */
+      policy: z.enum(['importance', 'lru', 'oldest']).default('importance'),
+      /** archive: move evicted memories to the trash; delete: remove them permanently */
+      action: z.enum(['archive', 'delete']).default('archive'),
+      /** Evict as soon as new memories push a scope over its quota */
+      onInsert: z.boolean().default(true),
+    }).default({}),
+  }).default({}),
+
   /** Embedding service configuration */
   embedding: EmbeddingConfigSchema,
 
+  /** Persistent cache of computed embeddings, shared by every process using dbPath */
+  embeddingCache: z.object({
+    enabled: z.boolean().default(true),
+    /**
+     * Directory for cached vectors (default: <dbPath>/embedding-cache).
+     * The memory backend only caches when this is set.
+     */
+    dir: z.string().optional(),
+    /** Most vectors to keep; least recently used go first */
+    maxEntries: z.number().int().positive().default(50000),
+    /** Most disk space the vectors may take, in MB */
+    maxSizeMB: z.number().positive().default(256),
+  }).default({}),
+
   /** LLM service for extraction and deduplication */
   llm: LLMConfigSchema,
 
@@ -124,6 +172,38 @@ export const TinmemConfigSchema = z.object({
     reranker: RerankerConfigSchema,
     /** Number of candidates to fetch before reranking */
     candidateMultiplier: z.number().int().positive().default(3),
+    /** Hide memories superseded by a newer live memory */
+    excludeSuperseded: z.boolean().default(true),
+    /** Relation types to follow from results to pull in linked memories */
+    followRelations: z.array(z.enum(['supersedes', 'relatedTo', 'derivedFrom', 'mergedFrom'])).default([]),
+    /** Maximum number of linked memories added to a result set */
+    maxLinked: z.number().int().min(0).default(3),
+    /** Add the memories of entities a query names (by canonical name or alias) */
+    expandEntities: z.boolean().default(true),
+    /** How vector and BM25 scores are made comparable before scoring */
+    fusion: z.object({
+      /** weighted (cosine + max-normalized BM25), rrf (reciprocal rank × relevance) or zscore (per-source standardization) */
+      strategy: z.enum(['weighted', 'rrf', 'zscore']).default('weighted'),
+      /** RRF rank offset k: a result at rank r scores (k + 1) / (k + r) */
+      rrfK: z.number().int().positive().default(60),
+    }).default({}),
+    /** LLM query rewriting before search (costs one LLM call per uncached query) */
+    queryExpansion: z.object({
+      /** off, multi-query (search extra sub-queries) or hyde (search a hypothetical answer memory) */
+      mode: z.enum(['off', 'multi-query', 'hyde']).default('off'),
+      /** Most sub-queries to search in multi-query mode, besides the original */
+      maxQueries: z.number().int().min(1).max(10).default(3),
+      /** Rewrites kept in memory so repeated questions skip the LLM (0 = no cache) */
+      cacheSize: z.number().int().min(0).default(256),
+      /** Minutes a cached rewrite stays valid */
+      cacheTtlMinutes: z.number().positive().default(60),
+    }).default({}),
+    /** Maximal marginal relevance: keep near-duplicate memories from filling the results */
+    mmr: z.object({
+      enabled: z.boolean().default(false),
+      /** Relevance vs. diversity trade-off: 1 = relevance only, 0 = diversity only */
+      lambda: z.number().min(0).max(1).default(0.7),
+    }).default({}),
   }).default({}),
 
   /** Multi-stage scoring weights */
@@ -162,6 +242,81 @@ export const TinmemConfigSchema = z.object({
     ]),
   }).default({}),
 
+  /** Storage engine configuration */
+  storage: z.object({
+    /**
+     * lancedb: LanceDB tables in dbPath
+     * sqlite: SQLite file in dbPath (needs the optional better-sqlite3 dependency)
+     * memory: process-local, nothing written to disk
+     */
+    backend: z.enum(['lancedb', 'sqlite', 'memory']).default('lancedb'),
+    /** Apply pending schema migrations automatically on startup */
+    autoMigrate: z.boolean().default(true),
+    /** Cross-process write lock on the database directory */
+    lock: z.object({
+      /** Fail a write after waiting this long for another process (ms) */
+      timeoutMs: z.number().int().positive().default(10000),
+      /** Break a lock whose holder stopped refreshing it this long ago (ms) */
+      staleMs: z.number().int().positive().default(30000),
+      /** Delay between lock attempts (ms) */
+      retryIntervalMs: z.number().int().positive().default(50),
+    }).default({}),
+  }).default({}),
+
+  /** Field-level encryption at rest (lancedb backend only) */
+  encryption: z.object({
+    /**
+     * Encrypt headline, summary, content, metadata and history snapshots.
+     * Full-text search is unavailable while enabled, so retrieval is vector-only.
+     */
+    enabled: z.boolean().default(false),
+    /** Environment variable holding the 256-bit key (hex or base64) */
+    keyEnv: z.string().default('TINMEM_ENCRYPTION_KEY'),
+    /** File holding the key, read when the environment variable is unset */
+    keyFile: z.string().optional(),
+  }).default({}),
+
+  /** Soft-delete trash configuration */
+  trash: z.object({
+    /** Days a forgotten memory stays restorable before it is purged (0 = purge on next run) */
+    retentionDays: z.number().min(0).default(30),
+  }).default({}),
+
+  /** Memory expiration (TTL) */
+  ttl: z.object({
+    /** Default lifetime in days per category (unset = never expires); the LLM may set a shorter one */
+    defaults: z.object({
+      profile: z.number().positive().optional(),
+      preferences: z.number().positive().optional(),
+      entities: z.number().positive().optional(),
+      events: z.number().positive().optional(),
+      cases: z.number().positive().optional(),
+      patterns: z.number().positive().optional(),
+    }).default({}),
+    /** archive: move expired memories to the trash; delete: remove them permanently */
+    sweepAction: z.enum(['archive', 'delete']).default('archive'),
+    /** Sweep expired memories when the memory manager starts */
+    sweepOnStartup: z.boolean().default(true),
+  }).default({}),
+
+  /** Point-in-time snapshots (lancedb backend only) */
+  snapshots: z.object({
+    /** Keep at most this many snapshots; the oldest are dropped first */
+    retain: z.number().int().positive().default(10),
+    /** Also drop snapshots older than this many days (unset = no age limit) */
+    maxAgeDays: z.number().positive().optional(),
+    /** Snapshot automatically before forgetByScope(), reembed(), scope renames, moves and merges, and snapshot restores */
+    autoSnapshot: z.boolean().default(true),
+  }).default({}),
+
+  /** Table maintenance: compaction, version pruning and indexes (lancedb backend only) */
+  maintenance: z.object({
+    /** Prune table versions older than this many days (versions held by snapshots are kept) */
+    pruneOlderThanDays: z.number().min(0).default(7),
+    /** Build an ANN vector index once the memories table has this many rows */
+    vectorIndexThreshold: z.number().int().min(256).default(10000),
+  }).default({}),
+
   /** Auto-recall: inject memories into agent context */
   autoRecall: z.boolean().default(true),
 
@@ -171,6 +326,12 @@ export const TinmemConfigSchema = z.object({
   /** Minimum score for auto-recalled memories */
   recallMinScore: z.number().min(0).max(1).default(0.4),
 
+  /** Token budget for the injected memory context (0 = no limit) */
+  recallMaxTokens: z.number().int().min(0).default(1500),
+
+  /** Top auto-recalled memories shown in full (L2) when the budget allows; the rest get summaries (L1) */
+  recallFullDetail: z.number().int().min(0).default(2),
+
   /** Enable debug logging */
   debug: z.boolean().default(false),
 });
@@ -250,6 +411,7 @@ function buildEnvOverrides(): Record<string, unknown> {
   if (process.env.TINMEM_AUTO_CAPTURE === 'false') {
     overrides.capture = { auto: false };
   }
+  if (process.env.TINMEM_ENCRYPTION === 'true') overrides.encryption = { enabled: true };
 
   return overrides;
 }
@@ -277,11 +439,25 @@ export function generateSampleConfig(): string {
   return JSON.stringify({
     dbPath: `${homedir()}/.openclaw/tinmem/lancedb`,
     defaultScope: 'global',
+    scopes: {
+      defaultInherits: ['global'],
+      rules: {},
+      eviction: {
+        policy: 'importance',
+        action: 'archive',
+        onInsert: true,
+      },
+    },
     embedding: {
       provider: 'openai',
       apiKey: 'YOUR_OPENAI_API_KEY',
       model: 'text-embedding-3-small',
     },
+    embeddingCache: {
+      enabled: true,
+      maxEntries: 50000,
+      maxSizeMB: 256,
+    },
     llm: {
       apiKey: 'YOUR_OPENAI_API_KEY',
       model: 'gpt-4o-mini',
@@ -315,9 +491,39 @@ export function generateSampleConfig(): string {
       sessionSummary: true,
       noiseFilter: true,
     },
+    storage: {
+      backend: 'lancedb',
+      autoMigrate: true,
+      lock: {
+        timeoutMs: 10000,
+        staleMs: 30000,
+      },
+    },
+    encryption: {
+      enabled: false,
+      keyEnv: 'TINMEM_ENCRYPTION_KEY',
+    },
+    trash: {
+      retentionDays: 30,
+    },
+    ttl: {
+      defaults: {},
+      sweepAction: 'archive',
+      sweepOnStartup: true,
+    },
+    snapshots: {
+      retain: 10,
+      autoSnapshot: true,
+    },
+    maintenance: {
+      pruneOlderThanDays: 7,
+      vectorIndexThreshold: 10000,
+    },
     autoRecall: true,
     recallLimit: 8,
     recallMinScore: 0.4,
+    recallMaxTokens: 1500,
+    recallFullDetail: 2,
     debug: false,
   }, null, 2);
 }
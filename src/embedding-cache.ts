@@ -0,0 +1,396 @@
+/**
+ * openclaw-tinmem - Persistent embedding cache
+ * Disk-backed vectors keyed by provider, model, dimensions, mode and a hash of the text
+ *
+ * Each vector is one file of float32 values in the cache directory, named by
+ * its key. A file's mtime is its last use, so the least recently used entries
+ * are evicted first once the entry or size limit is exceeded. Hit and miss
+ * counters are kept in memory and added to a small JSON file next to the
+ * vectors every few seconds and when the process exits.
+ */
+
+import {
+  readFileSync, writeFileSync, renameSync, readdirSync, statSync,
+  unlinkSync, mkdirSync, existsSync, utimesSync, openSync, closeSync,
+} from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+
+import type { TinmemConfig } from './config.js';
+import type { EmbeddingMode, EmbeddingService } from './embeddings.js';
+import type { EmbeddingCacheStats } from './types.js';
+
+export const EMBEDDING_CACHE_DIR_NAME = 'embedding-cache';
+const COUNTERS_FILE_NAME = 'counters.json';
+const COUNTERS_LOCK_FILE_NAME = 'counters.lock';
+const VECTOR_EXT = '.f32';
+
+/** How long hit and miss counts stay in memory before being written */
+export const COUNTERS_FLUSH_INTERVAL_MS = 10_000;
+/** A counters lock older than this was left by a crashed process */
+const COUNTERS_LOCK_STALE_MS = 5_000;
+/**
+ * Eviction frees space down to this fraction of each limit, so a full cache
+ * sorts its entries once per batch of writes rather than on every write
+ */
+const EVICT_LOW_WATER = 0.9;
+
+export interface EmbeddingCacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+/** What a cached vector was produced by */
+export interface EmbeddingCacheKeyParts {
+  provider: string;
+  model: string;
+  dimensions: number;
+  mode: EmbeddingMode;
+}
+
+interface Counters {
+  hits: number;
+  misses: number;
+}
+
+/** Caches holding counts not yet written, flushed when the process exits */
+const unflushedCaches = new Set<EmbeddingCache>();
+let exitHookInstalled = false;
+
+function flushOnExit(cache: EmbeddingCache): void {
+  unflushedCaches.add(cache);
+  if (exitHookInstalled) return;
+  exitHookInstalled = true;
+  process.once('exit', () => {
+    for (const c of unflushedCaches) {
+      try { c.flush(); } catch { /* counters are best effort */ }
+    }
+  });
+}
+
+export class EmbeddingCache {
+  /** Entries by key with size and last use; loaded from disk on first access */
+  private index: Map<string, { size: number; usedAt: number }> | null = null;
+  private totalBytes = 0;
+  /** Counts not yet added to the counters file */
+  private unflushed: Counters = { hits: 0, misses: 0 };
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly dir: string,
+    private limits: EmbeddingCacheLimits,
+  ) {}
+
+  static key(parts: EmbeddingCacheKeyParts, text: string): string {
+    return createHash('sha256')
+      .update(`${parts.provider}\0${parts.model}\0${parts.dimensions}\0${parts.mode}\0${text}`)
+      .digest('hex');
+  }
+
+  /**
+   * The cached vector for `key`, or undefined. A hit refreshes the entry's
+   * last use; an entry of the wrong length is dropped.
+   */
+  get(key: string, dimensions: number): number[] | undefined {
+    const entry = this.load().get(key);
+    if (!entry) {
+      this.count('misses');
+      return undefined;
+    }
+
+    const path = this.pathOf(key);
+    try {
+      const buf = readFileSync(path);
+      if (buf.byteLength !== dimensions * 4) {
+        this.remove(key);
+        this.count('misses');
+        return undefined;
+      }
+      const now = Date.now();
+      utimesSync(path, new Date(now), new Date(now));
+      entry.usedAt = now;
+      this.count('hits');
+      return Array.from(new Float32Array(buf.buffer, buf.byteOffset, dimensions));
+    } catch {
+      // Removed by another process, or unreadable
+      this.forget(key);
+      this.count('misses');
+      return undefined;
+    }
+  }
+
+  /** Store a vector, evicting least recently used entries beyond the limits */
+  set(key: string, vector: number[]): void {
+    const index = this.load();
+    mkdirSync(this.dir, { recursive: true });
+
+    const path = this.pathOf(key);
+    const tmp = `${path}.${process.pid}.tmp`;
+    const buf = Buffer.from(new Float32Array(vector).buffer);
+    writeFileSync(tmp, buf);
+    renameSync(tmp, path);
+
+    this.forget(key);
+    index.set(key, { size: buf.byteLength, usedAt: Date.now() });
+    this.totalBytes += buf.byteLength;
+    this.evict();
+  }
+
+  /**
+   * Add this process's hit and miss counts to the counters file. Counts stay
+   * pending while another process holds the counters lock; they are dropped
+   * if the cache directory is gone (cleared, or nothing was ever cached).
+   */
+  flush(): void {
+    this.cancelFlush();
+    if (this.unflushed.hits === 0 && this.unflushed.misses === 0) return;
+    if (!existsSync(this.dir)) {
+      this.unflushed = { hits: 0, misses: 0 };
+      return;
+    }
+
+    const lockPath = join(this.dir, COUNTERS_LOCK_FILE_NAME);
+    if (!this.lockCounters(lockPath)) {
+      this.scheduleFlush();
+      return;
+    }
+    try {
+      const counters = this.readCounters();
+      counters.hits += this.unflushed.hits;
+      counters.misses += this.unflushed.misses;
+
+      const path = join(this.dir, COUNTERS_FILE_NAME);
+      const tmp = `${path}.${process.pid}.tmp`;
+      writeFileSync(tmp, JSON.stringify(counters), 'utf-8');
+      renameSync(tmp, path);
+      this.unflushed = { hits: 0, misses: 0 };
+    } finally {
+      try { unlinkSync(lockPath); } catch { /* already gone */ }
+    }
+  }
+
+  stats(): EmbeddingCacheStats {
+    const index = this.load();
+    const counters = this.readCounters();
+    return {
+      entries: index.size,
+      sizeBytes: this.totalBytes,
+      maxEntries: this.limits.maxEntries,
+      maxBytes: this.limits.maxBytes,
+      hits: counters.hits + this.unflushed.hits,
+      misses: counters.misses + this.unflushed.misses,
+    };
+  }
+
+  /** Delete every cached vector and reset the counters. Returns the number of entries removed. */
+  clear(): number {
+    const keys = [...this.load().keys()];
+    for (const key of keys) this.remove(key);
+    try { unlinkSync(join(this.dir, COUNTERS_FILE_NAME)); } catch { /* no counters yet */ }
+    this.unflushed = { hits: 0, misses: 0 };
+    this.cancelFlush();
+    return keys.length;
+  }
+
+  private count(kind: keyof Counters): void {
+    this.unflushed[kind]++;
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    flushOnExit(this);
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      try { this.flush(); } catch { /* counters are best effort */ }
+    }, COUNTERS_FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  private cancelFlush(): void {
+    unflushedCaches.delete(this);
+    if (!this.flushTimer) return;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+  }
+
+  /**
+   * Take the counters lock without waiting (flush runs at exit, where it
+   * can't), breaking one left behind by a crashed process
+   */
+  private lockCounters(lockPath: string): boolean {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        closeSync(openSync(lockPath, 'wx'));
+        return true;
+      } catch {
+        try {
+          if (Date.now() - statSync(lockPath).mtimeMs < COUNTERS_LOCK_STALE_MS) return false;
+          unlinkSync(lockPath);
+        } catch {
+          // Released between our attempts; try again
+        }
+      }
+    }
+    return false;
+  }
+
+  private load(): Map<string, { size: number; usedAt: number }> {
+    if (this.index) return this.index;
+
+    this.index = new Map();
+    this.totalBytes = 0;
+    if (!existsSync(this.dir)) return this.index;
+
+    for (const name of readdirSync(this.dir)) {
+      const path = join(this.dir, name);
+      if (name.endsWith('.tmp')) {
+        try { unlinkSync(path); } catch { /* ignore */ }
+        continue;
+      }
+      if (!name.endsWith(VECTOR_EXT)) continue;
+      try {
+        const st = statSync(path);
+        this.index.set(name.slice(0, -VECTOR_EXT.length), { size: st.size, usedAt: st.mtimeMs });
+        this.totalBytes += st.size;
+      } catch {
+        // Removed while listing
+      }
+    }
+    return this.index;
+  }
+
+  private evict(): void {
+    const index = this.load();
+    if (index.size <= this.limits.maxEntries && this.totalBytes <= this.limits.maxBytes) return;
+
+    const maxEntries = Math.max(1, Math.floor(this.limits.maxEntries * EVICT_LOW_WATER));
+    const maxBytes = this.limits.maxBytes * EVICT_LOW_WATER;
+    const oldestFirst = [...index.entries()].sort((a, b) => a[1].usedAt - b[1].usedAt);
+    for (const [key] of oldestFirst) {
+      if (index.size <= maxEntries && this.totalBytes <= maxBytes) break;
+      this.remove(key);
+    }
+  }
+
+  private remove(key: string): void {
+    try { unlinkSync(this.pathOf(key)); } catch { /* already gone */ }
+    this.forget(key);
+  }
+
+  /** Drop `key` from the in-memory index only */
+  private forget(key: string): void {
+    const entry = this.index?.get(key);
+    if (!entry) return;
+    this.index!.delete(key);
+    this.totalBytes -= entry.size;
+  }
+
+  private readCounters(): Counters {
+    try {
+      const parsed = JSON.parse(readFileSync(join(this.dir, COUNTERS_FILE_NAME), 'utf-8')) as Partial<Counters>;
+      return { hits: parsed.hits ?? 0, misses: parsed.misses ?? 0 };
+    } catch {
+      return { hits: 0, misses: 0 };
+    }
+  }
+
+  private pathOf(key: string): string {
+    return join(this.dir, `${key}${VECTOR_EXT}`);
+  }
+}
+
+/**
+ * An EmbeddingService that answers from the cache where it can and embeds
+ * only the texts it hasn't seen. Cache failures never fail an embedding.
+ */
+export class CachedEmbeddingService implements EmbeddingService {
+  constructor(
+    private inner: EmbeddingService,
+    readonly cache: EmbeddingCache,
+    private model: string,
+  ) {}
+
+  get dimensions(): number {
+    return this.inner.dimensions;
+  }
+
+  get provider(): string {
+    return this.inner.provider;
+  }
+
+  async embed(text: string, mode: EmbeddingMode): Promise<number[]> {
+    const key = this.keyOf(text, mode);
+    const cached = this.lookup(key);
+    if (cached) return cached;
+
+    const vector = await this.inner.embed(text, mode);
+    this.store(key, vector);
+    return vector;
+  }
+
+  async embedBatch(texts: string[], mode: EmbeddingMode): Promise<number[][]> {
+    const results: Array<number[] | undefined> = texts.map(() => undefined);
+    // Texts to embed, each with the positions it fills
+    const missing = new Map<string, number[]>();
+
+    texts.forEach((text, i) => {
+      const pending = missing.get(text);
+      if (pending) {
+        pending.push(i);
+        return;
+      }
+      const cached = this.lookup(this.keyOf(text, mode));
+      if (cached) results[i] = cached;
+      else missing.set(text, [i]);
+    });
+
+    if (missing.size > 0) {
+      const toEmbed = [...missing.keys()];
+      const vectors = await this.inner.embedBatch(toEmbed, mode);
+      toEmbed.forEach((text, j) => {
+        const vector = vectors[j]!;
+        this.store(this.keyOf(text, mode), vector);
+        for (const i of missing.get(text)!) results[i] = vector;
+      });
+    }
+
+    return results as number[][];
+  }
+
+  private keyOf(text: string, mode: EmbeddingMode): string {
+    const parts = { provider: this.provider, model: this.model, dimensions: this.dimensions, mode };
+    return EmbeddingCache.key(parts, text);
+  }
+
+  private lookup(key: string): number[] | undefined {
+    try {
+      return this.cache.get(key, this.dimensions);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private store(key: string, vector: number[]): void {
+    try {
+      this.cache.set(key, vector);
+    } catch {
+      // Disk full or read-only: keep working uncached
+    }
+  }
+}
+
+/**
+ * The embedding cache configured by `embeddingCache`, or null when it is
+ * disabled. Stored under `<dbPath>/embedding-cache` unless `dir` is set; the
+ * memory backend writes nothing to disk, so it only caches with `dir`.
+ */
+export function openEmbeddingCache(config: TinmemConfig): EmbeddingCache | null {
+  const cfg = config.embeddingCache;
+  if (!cfg.enabled) return null;
+  if (!cfg.dir && config.storage.backend === 'memory') return null;
+  return new EmbeddingCache(cfg.dir ?? join(config.dbPath, EMBEDDING_CACHE_DIR_NAME), {
+    maxEntries: cfg.maxEntries,
+    maxBytes: cfg.maxSizeMB * 1024 * 1024,
+  });
+}
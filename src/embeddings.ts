@@ -4,16 +4,25 @@
  */
 
 import type { TinmemConfig } from './config.js';
+import { CachedEmbeddingService, openEmbeddingCache } from './embedding-cache.js';
+
+/**
+ * What a text is embedded as: a search query, or a document that is stored
+ * and searched. Asymmetric models embed the two differently so that queries
+ * land near the documents that answer them.
+ */
+export type EmbeddingMode = 'query' | 'document';
 
 export interface EmbeddingService {
-  embed(text: string): Promise<number[]>;
-  embedBatch(texts: string[]): Promise<number[][]>;
+  embed(text: string, mode: EmbeddingMode): Promise<number[]>;
+  embedBatch(texts: string[], mode: EmbeddingMode): Promise<number[][]>;
   readonly dimensions: number;
   readonly provider: string;
 }
 
 // ─── OpenAI Embedding ────────────────────────────────────────────────────────
 
+/** OpenAI models are symmetric: queries and documents are embedded alike */
 class OpenAIEmbedding implements EmbeddingService {
   readonly provider = 'openai';
 
@@ -24,12 +33,12 @@ class OpenAIEmbedding implements EmbeddingService {
     private baseUrl: string = 'https://api.openai.com/v1',
   ) {}
 
-  async embed(text: string): Promise<number[]> {
-    const results = await this.embedBatch([text]);
+  async embed(text: string, mode: EmbeddingMode): Promise<number[]> {
+    const results = await this.embedBatch([text], mode);
     return results[0]!;
   }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
+  async embedBatch(texts: string[], _mode: EmbeddingMode): Promise<number[][]> {
     const response = await fetch(`${this.baseUrl}/embeddings`, {
       method: 'POST',
       headers: {
@@ -70,12 +79,12 @@ class JinaEmbedding implements EmbeddingService {
     private baseUrl: string = 'https://api.jina.ai/v1',
   ) {}
 
-  async embed(text: string): Promise<number[]> {
-    const results = await this.embedBatch([text]);
+  async embed(text: string, mode: EmbeddingMode): Promise<number[]> {
+    const results = await this.embedBatch([text], mode);
     return results[0]!;
   }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
+  async embedBatch(texts: string[], mode: EmbeddingMode): Promise<number[][]> {
     const response = await fetch(`${this.baseUrl}/embeddings`, {
       method: 'POST',
       headers: {
@@ -86,7 +95,7 @@ class JinaEmbedding implements EmbeddingService {
         model: this.model,
         input: texts.map(text => ({ text })),
         dimensions: this.dimensions,
-        task: 'retrieval.passage',
+        task: mode === 'query' ? 'retrieval.query' : 'retrieval.passage',
         late_chunking: false,
       }),
     });
@@ -104,38 +113,15 @@ class JinaEmbedding implements EmbeddingService {
       .sort((a, b) => a.index - b.index)
       .map(d => d.embedding);
   }
-
-  /** Embed a query (different task type for better retrieval) */
-  async embedQuery(text: string): Promise<number[]> {
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: this.model,
-        input: [{ text }],
-        dimensions: this.dimensions,
-        task: 'retrieval.query',
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Jina embedding error: ${response.status} ${error}`);
-    }
-
-    const data = await response.json() as {
-      data: Array<{ embedding: number[] }>;
-    };
-
-    return data.data[0]!.embedding;
-  }
 }
 
 // ─── Gemini Embedding ────────────────────────────────────────────────────────
 
+const GEMINI_TASK_TYPES: Record<EmbeddingMode, string> = {
+  query: 'RETRIEVAL_QUERY',
+  document: 'RETRIEVAL_DOCUMENT',
+};
+
 class GeminiEmbedding implements EmbeddingService {
   readonly provider = 'gemini';
 
@@ -146,7 +132,7 @@ class GeminiEmbedding implements EmbeddingService {
     private baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta',
   ) {}
 
-  async embed(text: string): Promise<number[]> {
+  async embed(text: string, mode: EmbeddingMode): Promise<number[]> {
     const response = await fetch(
       `${this.baseUrl}/models/${this.model}:embedContent?key=${this.apiKey}`,
       {
@@ -155,6 +141,7 @@ class GeminiEmbedding implements EmbeddingService {
         body: JSON.stringify({
           model: `models/${this.model}`,
           content: { parts: [{ text }] },
+          taskType: GEMINI_TASK_TYPES[mode],
           outputDimensionality: this.dimensions,
         }),
       }
@@ -172,7 +159,7 @@ class GeminiEmbedding implements EmbeddingService {
     return data.embedding.values;
   }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
+  async embedBatch(texts: string[], mode: EmbeddingMode): Promise<number[][]> {
     // Gemini has a batch embed endpoint
     const response = await fetch(
       `${this.baseUrl}/models/${this.model}:batchEmbedContents?key=${this.apiKey}`,
@@ -183,6 +170,7 @@ class GeminiEmbedding implements EmbeddingService {
           requests: texts.map(text => ({
             model: `models/${this.model}`,
             content: { parts: [{ text }] },
+            taskType: GEMINI_TASK_TYPES[mode],
             outputDimensionality: this.dimensions,
           })),
         }),
@@ -204,6 +192,12 @@ class GeminiEmbedding implements EmbeddingService {
 
 // ─── Ollama Embedding ────────────────────────────────────────────────────────
 
+/** Task prefixes nomic-embed-text models were trained with */
+const NOMIC_PREFIXES: Record<EmbeddingMode, string> = {
+  query: 'search_query: ',
+  document: 'search_document: ',
+};
+
 class OllamaEmbedding implements EmbeddingService {
   readonly provider = 'ollama';
 
@@ -213,11 +207,12 @@ class OllamaEmbedding implements EmbeddingService {
     private baseUrl: string = 'http://localhost:11434/api',
   ) {}
 
-  async embed(text: string): Promise<number[]> {
+  async embed(text: string, mode: EmbeddingMode): Promise<number[]> {
+    const input = this.model.includes('nomic-embed') ? `${NOMIC_PREFIXES[mode]}${text}` : text;
     const response = await fetch(`${this.baseUrl}/embed`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: this.model, input: text }),
+      body: JSON.stringify({ model: this.model, input }),
     });
 
     if (!response.ok) {
@@ -232,15 +227,25 @@ class OllamaEmbedding implements EmbeddingService {
     return data.embeddings[0]!;
   }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
-    const results = await Promise.all(texts.map(t => this.embed(t)));
+  async embedBatch(texts: string[], mode: EmbeddingMode): Promise<number[][]> {
+    const results = await Promise.all(texts.map(t => this.embed(t, mode)));
     return results;
   }
 }
 
 // ─── Factory ──────────────────────────────────────────────────────────────────
 
+/**
+ * The configured provider, behind the persistent embedding cache unless
+ * `embeddingCache.enabled` is false
+ */
 export function createEmbeddingService(config: TinmemConfig): EmbeddingService {
+  const provider = createProviderService(config);
+  const cache = openEmbeddingCache(config);
+  return cache ? new CachedEmbeddingService(provider, cache, config.embedding.model) : provider;
+}
+
+function createProviderService(config: TinmemConfig): EmbeddingService {
   const cfg = config.embedding;
 
   switch (cfg.provider) {
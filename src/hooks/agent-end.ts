@@ -6,6 +6,7 @@
 import type { TinmemConfig } from '../config.js';
 import type { AgentEndPayload, Memory, MemoryScope } from '../types.js';
 import { getMemoryManager } from '../memory/manager.js';
+import { agentScope } from '../memory/scopes.js';
 
 export interface AgentEndResult {
   /** Memories stored in this turn */
@@ -25,10 +26,12 @@ export async function handleAgentEnd(
   try {
     const manager = await getMemoryManager(config);
 
-    // Use agent-specific scope if available, fallback to global
-    const scope: MemoryScope = payload.agentId
-      ? `agent:${payload.agentId}`
-      : (config.defaultScope as MemoryScope);
+    // Use agent-specific scope if available, fallback to the default scope
+    const scope = agentScope(payload.agentId, config.defaultScope as MemoryScope);
+    if (!manager.scopes.canWrite(scope)) {
+      if (config.debug) console.log(`[tinmem] Skipping capture: scope ${scope} is read-only`);
+      return { stored: [], storedCount: 0 };
+    }
 
     // Build existing context summary for deduplication awareness
     let existingContext: string | undefined;
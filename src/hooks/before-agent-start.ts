@@ -4,61 +4,79 @@
  */
 
 import type { TinmemConfig } from '../config.js';
-import type { BeforeAgentStartPayload } from '../types.js';
+import type { BeforeAgentStartPayload, MemoryScope, RenderedMemory } from '../types.js';
 import { getMemoryManager } from '../memory/manager.js';
-import { buildContextInjection } from '../prompts.js';
+import { agentScope } from '../memory/scopes.js';
+import { buildBudgetedContext, type TokenEstimator } from '../prompts.js';
 
 export interface BeforeAgentStartResult {
   /** Memory context to inject into the system prompt */
   contextInjection: string;
-  /** Number of memories retrieved */
+  /** Number of memories injected (recalled memories that didn't fit the budget are left out) */
   memoriesFound: number;
-  /** IDs of retrieved memories */
+  /** IDs of the injected memories */
   memoryIds: string[];
+  /** Estimated tokens of contextInjection */
+  tokensUsed: number;
+  /** Memories that fit in `recallMaxTokens`, with the level each was rendered at */
+  rendered: RenderedMemory[];
+}
+
+function emptyResult(): BeforeAgentStartResult {
+  return { contextInjection: '', memoriesFound: 0, memoryIds: [], tokensUsed: 0, rendered: [] };
 }
 
 export async function handleBeforeAgentStart(
   payload: BeforeAgentStartPayload,
   config: TinmemConfig,
+  options: { estimateTokens?: TokenEstimator } = {},
 ): Promise<BeforeAgentStartResult> {
   if (!config.autoRecall) {
-    return { contextInjection: '', memoriesFound: 0, memoryIds: [] };
+    return emptyResult();
   }
 
   try {
     const manager = await getMemoryManager(config);
 
-    // Determine scope: prefer agent-specific scope, fallback to global
-    const scopes = payload.agentId
-      ? [`agent:${payload.agentId}` as const, 'global' as const]
-      : ['global' as const];
+    // The agent's own scope plus whatever it inherits (global by default)
+    const scope = agentScope(payload.agentId, config.defaultScope as MemoryScope);
 
     const result = await manager.recall(payload.userMessage, {
-      scope: scopes,
+      scope,
+      inheritScopes: true,
       limit: config.recallLimit,
       minScore: config.recallMinScore,
     });
 
     if (result.memories.length === 0) {
-      return { contextInjection: '', memoriesFound: 0, memoryIds: [] };
+      return emptyResult();
     }
 
     // Reuse recall results directly instead of calling buildContext which
     // would perform the entire retrieval pipeline a second time.
-    const contextInjection = buildContextInjection(result.memories, 'L1');
+    const context = buildBudgetedContext(result.memories, {
+      maxTokens: config.recallMaxTokens,
+      fullDetail: config.recallFullDetail,
+      estimateTokens: options.estimateTokens,
+    });
 
     if (config.debug) {
-      console.log(`[tinmem] Injecting ${result.memories.length} memories for session ${payload.sessionId}`);
+      console.log(
+        `[tinmem] Injecting ${context.rendered.length}/${result.memories.length} memories ` +
+        `(~${context.tokensUsed} tokens) for session ${payload.sessionId}`,
+      );
     }
 
     return {
-      contextInjection,
-      memoriesFound: result.memories.length,
-      memoryIds: result.memories.map(m => m.id),
+      contextInjection: context.text,
+      memoriesFound: context.rendered.length,
+      memoryIds: context.rendered.map(r => r.memoryId),
+      tokensUsed: context.tokensUsed,
+      rendered: context.rendered,
     };
   } catch (err) {
     console.error('[tinmem] before_agent_start error:', err);
-    return { contextInjection: '', memoriesFound: 0, memoryIds: [] };
+    return emptyResult();
   }
 }
 
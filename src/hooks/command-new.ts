@@ -24,6 +24,10 @@ export async function handleCommandNew(
     const manager = await getMemoryManager(config);
 
     const scope: MemoryScope = config.defaultScope as MemoryScope;
+    if (!manager.scopes.canWrite(scope)) {
+      if (config.debug) console.log(`[tinmem] Skipping session summary: scope ${scope} is read-only`);
+      return { summaryMemories: [] };
+    }
 
     const summaryMemories = await manager.processSession(conversationHistory, scope);
 
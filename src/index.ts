@@ -25,12 +25,25 @@
 
 export { MemoryManager, getMemoryManager, resetMemoryManager } from './memory/manager.js';
 export { TinmemDB, getDB } from './memory/db.js';
+export { LockTimeoutError } from './memory/lock.js';
+export { FieldCipher, createFieldCipher, generateKey } from './memory/encryption.js';
+export { createMemoryStore, copyMemories, copyArchive } from './memory/store.js';
+export type {
+  MemoryStore, NewMemory, MemoryUpdate, NewRelation, NewEntity, EntityUpdate, StoreArchive,
+} from './memory/store.js';
+export { InMemoryStore } from './memory/in-memory-store.js';
+export { SqliteStore } from './memory/sqlite-store.js';
 export { MemoryExtractor } from './memory/extractor.js';
 export { MemoryDeduplicator } from './memory/deduplicator.js';
 export { MemoryRetriever } from './memory/retriever.js';
 export { MemoryScorer } from './memory/scorer.js';
+export { filterFromInput, parseTimeBound } from './memory/filter.js';
 export { createEmbeddingService, cosineSimilarity, normalizeVector } from './embeddings.js';
+export type { EmbeddingService, EmbeddingMode } from './embeddings.js';
+export { EmbeddingCache, CachedEmbeddingService, openEmbeddingCache } from './embedding-cache.js';
 export { createLLMService } from './llm.js';
+export { buildContextInjection, buildBudgetedContext, estimateTokens } from './prompts.js';
+export type { TokenEstimator, ContextBudgetOptions } from './prompts.js';
 export { createReranker } from './reranker.js';
 export { loadConfig, generateSampleConfig } from './config.js';
 export type { TinmemConfig } from './config.js';
@@ -3,53 +3,131 @@
  * Handles storage, retrieval, and full-text search
  */
 
-import * as lancedb from '@lancedb/lancedb';
-import { mkdirSync } from 'fs';
+import type * as lancedb from '@lancedb/lancedb';
+import { mkdirSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
-import type { Memory, MemoryRecord, MemoryScope, MemoryCategory, MemoryStats } from '../types.js';
-import { assertUuid, assertScope, assertCategory, escapeSqlLiteral } from './sql-safety.js';
-
-const TABLE_NAME = 'memories';
-const INIT_SENTINEL_ID = '__tinmem_init__';
-
-// ─── Dummy Row ───────────────────────────────────────────────────────────────
-// Used to create the table with the correct schema via db.createTable([row]).
-// This avoids createEmptyTable(schema) which has a LanceDB 0.14 bug with
-// FixedSizeList when apache-arrow schema objects are passed directly.
-
-function buildDummyRow(dimensions: number): Record<string, unknown> {
-  return {
-    id: INIT_SENTINEL_ID,
-    headline: '',
-    summary: '',
-    content: '',
-    category: 'profile',
-    scope: 'global',
-    importance: 0.0,
-    createdAt: 0.0,
-    updatedAt: 0.0,
-    accessCount: 0.0,
-    lastAccessedAt: 0.0,
-    tags: '[]',
-    metadata: '{}',
-    vector: Array.from({ length: dimensions }, () => 0),
-  };
+import type {
+  Memory, MemoryRecord, MemoryScope, MemoryCategory, MemoryStats,
+  ChangeContext, MemoryVersion, TrashedMemory,
+  ListOptions, ListResult,
+  JournalOperation, RecoveredRecord, RecoveryReport, SweepAction,
+  Snapshot, SnapshotTrigger, IndexInfo, MaintenanceReport, TagCount, TagListOptions,
+  MemoryRelation, MemoryActor, RelationQuery, RelationType, Entity, EntityListOptions, EntityType,
+  MemoryFilter, ReencryptReport, ScopeSummary,
+} from '../types.js';
+import {
+  assertUuid, assertScope, assertCategory, assertRelationType, assertEntityType, escapeSqlLiteral,
+} from './sql-safety.js';
+import {
+  TABLE_NAME, HISTORY_TABLE_NAME, TRASH_TABLE_NAME, RELATIONS_TABLE_NAME, ENTITIES_TABLE_NAME,
+} from './schema.js';
+import { LATEST_SCHEMA_VERSION, runMigrations, type MigrationReport } from './migrations.js';
+import { readMeta, updateMeta } from './meta.js';
+import { DirectoryLock, type LockOptions } from './lock.js';
+import { WriteAheadJournal } from './journal.js';
+import type {
+  EntityUpdate, MaintenanceOptions, MemoryStore, MemoryUpdate, NewEntity, NewMemory, NewRelation, SearchFilterOptions,
+  StoreArchive,
+} from './store.js';
+import { assertOrderField, decodeCursor, encodeCursor, paginate } from './pagination.js';
+import { assertFilter, compileFilter, isEmptyFilter, matchesFilter, matchesMetadata } from './filter.js';
+import { countTags } from './tags.js';
+import { summarizeScopes } from './scopes.js';
+import { assertEntity, entityKeys, normalizeEntityName, sortEntities } from './entities.js';
+import { isEncrypted, type FieldCipher } from './encryption.js';
+import { recordsHistory } from './store.js';
+
+/** SQL predicate for memories still live at `now` (expiresAt 0 = never expires) */
+function notExpiredFilter(now: number): string {
+  return `(\`expiresAt\` = 0 OR \`expiresAt\` > ${now})`;
+}
+
+function expiredFilter(now: number): string {
+  return `(\`expiresAt\` > 0 AND \`expiresAt\` <= ${now})`;
+}
+
+/**
+ * Read a string list column (an Arrow vector). Rows journaled before tags
+ * became a list column hold a JSON string instead.
+ */
+function stringsFromColumn(value: unknown): string[] {
+  if (typeof value === 'string') {
+    try { return JSON.parse(value) as string[]; } catch { return []; }
+  }
+  return value ? Array.from(value as Iterable<string>) : [];
+}
+
+/** Relations touching any memory in a quoted, comma-separated ID list */
+function relationsOf(idList: string): string {
+  return `\`sourceId\` IN (${idList}) OR \`targetId\` IN (${idList})`;
+}
+
+function sqlStringList(values: string[]): string {
+  return `make_array(${values.map(v => `'${escapeSqlLiteral(v)}'`).join(', ')})`;
+}
+
+/** Columns with a full-text index on the memories table (tags are a list column and matched exactly) */
+const FTS_COLUMNS = ['content', 'summary', 'headline'];
+
+/** Rows per mergeInsert when rewriting a table with a new key */
+const REENCRYPT_BATCH_SIZE = 500;
+
+/** Safety margin when keeping table versions that snapshots point at */
+const PRUNE_MARGIN_MS = 60_000;
+
+/** Total size of the files under `path` */
+function directorySize(path: string): number {
+  let total = 0;
+  for (const entry of readdirSync(path, { withFileTypes: true })) {
+    const child = join(path, entry.name);
+    try {
+      total += entry.isDirectory() ? directorySize(child) : statSync(child).size;
+    } catch {
+      // Removed while walking (e.g. by a concurrent cleanup)
+    }
+  }
+  return total;
+}
+
+export interface TinmemDBOptions {
+  /** Apply pending schema migrations during init() (default: true) */
+  autoMigrate?: boolean;
+  /** Inter-process write lock timing */
+  lock?: Partial<LockOptions>;
+  /**
+   * Encrypt headline, summary, content, metadata and history snapshots.
+   * Full-text search returns nothing while a cipher is set.
+   */
+  cipher?: FieldCipher;
 }
 
 // ─── TinmemDB ────────────────────────────────────────────────────────────────
 
-export class TinmemDB {
+export class TinmemDB implements MemoryStore {
+  private lance!: typeof lancedb;
   private db!: lancedb.Connection;
   private table!: lancedb.Table;
+  private historyTable!: lancedb.Table;
+  private trashTable!: lancedb.Table;
+  private relationsTable!: lancedb.Table;
+  private entitiesTable!: lancedb.Table;
   private initialized = false;
   private ftsReady = false;
+  private schemaBehind?: MigrationReport;
+  private recovery?: RecoveryReport;
   private writeLock: Promise<void> = Promise.resolve();
+  private cipher?: FieldCipher;
 
   /**
    * Serialize all write operations to prevent read-modify-write race conditions.
    * Uses a Promise chain: each write waits for the previous one to complete.
    * Reference: epro-memory db.ts withWriteLock pattern.
+   *
+   * Inside the chain, the directory lock serializes writes across processes
+   * (agent hooks, the CLI, other agents sharing the same dbPath).
+   * Reads never take either lock.
    */
   private async withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
     const prev = this.writeLock;
@@ -57,56 +135,113 @@ export class TinmemDB {
     this.writeLock = new Promise<void>((r) => { resolve = r; });
     await prev;
     try {
-      return await fn();
+      return await this.dirLock.withLock(fn);
     } finally {
       resolve();
     }
   }
 
+  private dirLock: DirectoryLock;
+  private journal: WriteAheadJournal;
+
   constructor(
     private dbPath: string,
     private dimensions: number,
-  ) {}
+    private options: TinmemDBOptions = {},
+  ) {
+    this.dirLock = new DirectoryLock(dbPath, options.lock);
+    this.journal = new WriteAheadJournal(dbPath);
+    this.cipher = options.cipher;
+  }
 
   async init(): Promise<void> {
     if (this.initialized) return;
 
     mkdirSync(this.dbPath, { recursive: true });
-    this.db = await lancedb.connect(this.dbPath);
+    // Loaded on first use so the package can be imported on targets without
+    // LanceDB's native binaries (e.g. when running the sqlite backend)
+    this.lance = await import('@lancedb/lancedb');
+    // readConsistencyInterval 0: always see writes committed by other processes
+    this.db = await this.lance.connect(this.dbPath, { readConsistencyInterval: 0 });
+
+    // FTS indexes must be created AFTER data is inserted (not on empty table),
+    // so a brand-new store defers them to ensureFtsIndexes() in insert()/bulkInsert().
+    // For an existing table the FTS indexes should already be present.
+    const isNewStore = !(await this.db.tableNames()).includes(TABLE_NAME);
+    this.ftsReady = !isNewStore;
+
+    const pending = await this.migrate({ dryRun: this.options.autoMigrate === false });
+    if (pending.dryRun && pending.migrations.length > 0) {
+      this.schemaBehind = pending;
+    }
 
     const tables = await this.db.tableNames();
-    if (tables.includes(TABLE_NAME)) {
-      this.table = await this.db.openTable(TABLE_NAME);
-      // For existing table: FTS indexes should already be present
-      this.ftsReady = true;
-    } else {
-      // Use dummy-row technique to avoid LanceDB 0.14 bug with createEmptyTable+FixedSizeList.
-      // LanceDB's sanitize.js checks `listSize in typeLike` and throws when passed external
-      // Arrow schema objects in some environments. Inserting a dummy row lets LanceDB infer
-      // the schema from JS data instead, then we delete the sentinel row.
-      this.table = await this.db.createTable(
-        TABLE_NAME,
-        [buildDummyRow(this.dimensions)],
-        { mode: 'create' }
-      );
-      await this.table.delete(`id = '${INIT_SENTINEL_ID}'`);
-      // FTS indexes must be created AFTER data is inserted (not on empty table)
-      // See ensureFtsIndexes() called from insert()/bulkInsert()
-      this.ftsReady = false;
+    if (tables.includes(TABLE_NAME)) this.table = await this.db.openTable(TABLE_NAME);
+    if (tables.includes(HISTORY_TABLE_NAME)) this.historyTable = await this.db.openTable(HISTORY_TABLE_NAME);
+    if (tables.includes(TRASH_TABLE_NAME)) this.trashTable = await this.db.openTable(TRASH_TABLE_NAME);
+    if (tables.includes(RELATIONS_TABLE_NAME)) this.relationsTable = await this.db.openTable(RELATIONS_TABLE_NAME);
+    if (tables.includes(ENTITIES_TABLE_NAME)) this.entitiesTable = await this.db.openTable(ENTITIES_TABLE_NAME);
+
+    if (!this.schemaBehind && this.table) {
+      this.recovery = await this.recoverJournal();
     }
 
     this.initialized = true;
   }
 
+  /**
+   * Interrupted writes repaired by the last init(), if any.
+   */
+  getRecovery(): RecoveryReport | undefined {
+    return this.recovery;
+  }
+
+  /**
+   * Bring the store up to the latest schema version. With `dryRun`, only
+   * report what would change. Stores created before schema versioning are
+   * treated as version 1; a store without a memories table starts at 0.
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+    if (!this.db) throw new Error('TinmemDB not connected. Call init() first.');
+
+    const hasMemories = (await this.db.tableNames()).includes(TABLE_NAME);
+    const fromVersion = readMeta(this.dbPath).schemaVersion ?? (hasMemories ? 1 : 0);
+
+    const run = () => runMigrations(
+      { db: this.db, dimensions: this.dimensions },
+      fromVersion,
+      {
+        dryRun: options.dryRun,
+        onApplied: version => { updateMeta(this.dbPath, { schemaVersion: version, migratedAt: Date.now() }); },
+      },
+    );
+
+    const report = options.dryRun ? await run() : await this.withWriteLock(run);
+
+    if (!options.dryRun && report.migrations.length > 0) {
+      this.schemaBehind = undefined;
+      if (this.initialized) {
+        this.table = await this.db.openTable(TABLE_NAME);
+        this.historyTable = await this.db.openTable(HISTORY_TABLE_NAME);
+        this.trashTable = await this.db.openTable(TRASH_TABLE_NAME);
+        this.relationsTable = await this.db.openTable(RELATIONS_TABLE_NAME);
+        this.entitiesTable = await this.db.openTable(ENTITIES_TABLE_NAME);
+      }
+    }
+
+    return report;
+  }
+
   /**
    * Create or update FTS indexes. Must be called after data is present in the table.
    * FTS indexes created on empty tables return incorrect (all-matching) results.
    */
   private async ensureFtsIndexes(): Promise<void> {
-    if (this.ftsReady) return;
-    for (const col of ['content', 'summary', 'headline', 'tags']) {
+    // Indexing ciphertext would only add useless tokens
+    if (this.ftsReady || this.cipher) return;
+    for (const col of FTS_COLUMNS) {
       try {
-        await this.table.createIndex(col, { config: lancedb.Index.fts() });
+        await this.table.createIndex(col, { config: this.lance.Index.fts() });
       } catch {
         // Index already exists or table is empty – both are OK
       }
@@ -116,12 +251,44 @@ export class TinmemDB {
 
   private ensureInit(): void {
     if (!this.initialized) throw new Error('TinmemDB not initialized. Call init() first.');
+    if (this.schemaBehind) {
+      throw new Error(
+        `Store schema is at v${this.schemaBehind.fromVersion} but v${LATEST_SCHEMA_VERSION} is required. ` +
+        'Run `tinmem migrate` to upgrade it.',
+      );
+    }
+  }
+
+  private assertVector(vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+  }
+
+  /**
+   * Run a plain (non-vector) query over every matching row.
+   * LanceDB's query() applies a default limit of 10 rows, so the limit is
+   * set explicitly from countRows().
+   */
+  private async queryAll(
+    table: lancedb.Table,
+    options: { where?: string; columns?: string[]; withRowId?: boolean } = {},
+  ): Promise<Record<string, unknown>[]> {
+    const count = await table.countRows(options.where);
+    if (count === 0) return [];
+
+    let query = table.query().limit(count);
+    if (options.where) query = query.where(options.where);
+    if (options.columns) query = query.select(options.columns);
+    if (options.withRowId) query = query.withRowId();
+    return await query.toArray() ?? [];
   }
 
   // ─── CRUD ────────────────────────────────────────────────────────────────
 
-  async insert(memory: Omit<MemoryRecord, 'id' | 'createdAt' | 'updatedAt' | 'accessCount' | 'lastAccessedAt'>): Promise<Memory> {
+  async insert(memory: NewMemory): Promise<Memory> {
     this.ensureInit();
+    this.assertVector(memory.vector);
 
     const now = Date.now();
     const record: MemoryRecord = {
@@ -140,73 +307,170 @@ export class TinmemDB {
     });
   }
 
-  async update(id: string, updates: Partial<Pick<Memory, 'headline' | 'summary' | 'content' | 'importance' | 'tags' | 'metadata'>> & { vector?: number[] }): Promise<Memory | null> {
+  /**
+   * Update a memory in place. The previous record is saved to the history
+   * table first, so every update can later be inspected or reverted.
+   */
+  async update(
+    id: string,
+    updates: MemoryUpdate,
+    change: ChangeContext = { actor: 'api' },
+  ): Promise<Memory | null> {
     this.ensureInit();
     assertUuid(id);
+    if (updates.vector) this.assertVector(updates.vector);
 
     return this.withWriteLock(async () => {
-      const existing = await this.getById(id);
+      const existing = await this.getById(id, { withVector: true });
       if (!existing) return null;
 
+      const historyId = recordsHistory(updates)
+        ? await this.appendHistory(existing as MemoryRecord, change)
+        : undefined;
+
+      // Ignore keys explicitly set to undefined so they don't erase existing fields
+      const defined = Object.fromEntries(
+        Object.entries(updates).filter(([, v]) => v !== undefined),
+      ) as typeof updates;
+
       const updated: MemoryRecord = {
         ...existing,
-        ...updates,
+        ...defined,
+        expiresAt: updates.expiresAt === null ? undefined : (updates.expiresAt ?? existing.expiresAt),
         vector: updates.vector ?? (existing as MemoryRecord).vector ?? [],
         updatedAt: Date.now(),
       };
 
-      // Save original for rollback in case add() fails
-      const rollbackRow = this.toRow(existing as MemoryRecord);
-
-      await this.table.delete(`id = '${escapeSqlLiteral(id)}'`);
-      try {
-        await this.table.add([this.toRow(updated)]);
-      } catch (err) {
-        // Rollback: restore original record
-        await this.table.add([rollbackRow]);
-        throw err;
-      }
-
+      await this.replaceRow('update', existing as MemoryRecord, updated, historyId);
       return this.fromRow(this.toRow(updated));
     });
   }
 
-  async delete(id: string): Promise<boolean> {
+  /**
+   * Move a memory to the trash. It disappears from search, list and stats
+   * but can be restored until the trash is purged.
+   */
+  async delete(id: string, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<boolean> {
     this.ensureInit();
     assertUuid(id);
 
     return this.withWriteLock(async () => {
-      const existing = await this.getById(id);
-      if (!existing) return false;
-      await this.table.delete(`id = '${escapeSqlLiteral(id)}'`);
-      return true;
+      const moved = await this.moveToTrash(`id = '${escapeSqlLiteral(id)}'`, change);
+      return moved.length > 0;
     });
   }
 
-  async deleteMany(ids: string[]): Promise<number> {
+  async deleteMany(ids: string[], change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
     this.ensureInit();
-    if (ids.length === 0) return 0;
+    if (ids.length === 0) return [];
     for (const id of ids) assertUuid(id);
 
     return this.withWriteLock(async () => {
       const idList = ids.map(id => `'${escapeSqlLiteral(id)}'`).join(', ');
-      await this.table.delete(`id IN (${idList})`);
-      return ids.length;
+      return this.moveToTrash(`id IN (${idList})`, change);
     });
   }
 
-  async deleteByScope(scope: MemoryScope): Promise<number> {
+  async deleteByScope(scope: MemoryScope, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
     this.ensureInit();
     assertScope(scope);
 
     return this.withWriteLock(async () => {
-      const before = await this.countByScope(scope);
-      await this.table.delete(`scope = '${escapeSqlLiteral(scope)}'`);
-      return before;
+      return this.moveToTrash(`scope = '${escapeSqlLiteral(scope)}'`, change);
     });
   }
 
-  async getById(id: string): Promise<Memory | null> {
+  // ─── Trash ───────────────────────────────────────────────────────────────
+
+  /**
+   * Copy matching rows into the trash table, then remove them from the live table.
+   * Rows are added to the trash before deletion so a failure never loses data.
+   * Callers must already hold the write lock.
+   */
+  private async moveToTrash(where: string, change: Omit<ChangeContext, 'operation'>): Promise<string[]> {
+    const rows = await this.queryAll(this.table, { where });
+    if (rows.length === 0) return [];
+
+    const deletedAt = Date.now();
+    await this.trashTable.add(rows.map(row => ({
+      ...this.toRow({ ...this.fromRow(row), vector: this.vectorFromRow(row) }),
+      deletedAt,
+      deletedBy: change.actor,
+      deleteReason: change.reason ?? '',
+    })));
+    await this.table.delete(where);
+
+    return rows.map(r => r.id as string);
+  }
+
+  async listTrash(options: { scope?: MemoryScope; limit?: number } = {}): Promise<TrashedMemory[]> {
+    this.ensureInit();
+
+    let where: string | undefined;
+    if (options.scope) {
+      assertScope(options.scope);
+      where = `scope = '${escapeSqlLiteral(options.scope)}'`;
+    }
+
+    const rows = await this.queryAll(this.trashTable, { where });
+    return rows
+      .map(row => this.trashFromRow(row))
+      .sort((a, b) => b.deletedAt - a.deletedAt)
+      .slice(0, options.limit ?? 100);
+  }
+
+  /**
+   * Move a trashed memory back into the live table. History is preserved.
+   */
+  async restore(id: string): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.withWriteLock(async () => {
+      const where = `id = '${escapeSqlLiteral(id)}'`;
+      const rows = await this.trashTable.query().where(where).limit(1).toArray();
+      if (!rows || rows.length === 0) return null;
+
+      const record: MemoryRecord = { ...this.fromRow(rows[0]), vector: this.vectorFromRow(rows[0]) };
+      await this.table.add([this.toRow(record)]);
+      await this.ensureFtsIndexes();
+      await this.trashTable.delete(where);
+
+      return this.fromRow(this.toRow(record));
+    });
+  }
+
+  /**
+   * Permanently delete trashed memories and their history.
+   * With `olderThan`, only rows trashed before that timestamp are purged.
+   */
+  async purgeTrash(options: { olderThan?: number; ids?: string[] } = {}): Promise<number> {
+    this.ensureInit();
+    if (options.ids?.length === 0) return 0;
+    for (const id of options.ids ?? []) assertUuid(id);
+
+    return this.withWriteLock(async () => {
+      const filters: string[] = [];
+      if (options.olderThan !== undefined) {
+        if (!Number.isFinite(options.olderThan)) throw new Error(`Invalid timestamp: ${options.olderThan}`);
+        filters.push(`\`deletedAt\` < ${options.olderThan}`);
+      }
+      if (options.ids) filters.push(`id IN (${options.ids.map(id => `'${escapeSqlLiteral(id)}'`).join(', ')})`);
+      const where = filters.length > 0 ? filters.join(' AND ') : undefined;
+
+      const rows = await this.queryAll(this.trashTable, { where, columns: ['id'] });
+      if (rows.length === 0) return 0;
+
+      const idList = rows.map(r => `'${escapeSqlLiteral(r.id as string)}'`).join(', ');
+      await this.trashTable.delete(where ?? `id IN (${idList})`);
+      await this.historyTable.delete(`\`memoryId\` IN (${idList})`);
+      await this.relationsTable.delete(relationsOf(idList));
+      await this.detachEntityMemories(rows.map(r => r.id as string));
+      return rows.length;
+    });
+  }
+
+  async getById(id: string, options: { withVector?: boolean } = {}): Promise<Memory | null> {
     this.ensureInit();
     assertUuid(id);
     const results = await this.table
@@ -215,7 +479,24 @@ export class TinmemDB {
       .limit(1)
       .toArray();
 
-    return results?.length > 0 ? this.fromRow(results[0]) : null;
+    if (!results || results.length === 0) return null;
+    const memory = this.fromRow(results[0]);
+    if (options.withVector) memory.vector = this.vectorFromRow(results[0]);
+    return memory;
+  }
+
+  async getByIds(ids: string[], options: { withVector?: boolean } = {}): Promise<Memory[]> {
+    this.ensureInit();
+    if (ids.length === 0) return [];
+    for (const id of ids) assertUuid(id);
+
+    const idList = ids.map(id => `'${escapeSqlLiteral(id)}'`).join(', ');
+    const rows = await this.table.query().where(`id IN (${idList})`).limit(ids.length).toArray();
+    return rows.map(row => {
+      const memory = this.fromRow(row);
+      if (options.withVector) memory.vector = this.vectorFromRow(row);
+      return memory;
+    });
   }
 
   async incrementAccessCount(id: string): Promise<void> {
@@ -223,37 +504,478 @@ export class TinmemDB {
     assertUuid(id);
 
     await this.withWriteLock(async () => {
-      const existing = await this.getById(id);
+      const existing = await this.getById(id, { withVector: true });
       if (!existing) return;
 
-      const rollbackRow = this.toRow(existing as MemoryRecord);
-
-      await this.table.delete(`id = '${escapeSqlLiteral(id)}'`);
       const updated = {
         ...existing,
         vector: (existing as MemoryRecord).vector ?? [],
         accessCount: existing.accessCount + 1,
         lastAccessedAt: Date.now(),
       };
+      await this.replaceRow('access', existing as MemoryRecord, updated);
+    });
+  }
+
+  // ─── Expiration ──────────────────────────────────────────────────────────
+
+  /**
+   * Memories whose expiresAt has passed. They are already hidden from search
+   * and list; this is what sweepExpired() would remove.
+   */
+  async findExpired(now = Date.now()): Promise<Memory[]> {
+    this.ensureInit();
+    const rows = await this.queryAll(this.table, { where: expiredFilter(now) });
+    return rows.map(row => this.fromRow(row));
+  }
+
+  /**
+   * Archive (move to trash) or permanently delete every expired memory.
+   * Returns the swept IDs.
+   */
+  async sweepExpired(action: SweepAction, now = Date.now()): Promise<string[]> {
+    this.ensureInit();
+    if (!Number.isFinite(now)) throw new Error(`Invalid timestamp: ${now}`);
+
+    return this.withWriteLock(async () => {
+      if (action === 'archive') {
+        return this.moveToTrash(expiredFilter(now), { actor: 'sweeper', reason: 'Expired' });
+      }
+
+      const rows = await this.queryAll(this.table, { where: expiredFilter(now), columns: ['id'] });
+      if (rows.length === 0) return [];
+
+      const idList = rows.map(r => `'${escapeSqlLiteral(r.id as string)}'`).join(', ');
+      await this.table.delete(`id IN (${idList})`);
+      await this.historyTable.delete(`\`memoryId\` IN (${idList})`);
+      await this.relationsTable.delete(relationsOf(idList));
+      await this.detachEntityMemories(rows.map(r => r.id as string));
+      return rows.map(r => r.id as string);
+    });
+  }
+
+  // ─── Snapshots ───────────────────────────────────────────────────────────
+
+  /**
+   * Tables captured by a snapshot, keyed by table name.
+   */
+  private snapshotTables(): Record<string, lancedb.Table> {
+    return {
+      [TABLE_NAME]: this.table,
+      [TRASH_TABLE_NAME]: this.trashTable,
+      [HISTORY_TABLE_NAME]: this.historyTable,
+      [RELATIONS_TABLE_NAME]: this.relationsTable,
+      [ENTITIES_TABLE_NAME]: this.entitiesTable,
+    };
+  }
+
+  /**
+   * Label the current version of every table. LanceDB keeps old table
+   * versions until they are cleaned up, so a snapshot is just the recorded
+   * version numbers; taking one copies no data.
+   */
+  async createSnapshot(label: string, trigger: SnapshotTrigger): Promise<Snapshot> {
+    this.ensureInit();
+    if (!label.trim()) throw new Error('Snapshot label must not be empty');
+
+    return this.withWriteLock(async () => {
+      const existing = readMeta(this.dbPath).snapshots ?? [];
+      if (existing.some(s => s.label === label)) {
+        throw new Error(`A snapshot labeled "${label}" already exists`);
+      }
+
+      const tableVersions: Record<string, number> = {};
+      for (const [name, table] of Object.entries(this.snapshotTables())) {
+        tableVersions[name] = await table.version();
+      }
+
+      const snapshot: Snapshot = {
+        id: uuidv4(),
+        label,
+        trigger,
+        createdAt: Date.now(),
+        schemaVersion: readMeta(this.dbPath).schemaVersion ?? LATEST_SCHEMA_VERSION,
+        memoryCount: await this.table.countRows(),
+        tableVersions,
+      };
+      updateMeta(this.dbPath, { snapshots: [...existing, snapshot] });
+      return snapshot;
+    });
+  }
+
+  async listSnapshots(): Promise<Snapshot[]> {
+    this.ensureInit();
+    // Stored oldest first; reverse before the (stable) sort so same-millisecond snapshots stay in order
+    const snapshots = readMeta(this.dbPath).snapshots ?? [];
+    return [...snapshots].reverse().sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Make the snapshot's table versions the latest ones. Restoring writes new
+   * versions rather than discarding newer ones, so snapshots taken after
+   * this one remain restorable.
+   */
+  async restoreSnapshot(id: string): Promise<Snapshot | null> {
+    this.ensureInit();
+
+    return this.withWriteLock(async () => {
+      const snapshot = (readMeta(this.dbPath).snapshots ?? []).find(s => s.id === id);
+      if (!snapshot) return null;
+
+      const currentSchema = readMeta(this.dbPath).schemaVersion ?? LATEST_SCHEMA_VERSION;
+      if (snapshot.schemaVersion !== currentSchema) {
+        throw new Error(
+          `Snapshot "${snapshot.label}" was taken at schema v${snapshot.schemaVersion}, ` +
+          `but the store is at v${currentSchema}; it can no longer be restored.`,
+        );
+      }
+
+      // Check out every version first so a missing one aborts before anything changes
+      const tables = this.snapshotTables();
       try {
-        await this.table.add([this.toRow(updated)]);
+        for (const [name, version] of Object.entries(snapshot.tableVersions)) {
+          await tables[name]!.checkout(version);
+        }
       } catch (err) {
-        await this.table.add([rollbackRow]);
-        throw err;
+        for (const table of Object.values(tables)) await table.checkoutLatest();
+        throw new Error(
+          `Snapshot "${snapshot.label}" is no longer available (its table versions were cleaned up): ` +
+          (err instanceof Error ? err.message : String(err)),
+        );
+      }
+
+      for (const name of Object.keys(snapshot.tableVersions)) {
+        await tables[name]!.restore();
+      }
+
+      // The restored version may predate the FTS indexes
+      this.ftsReady = false;
+      if (await this.table.countRows() > 0) await this.ensureFtsIndexes();
+
+      return snapshot;
+    });
+  }
+
+  /**
+   * Forget a snapshot. Its table versions stay on disk until cleaned up.
+   */
+  async deleteSnapshot(id: string): Promise<boolean> {
+    this.ensureInit();
+
+    return this.withWriteLock(async () => {
+      const snapshots = readMeta(this.dbPath).snapshots ?? [];
+      const remaining = snapshots.filter(s => s.id !== id);
+      if (remaining.length === snapshots.length) return false;
+      updateMeta(this.dbPath, { snapshots: remaining });
+      return true;
+    });
+  }
+
+  // ─── Journal ─────────────────────────────────────────────────────────────
+
+  /**
+   * Swap a row for its new version (LanceDB has no in-place update).
+   * The change is journaled before the delete so a crash between delete and
+   * add is repaired on the next init(); in-process failures roll back here.
+   * Callers must already hold the write lock.
+   */
+  private async replaceRow(
+    operation: JournalOperation,
+    before: MemoryRecord,
+    after: MemoryRecord,
+    historyId?: string,
+  ): Promise<void> {
+    const beforeRow = this.toRow(before);
+    const entry = this.journal.begin(operation, before.id, beforeRow, this.toRow(after), historyId);
+
+    await this.table.delete(`id = '${escapeSqlLiteral(before.id)}'`);
+    try {
+      await this.table.add([this.toRow(after)]);
+    } catch (err) {
+      // Rollback: restore original record
+      await this.table.add([beforeRow]);
+      this.journal.commit(entry);
+      throw err;
+    }
+    this.journal.commit(entry);
+  }
+
+  /**
+   * Finish or undo row replacements left behind by a crashed process.
+   * Runs under the write lock so entries of a live writer are never touched.
+   */
+  private async recoverJournal(): Promise<RecoveryReport | undefined> {
+    return this.withWriteLock(async () => {
+      const entries = this.journal.pending();
+      if (entries.length === 0) return undefined;
+
+      const records: RecoveredRecord[] = [];
+      for (const entry of entries) {
+        const where = `id = '${escapeSqlLiteral(entry.memoryId)}'`;
+        let action: RecoveredRecord['action'];
+
+        const [live] = await this.table.query().where(where).limit(1).toArray();
+        if (live) {
+          if (this.sameRowVersion(live, entry.after) || !this.sameRowVersion(live, entry.before)) {
+            // The add landed (or a later write replaced the row since)
+            action = 'completed';
+          } else {
+            // The delete never ran, so the change never landed; drop the
+            // history version recorded for it
+            if (entry.historyId) {
+              await this.historyTable.delete(`id = '${escapeSqlLiteral(entry.historyId)}'`);
+            }
+            action = 'rolled-back';
+          }
+        } else {
+          try {
+            await this.table.add([this.journalRow(entry.after)]);
+            action = 'replayed';
+          } catch {
+            try {
+              await this.table.add([this.journalRow(entry.before)]);
+              action = 'rolled-back';
+            } catch {
+              // Keep the entry so the next startup tries again
+              continue;
+            }
+          }
+        }
+
+        this.journal.commit(entry);
+        records.push({
+          memoryId: entry.memoryId,
+          operation: entry.operation,
+          action,
+          journaledAt: entry.createdAt,
+        });
       }
+
+      if (records.length === 0) return undefined;
+      const report: RecoveryReport = { recoveredAt: Date.now(), records };
+      updateMeta(this.dbPath, { lastRecovery: report });
+      return report;
+    });
+  }
+
+  // ─── History ─────────────────────────────────────────────────────────────
+
+  /**
+   * Record a snapshot of `previous` as the next version of that memory.
+   * Returns the ID of the history row. Callers must already hold the write lock.
+   */
+  private async appendHistory(previous: MemoryRecord, change: ChangeContext): Promise<string> {
+    const versions = await this.queryAll(this.historyTable, {
+      where: `\`memoryId\` = '${escapeSqlLiteral(previous.id)}'`,
+      columns: ['version'],
     });
+    const nextVersion = versions.reduce((max, r) => Math.max(max, r.version as number), 0) + 1;
+
+    const row = this.historyRow({
+      memoryId: previous.id,
+      version: nextVersion,
+      operation: change.operation ?? 'update',
+      actor: change.actor,
+      reason: change.reason,
+      createdAt: Date.now(),
+      snapshot: previous,
+    });
+    await this.historyTable.add([row]);
+    return row.id as string;
+  }
+
+  /**
+   * List all recorded versions of a memory, newest first.
+   */
+  async getHistory(id: string): Promise<MemoryVersion[]> {
+    this.ensureInit();
+    assertUuid(id);
+
+    const rows = await this.queryAll(this.historyTable, {
+      where: `\`memoryId\` = '${escapeSqlLiteral(id)}'`,
+    });
+
+    return rows
+      .map(row => this.versionFromRow(row))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getVersion(id: string, version: number): Promise<MemoryVersion | null> {
+    this.ensureInit();
+    assertUuid(id);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid version: ${version}`);
+    }
+
+    const rows = await this.historyTable
+      .query()
+      .where(`\`memoryId\` = '${escapeSqlLiteral(id)}' AND version = ${version}`)
+      .limit(1)
+      .toArray();
+
+    return rows && rows.length > 0 ? this.versionFromRow(rows[0]) : null;
+  }
+
+  // ─── Relations ───────────────────────────────────────────────────────────
+
+  async addRelation(relation: NewRelation): Promise<MemoryRelation> {
+    this.ensureInit();
+    assertUuid(relation.sourceId);
+    assertUuid(relation.targetId);
+    assertRelationType(relation.type);
+
+    const created: MemoryRelation = { ...relation, id: uuidv4(), createdAt: Date.now() };
+    await this.withWriteLock(async () => {
+      await this.relationsTable.add([{ ...created, reason: created.reason ?? '' }]);
+    });
+    return created;
+  }
+
+  async getRelations(memoryIds: string[], query: RelationQuery = {}): Promise<MemoryRelation[]> {
+    this.ensureInit();
+    if (memoryIds.length === 0) return [];
+    for (const id of memoryIds) assertUuid(id);
+
+    const idList = memoryIds.map(id => `'${escapeSqlLiteral(id)}'`).join(', ');
+    const direction = query.direction ?? 'both';
+    const filters = [
+      direction === 'out' ? `\`sourceId\` IN (${idList})`
+        : direction === 'in' ? `\`targetId\` IN (${idList})`
+          : `(${relationsOf(idList)})`,
+    ];
+    if (query.types && query.types.length > 0) {
+      for (const t of query.types) assertRelationType(t);
+      filters.push(`type IN (${query.types.map(t => `'${t}'`).join(', ')})`);
+    }
+
+    const rows = await this.queryAll(this.relationsTable, { where: filters.join(' AND ') });
+    return rows
+      .map(row => this.relationFromRow(row))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async removeRelation(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.withWriteLock(async () => {
+      const where = `id = '${escapeSqlLiteral(id)}'`;
+      if (await this.relationsTable.countRows(where) === 0) return false;
+      await this.relationsTable.delete(where);
+      return true;
+    });
+  }
+
+  // ─── Entities ────────────────────────────────────────────────────────────
+
+  async addEntity(entity: NewEntity): Promise<Entity> {
+    this.ensureInit();
+    assertEntity(entity);
+
+    const now = Date.now();
+    const created: Entity = { ...entity, id: uuidv4(), createdAt: now, updatedAt: now };
+    await this.withWriteLock(async () => {
+      await this.entitiesTable.add([this.entityToRow(created)]);
+    });
+    return created;
+  }
+
+  async updateEntity(id: string, updates: EntityUpdate): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.withWriteLock(async () => {
+      const existing = await this.getEntity(id);
+      if (!existing) return null;
+
+      const updated: Entity = { ...existing, ...updates, updatedAt: Date.now() };
+      assertEntity(updated);
+      // mergeInsert infers its schema from the data, which fails for empty
+      // lists, so the rows are converted against the table schema first
+      const data = this.lance.makeArrowTable([this.entityToRow(updated)], { schema: await this.entitiesTable.schema() });
+      await this.entitiesTable.mergeInsert('id').whenMatchedUpdateAll().execute(data);
+      return updated;
+    });
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const rows = await this.entitiesTable.query().where(`id = '${escapeSqlLiteral(id)}'`).limit(1).toArray();
+    return rows && rows.length > 0 ? this.entityFromRow(rows[0]) : null;
+  }
+
+  async findEntities(names: string[], options: { scope?: MemoryScope | MemoryScope[] } = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const keys = [...new Set(names.map(normalizeEntityName).filter(k => k.length > 0))];
+    if (keys.length === 0) return [];
+
+    const filters = [`array_has_any(\`keys\`, ${sqlStringList(keys)})`];
+    if (options.scope) filters.push(this.scopeClause(options.scope));
+    const rows = await this.queryAll(this.entitiesTable, { where: filters.join(' AND ') });
+    return sortEntities(rows.map(row => this.entityFromRow(row)));
+  }
+
+  async listEntities(options: EntityListOptions = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const filters: string[] = [];
+    if (options.scope) filters.push(this.scopeClause(options.scope));
+    if (options.type) {
+      assertEntityType(options.type);
+      filters.push(`type = '${options.type}'`);
+    }
+    if (options.memoryId) {
+      assertUuid(options.memoryId);
+      filters.push(`array_has(\`memoryIds\`, '${escapeSqlLiteral(options.memoryId)}')`);
+    }
+
+    const rows = await this.queryAll(this.entitiesTable, { where: filters.length > 0 ? filters.join(' AND ') : undefined });
+    return sortEntities(rows.map(row => this.entityFromRow(row)));
+  }
+
+  async deleteEntity(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.withWriteLock(async () => {
+      const where = `id = '${escapeSqlLiteral(id)}'`;
+      if (await this.entitiesTable.countRows(where) === 0) return false;
+      await this.entitiesTable.delete(where);
+      return true;
+    });
+  }
+
+  /**
+   * Remove purged memories from every entity that lists them.
+   * Callers must hold the write lock.
+   */
+  private async detachEntityMemories(memoryIds: string[]): Promise<void> {
+    const rows = await this.queryAll(this.entitiesTable, {
+      where: `array_has_any(\`memoryIds\`, ${sqlStringList(memoryIds)})`,
+    });
+    if (rows.length === 0) return;
+
+    const purged = new Set(memoryIds);
+    const now = Date.now();
+    const updated = rows.map(row => {
+      const entity = this.entityFromRow(row);
+      return this.entityToRow({ ...entity, memoryIds: entity.memoryIds.filter(id => !purged.has(id)), updatedAt: now });
+    });
+    const data = this.lance.makeArrowTable(updated, { schema: await this.entitiesTable.schema() });
+    await this.entitiesTable.mergeInsert('id').whenMatchedUpdateAll().execute(data);
+  }
+
+  private scopeClause(scope: MemoryScope | MemoryScope[]): string {
+    const scopes = Array.isArray(scope) ? scope : [scope];
+    for (const s of scopes) assertScope(s);
+    return `(${scopes.map(s => `scope = '${escapeSqlLiteral(s)}'`).join(' OR ')})`;
   }
 
   // ─── Vector Search ───────────────────────────────────────────────────────
 
   async vectorSearch(
     queryVector: number[],
-    options: {
-      limit: number;
-      scope?: MemoryScope | MemoryScope[];
-      categories?: MemoryCategory[];
-      minScore?: number;
-    }
+    options: SearchFilterOptions & { minScore?: number },
   ): Promise<Array<Memory & { _distance: number }>> {
     this.ensureInit();
 
@@ -265,7 +987,7 @@ export class TinmemDB {
         .limit(options.limit * 3) // over-fetch for filtering
         .distanceType('cosine');
 
-      const filters: string[] = [];
+      const filters: string[] = [notExpiredFilter(Date.now())];
 
       if (options.scope) {
         const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
@@ -280,6 +1002,8 @@ export class TinmemDB {
         filters.push(`(${catFilter})`);
       }
 
+      filters.push(...this.compileFilter(options.filter));
+
       if (filters.length > 0) {
         query = query.where(filters.join(' AND '));
       }
@@ -298,7 +1022,7 @@ export class TinmemDB {
       }))
       .filter(r => {
         const score = 1 - r._distance;
-        return !options.minScore || score >= options.minScore;
+        return (!options.minScore || score >= options.minScore) && matchesFilter(r, options.filter);
       })
       .slice(0, options.limit);
   }
@@ -307,64 +1031,86 @@ export class TinmemDB {
 
   async fullTextSearch(
     query: string,
-    options: {
-      limit: number;
-      scope?: MemoryScope | MemoryScope[];
-      categories?: MemoryCategory[];
-    }
+    options: SearchFilterOptions,
   ): Promise<Array<Memory & { _score: number }>> {
     this.ensureInit();
+    // Validate up front so a bad filter is reported instead of swallowed below
+    if (options.filter) assertFilter(options.filter);
+    // The FTS indexes can't see through encrypted fields
+    if (this.cipher) return [];
 
-    try {
-      const filters: string[] = [];
+    const now = Date.now();
+    const filters: string[] = [notExpiredFilter(now)];
 
-      if (options.scope) {
-        const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
-        for (const s of scopes) assertScope(s);
-        const scopeFilter = scopes.map(s => `scope = '${escapeSqlLiteral(s)}'`).join(' OR ');
-        filters.push(`(${scopeFilter})`);
-      }
+    if (options.scope) {
+      const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
+      for (const s of scopes) assertScope(s);
+      const scopeFilter = scopes.map(s => `scope = '${escapeSqlLiteral(s)}'`).join(' OR ');
+      filters.push(`(${scopeFilter})`);
+    }
 
-      if (options.categories && options.categories.length > 0) {
-        for (const c of options.categories) assertCategory(c);
-        const catFilter = options.categories.map(c => `category = '${escapeSqlLiteral(c)}'`).join(' OR ');
-        filters.push(`(${catFilter})`);
-      }
+    if (options.categories && options.categories.length > 0) {
+      for (const c of options.categories) assertCategory(c);
+      const catFilter = options.categories.map(c => `category = '${escapeSqlLiteral(c)}'`).join(' OR ');
+      filters.push(`(${catFilter})`);
+    }
 
-      let ftsQuery = this.table
-        .query()
-        .fullTextSearch(query, { columns: ['content', 'summary', 'headline', 'tags'] })
-        .limit(options.limit);
+    filters.push(...this.compileFilter(options.filter));
 
-      if (filters.length > 0) {
-        ftsQuery = ftsQuery.where(filters.join(' AND '));
+    const search = (limit: number, where?: string) => {
+      const ftsQuery = this.table.query().fullTextSearch(query, { columns: FTS_COLUMNS }).limit(limit);
+      return (where ? ftsQuery.where(where) : ftsQuery).toArray();
+    };
+
+    let results: Record<string, unknown>[];
+    try {
+      // The structured filter is re-checked below (see vectorSearch), so over-fetch
+      results = await search(isEmptyFilter(options.filter) ? options.limit : options.limit * 3, filters.join(' AND '));
+    } catch {
+      try {
+        // LanceDB 0.14 panics on a filtered full-text search while some rows
+        // aren't covered by the FTS index yet (rows added since it was last
+        // built); search unfiltered and apply the filters here instead
+        results = await search(options.limit * 3);
+      } catch {
+        // FTS not available, return empty
+        return [];
       }
+    }
 
-      const results = await ftsQuery.toArray();
-      if (!results) return [];
-      return results.map(row => ({
+    const scopes = options.scope ? (Array.isArray(options.scope) ? options.scope : [options.scope]) : undefined;
+    return results
+      .map(row => ({
         ...this.fromRow(row),
         _score: (row._relevance_score as number) ?? 0,
-      }));
-    } catch {
-      // FTS not available, return empty
-      return [];
-    }
+      }))
+      .filter(m =>
+        (m.expiresAt === undefined || m.expiresAt > now) &&
+        (!scopes || scopes.includes(m.scope)) &&
+        (!options.categories?.length || options.categories.includes(m.category)) &&
+        matchesFilter(m, options.filter))
+      .slice(0, options.limit);
   }
 
   // ─── List & Filter ───────────────────────────────────────────────────────
 
-  async list(options: {
-    scope?: MemoryScope | MemoryScope[];
-    categories?: MemoryCategory[];
-    limit?: number;
-    offset?: number;
-    orderBy?: 'createdAt' | 'updatedAt' | 'importance' | 'accessCount';
-    orderDir?: 'asc' | 'desc';
-  } = {}): Promise<Memory[]> {
+  /**
+   * List memories in a global, stable order with keyset pagination.
+   *
+   * LanceDB has no ORDER BY, so ordering happens in two passes: fetch only the
+   * (id, order field) keys of every matching row past the cursor, sort them,
+   * then load the full rows for the requested page.
+   */
+  async list(options: ListOptions = {}): Promise<ListResult> {
     this.ensureInit();
 
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDir ?? 'desc';
+    assertOrderField(orderBy);
+    const limit = options.limit ?? 100;
+
     const filters: string[] = [];
+    if (!options.includeExpired) filters.push(notExpiredFilter(Date.now()));
 
     if (options.scope) {
       const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
@@ -379,53 +1125,95 @@ export class TinmemDB {
       filters.push(`(${catFilter})`);
     }
 
-    let query = this.table.query();
+    filters.push(...this.compileFilter(options.filter));
 
-    if (filters.length > 0) {
-      query = query.where(filters.join(' AND '));
+    const after = options.cursor ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+    if (after) {
+      const op = orderDir === 'asc' ? '>' : '<';
+      filters.push(
+        `(\`${orderBy}\` ${op} ${after.value} OR ` +
+        `(\`${orderBy}\` = ${after.value} AND id ${op} '${escapeSqlLiteral(after.id)}'))`,
+      );
     }
 
-    const limit = options.limit ?? 100;
-    query = query.limit(limit + (options.offset ?? 0));
+    // compileFilter()'s metadata clauses can also match nested objects, so
+    // fetch metadata with the keys and check it exactly before paging
+    const exactMetadata = options.filter?.metadata;
+    const keys = await this.queryAll(this.table, {
+      where: filters.length > 0 ? filters.join(' AND ') : undefined,
+      columns: exactMetadata ? ['id', orderBy, 'metadata'] : ['id', orderBy],
+    });
+    const candidates = exactMetadata
+      ? keys.filter(row => matchesMetadata(this.fromRow(row).metadata, exactMetadata))
+      : keys;
 
-    const results = await query.toArray();
-    if (!results) return [];
+    const { page, next } = paginate(
+      candidates,
+      row => ({ value: row[orderBy] as number, id: row.id as string }),
+      { orderDir, limit, offset: options.offset, after },
+    );
+    if (page.length === 0) return { memories: [] };
 
-    let memories = results.map(row => this.fromRow(row));
+    const idList = page.map(r => `'${escapeSqlLiteral(r.id as string)}'`).join(', ');
+    const rows = await this.table.query().where(`id IN (${idList})`).limit(page.length).toArray() ?? [];
+    const byId = new Map(rows.map(row => [row.id as string, this.fromRow(row)]));
 
-    // Sort
-    const orderBy = options.orderBy ?? 'createdAt';
-    const orderDir = options.orderDir ?? 'desc';
-    memories.sort((a, b) => {
-      const av = a[orderBy] as number;
-      const bv = b[orderBy] as number;
-      return orderDir === 'asc' ? av - bv : bv - av;
-    });
+    return {
+      memories: page
+        .map(r => byId.get(r.id as string))
+        .filter((m): m is Memory => m !== undefined),
+      nextCursor: next ? encodeCursor(orderBy, orderDir, next) : undefined,
+    };
+  }
 
-    // Paginate
-    if (options.offset) {
-      memories = memories.slice(options.offset);
+  async countByScope(scope: MemoryScope): Promise<number> {
+    this.ensureInit();
+    assertScope(scope);
+    return this.table.countRows(`scope = '${escapeSqlLiteral(scope)}'`);
+  }
+
+  async listTags(options: TagListOptions = {}): Promise<TagCount[]> {
+    this.ensureInit();
+
+    const filters: string[] = [];
+    if (options.scope) {
+      assertScope(options.scope);
+      filters.push(`scope = '${escapeSqlLiteral(options.scope)}'`);
     }
+    if (options.prefix) filters.push(...compileFilter({ tags: { prefix: [options.prefix] } }));
 
-    return memories.slice(0, limit);
+    // LanceDB can't unnest and group, so only the tags column is read and counted here
+    const rows = await this.queryAll(this.table, {
+      where: filters.length > 0 ? filters.join(' AND ') : undefined,
+      columns: ['tags'],
+    });
+    return countTags(rows.map(row => stringsFromColumn(row.tags)), options.prefix);
   }
 
-  async countByScope(scope: MemoryScope): Promise<number> {
+  async listScopes(): Promise<ScopeSummary[]> {
     this.ensureInit();
-    assertScope(scope);
-    const results = await this.table.query().where(`scope = '${escapeSqlLiteral(scope)}'`).toArray();
-    return results?.length ?? 0;
+    const rows = await this.queryAll(this.table, {
+      columns: ['scope', 'importance', 'updatedAt', 'lastAccessedAt'],
+    });
+    return summarizeScopes(rows.map(row => ({
+      scope: row.scope as MemoryScope,
+      importance: row.importance as number,
+      updatedAt: row.updatedAt as number,
+      lastAccessedAt: row.lastAccessedAt as number,
+    })));
   }
 
   // ─── Statistics ──────────────────────────────────────────────────────────
 
   async getStats(): Promise<MemoryStats> {
     this.ensureInit();
+    const meta = readMeta(this.dbPath);
 
     // Only select lightweight columns — avoid loading vector data into memory
-    const rows = await this.table.query()
-      .select(['category', 'scope', 'importance', 'createdAt'])
-      .toArray() ?? [];
+    const rows = await this.queryAll(this.table, {
+      columns: ['category', 'scope', 'importance', 'createdAt'],
+      withRowId: true,
+    });
 
     const byCategory = {
       profile: 0, preferences: 0, entities: 0,
@@ -436,8 +1224,11 @@ export class TinmemDB {
     let totalImportance = 0;
     let oldest = Infinity;
     let newest = 0;
+    // Row IDs are (fragment id << 32 | offset), so distinct high words = live fragments
+    const fragments = new Set<bigint>();
 
     for (const row of rows) {
+      fragments.add(BigInt(row._rowid as bigint) >> 32n);
       const cat = row.category as MemoryCategory;
       byCategory[cat] = (byCategory[cat] ?? 0) + 1;
       const scope = row.scope as string;
@@ -455,14 +1246,229 @@ export class TinmemDB {
       oldestMemory: rows.length > 0 ? oldest : undefined,
       newestMemory: rows.length > 0 ? newest : undefined,
       avgImportance: rows.length > 0 ? totalImportance / rows.length : 0,
+      dbSizeBytes: directorySize(this.dbPath),
+      fragmentCount: fragments.size,
+      indexes: await this.listIndexes(),
+      lastMaintenanceAt: meta.lastMaintenanceAt,
+      lastRecovery: meta.lastRecovery,
     };
   }
 
+  private async listIndexes(): Promise<IndexInfo[]> {
+    const indexes: IndexInfo[] = [];
+    for (const index of await this.table.listIndices()) {
+      const stats = await this.table.indexStats(index.name);
+      indexes.push({
+        name: index.name,
+        type: stats?.indexType ?? index.indexType,
+        columns: index.columns,
+        indexedRows: stats?.numIndexedRows ?? 0,
+        unindexedRows: stats?.numUnindexedRows ?? 0,
+      });
+    }
+    return indexes;
+  }
+
+  // ─── Maintenance ─────────────────────────────────────────────────────────
+
+  /**
+   * Every update() and incrementAccessCount() writes a new fragment and a
+   * deletion file, so reads slow down and old versions pile up until the
+   * tables are optimized. This compacts and prunes every table (memories,
+   * trash, history, relations and entities), keeps the ANN vector index in
+   * step with table size, and rebuilds the FTS indexes.
+   */
+  async maintain(options: MaintenanceOptions): Promise<MaintenanceReport> {
+    this.ensureInit();
+    const startedAt = Date.now();
+
+    return this.withWriteLock(async () => {
+      const meta = readMeta(this.dbPath);
+      const sizeBeforeBytes = directorySize(this.dbPath);
+      const report: MaintenanceReport = {
+        compaction: { fragmentsRemoved: 0, fragmentsAdded: 0, filesRemoved: 0, filesAdded: 0 },
+        prune: { versionsRemoved: 0, bytesRemoved: 0 },
+        vectorIndex: 'none',
+        ftsIndexesRebuilt: [],
+        sizeBeforeBytes,
+        sizeAfterBytes: sizeBeforeBytes,
+        durationMs: 0,
+      };
+
+      const defaultCutoff = startedAt - options.pruneOlderThanDays * 86400 * 1000;
+      for (const [name, table] of Object.entries(this.snapshotTables())) {
+        // LanceDB turns cleanupOlderThan into an age relative to when pruning
+        // starts, so a slow compaction would shift the cutoff past snapshot
+        // versions. Compact (and fold new rows into existing indexes) first
+        // without pruning, then prune in a second, near-instant pass.
+        const compacted = await table.optimize({ cleanupOlderThan: new Date(0) });
+        const cutoff = await this.pruneCutoff(name, table, meta.snapshots ?? [], defaultCutoff);
+        const pruned = await table.optimize({ cleanupOlderThan: new Date(cutoff) });
+
+        for (const stats of [compacted, pruned]) {
+          report.compaction.fragmentsRemoved += stats.compaction.fragmentsRemoved;
+          report.compaction.fragmentsAdded += stats.compaction.fragmentsAdded;
+          report.compaction.filesRemoved += stats.compaction.filesRemoved;
+          report.compaction.filesAdded += stats.compaction.filesAdded;
+          report.prune.versionsRemoved += stats.prune.oldVersionsRemoved;
+          report.prune.bytesRemoved += stats.prune.bytesRemoved;
+        }
+      }
+
+      const rowCount = await this.table.countRows();
+      const hasVectorIndex = (await this.table.listIndices()).some(i => i.columns.includes('vector'));
+      const trainedRows = meta.vectorIndexTrainedRows ?? 0;
+
+      if (rowCount >= options.vectorIndexThreshold || (hasVectorIndex && options.reindex)) {
+        // IVF partitions are trained on the data present at build time; retrain
+        // once the table has doubled so they keep reflecting the distribution
+        if (!hasVectorIndex || options.reindex || rowCount >= trainedRows * 2) {
+          await this.table.createIndex('vector', {
+            config: this.lance.Index.ivfPq({ distanceType: 'cosine' }),
+            replace: true,
+          });
+          report.vectorIndex = hasVectorIndex ? 'rebuilt' : 'created';
+          updateMeta(this.dbPath, { vectorIndexTrainedRows: rowCount });
+        } else {
+          report.vectorIndex = 'updated';
+        }
+      } else if (hasVectorIndex) {
+        report.vectorIndex = 'updated';
+      }
+
+      if (rowCount > 0 && !this.cipher) {
+        for (const col of FTS_COLUMNS) {
+          await this.table.createIndex(col, { config: this.lance.Index.fts(), replace: true });
+          report.ftsIndexesRebuilt.push(col);
+        }
+        this.ftsReady = true;
+      }
+
+      updateMeta(this.dbPath, { lastMaintenanceAt: startedAt });
+      report.sizeAfterBytes = directorySize(this.dbPath);
+      report.durationMs = Date.now() - startedAt;
+      return report;
+    });
+  }
+
+  /**
+   * Prune cutoff for one table: the requested age, moved back so that no
+   * version referenced by a snapshot is removed. The margin absorbs the
+   * time between computing the cutoff and LanceDB applying it.
+   */
+  private async pruneCutoff(
+    tableName: string,
+    table: lancedb.Table,
+    snapshots: Snapshot[],
+    defaultCutoff: number,
+  ): Promise<number> {
+    const pinned = new Set(snapshots.map(s => s.tableVersions[tableName]).filter(v => v !== undefined));
+    if (pinned.size === 0) return defaultCutoff;
+
+    let cutoff = defaultCutoff;
+    for (const version of await table.listVersions()) {
+      if (pinned.has(version.version)) {
+        cutoff = Math.min(cutoff, version.timestamp.getTime() - PRUNE_MARGIN_MS);
+      }
+    }
+    return cutoff;
+  }
+
+  // ─── Encryption ──────────────────────────────────────────────────────────
+
+  /**
+   * Rewrite every memory, trashed memory and history snapshot with `target`
+   * (undefined writes plaintext). Existing values are read with the store's
+   * current cipher, so it must know every key still in use.
+   *
+   * LanceDB keeps superseded table versions, and the old FTS index files
+   * hold the plaintext tokens, so unless `keepVersions` is set every older
+   * version is pruned afterwards. Snapshots point at those versions and are
+   * dropped with them.
+   */
+  async reencrypt(target: FieldCipher | undefined, options: { keepVersions?: boolean } = {}): Promise<ReencryptReport> {
+    this.ensureInit();
+    const startedAt = Date.now();
+
+    return this.withWriteLock(async () => {
+      const memories = await this.rewriteRows(this.table, row =>
+        this.toRow({ ...this.fromRow(row), vector: this.vectorFromRow(row) }, { cipher: target }));
+      const trash = await this.rewriteRows(this.trashTable, row => ({
+        ...this.toRow({ ...this.fromRow(row), vector: this.vectorFromRow(row) }, { cipher: target }),
+        deletedAt: row.deletedAt,
+        deletedBy: row.deletedBy,
+        deleteReason: row.deleteReason,
+      }));
+      const history = await this.rewriteRows(this.historyTable, row => ({
+        id: row.id,
+        memoryId: row.memoryId,
+        version: row.version,
+        operation: row.operation,
+        actor: row.actor,
+        reason: row.reason,
+        createdAt: row.createdAt,
+        snapshot: this.sealField('snapshot', this.openField('snapshot', row.snapshot), target),
+        vector: this.vectorFromRow(row),
+      }));
+      this.cipher = target;
+
+      // Replacing the indexes drops the old index files' tokens with the old versions
+      const hasFtsIndex = (await this.table.listIndices()).some(i => FTS_COLUMNS.includes(i.columns[0] ?? ''));
+      this.ftsReady = false;
+      if (memories > 0 && (!target || hasFtsIndex)) {
+        for (const col of FTS_COLUMNS) {
+          await this.table.createIndex(col, { config: this.lance.Index.fts(), replace: true });
+        }
+        this.ftsReady = true;
+      }
+
+      let versionsPruned = 0;
+      let snapshotsDropped = 0;
+      if (!options.keepVersions) {
+        for (const table of Object.values(this.snapshotTables())) {
+          const stats = await table.optimize({ cleanupOlderThan: new Date() });
+          versionsPruned += stats.prune.oldVersionsRemoved;
+        }
+        snapshotsDropped = readMeta(this.dbPath).snapshots?.length ?? 0;
+        updateMeta(this.dbPath, { snapshots: [] });
+      }
+
+      return {
+        keyId: target?.keyId,
+        memories,
+        trash,
+        history,
+        versionsPruned,
+        snapshotsDropped,
+        durationMs: Date.now() - startedAt,
+      };
+    });
+  }
+
+  /**
+   * Replace every row of `table` with `rewrite(row)`, matched on id, in
+   * batches. Callers must hold the write lock.
+   */
+  private async rewriteRows(
+    table: lancedb.Table,
+    rewrite: (row: Record<string, unknown>) => Record<string, unknown>,
+  ): Promise<number> {
+    const rows = await this.queryAll(table);
+    const schema = await table.schema();
+    for (let i = 0; i < rows.length; i += REENCRYPT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + REENCRYPT_BATCH_SIZE).map(rewrite);
+      const data = this.lance.makeArrowTable(batch, { schema });
+      await table.mergeInsert('id').whenMatchedUpdateAll().execute(data);
+    }
+    return rows.length;
+  }
+
   // ─── Bulk Operations ─────────────────────────────────────────────────────
 
   async bulkInsert(records: MemoryRecord[]): Promise<void> {
     this.ensureInit();
     if (records.length === 0) return;
+    for (const r of records) this.assertVector(r.vector);
 
     await this.withWriteLock(async () => {
       await this.table.add(records.map(r => this.toRow(r)));
@@ -472,18 +1478,79 @@ export class TinmemDB {
 
   async getAllForExport(scope?: MemoryScope): Promise<Memory[]> {
     this.ensureInit();
-    const options = scope ? { scope } : {};
-    return this.list({ ...options, limit: 100000 });
+
+    const all: Memory[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.list({ scope, cursor, limit: 1000, includeExpired: true });
+      all.push(...page.memories);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return all;
+  }
+
+  async *exportRecords(options: { batchSize?: number } = {}): AsyncIterable<MemoryRecord[]> {
+    this.ensureInit();
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.list({ cursor, limit: options.batchSize ?? 500, includeExpired: true });
+      if (page.memories.length > 0) {
+        const idList = page.memories.map(m => `'${escapeSqlLiteral(m.id)}'`).join(', ');
+        const rows = await this.table.query().where(`id IN (${idList})`).limit(page.memories.length).toArray() ?? [];
+        yield rows.map(row => ({ ...this.fromRow(row), vector: this.vectorFromRow(row) }));
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  async exportArchive(): Promise<StoreArchive> {
+    this.ensureInit();
+
+    const [trash, history, relations, entities] = await Promise.all([
+      this.queryAll(this.trashTable),
+      this.queryAll(this.historyTable),
+      this.queryAll(this.relationsTable),
+      this.queryAll(this.entitiesTable),
+    ]);
+    return {
+      trash: trash.map(row => ({ ...this.trashFromRow(row), vector: this.vectorFromRow(row) })),
+      history: history.map(row => this.versionFromRow(row)),
+      relations: relations.map(row => this.relationFromRow(row)),
+      entities: entities.map(row => this.entityFromRow(row)),
+    };
+  }
+
+  async importArchive(archive: StoreArchive): Promise<void> {
+    this.ensureInit();
+    for (const m of archive.trash) this.assertVector(m.vector);
+
+    await this.withWriteLock(async () => {
+      if (archive.trash.length > 0) {
+        await this.trashTable.add(archive.trash.map(m => ({
+          ...this.toRow(m),
+          deletedAt: m.deletedAt,
+          deletedBy: m.deletedBy,
+          deleteReason: m.deleteReason ?? '',
+        })));
+      }
+      if (archive.history.length > 0) await this.historyTable.add(archive.history.map(v => this.historyRow(v)));
+      if (archive.relations.length > 0) {
+        await this.relationsTable.add(archive.relations.map(r => ({ ...r, reason: r.reason ?? '' })));
+      }
+      if (archive.entities.length > 0) await this.entitiesTable.add(archive.entities.map(e => this.entityToRow(e)));
+    });
   }
 
   // ─── Serialization ───────────────────────────────────────────────────────
 
-  private toRow(m: MemoryRecord): Record<string, unknown> {
+  private toRow(m: MemoryRecord, { cipher }: { cipher?: FieldCipher } = { cipher: this.cipher }): Record<string, unknown> {
     return {
       id: m.id,
-      headline: m.headline,
-      summary: m.summary,
-      content: m.content,
+      headline: this.sealField('headline', m.headline, cipher),
+      summary: this.sealField('summary', m.summary, cipher),
+      content: this.sealField('content', m.content, cipher),
       category: m.category,
       scope: m.scope,
       importance: m.importance,
@@ -491,24 +1558,40 @@ export class TinmemDB {
       updatedAt: m.updatedAt,
       accessCount: m.accessCount,
       lastAccessedAt: m.lastAccessedAt,
-      tags: JSON.stringify(m.tags),
-      metadata: JSON.stringify(m.metadata),
+      tags: m.tags,
+      metadata: this.sealField('metadata', JSON.stringify(m.metadata), cipher),
+      expiresAt: m.expiresAt ?? 0,
       vector: m.vector,
     };
   }
 
+  /** Whether a live row is the state journaled in `journaled` (compared by write timestamps and access count) */
+  private sameRowVersion(row: Record<string, unknown>, journaled: Record<string, unknown>): boolean {
+    const a = this.fromRow(row);
+    const b = this.fromRow(journaled);
+    return a.updatedAt === b.updatedAt && a.accessCount === b.accessCount && a.lastAccessedAt === b.lastAccessedAt;
+  }
+
+  /**
+   * Re-serialize a journaled row, which may predate the current row layout
+   * (e.g. tags journaled as a JSON string before the list-column migration).
+   */
+  private journalRow(row: Record<string, unknown>): Record<string, unknown> {
+    return this.toRow({ ...this.fromRow(row), vector: this.vectorFromRow(row) });
+  }
+
   private fromRow(row: Record<string, unknown>): Memory {
-    let tags: string[] = [];
+    const tags = stringsFromColumn(row.tags);
+    const metadataJson = this.openField('metadata', row.metadata);
     let metadata: Record<string, unknown> = {};
 
-    try { tags = JSON.parse(row.tags as string) as string[]; } catch { tags = []; }
-    try { metadata = JSON.parse(row.metadata as string) as Record<string, unknown>; } catch { metadata = {}; }
+    try { metadata = JSON.parse(metadataJson) as Record<string, unknown>; } catch { metadata = {}; }
 
     return {
       id: row.id as string,
-      headline: row.headline as string,
-      summary: row.summary as string,
-      content: row.content as string,
+      headline: this.openField('headline', row.headline),
+      summary: this.openField('summary', row.summary),
+      content: this.openField('content', row.content),
       category: row.category as MemoryCategory,
       scope: row.scope as MemoryScope,
       importance: row.importance as number,
@@ -518,6 +1601,130 @@ export class TinmemDB {
       lastAccessedAt: row.lastAccessedAt as number,
       tags,
       metadata,
+      expiresAt: (row.expiresAt as number) > 0 ? row.expiresAt as number : undefined,
+    };
+  }
+
+  /** Encrypt a text field when a cipher is given */
+  private sealField(field: string, value: string, cipher: FieldCipher | undefined): string {
+    return cipher ? cipher.encrypt(field, value) : value;
+  }
+
+  /**
+   * Decrypt a text field. Plaintext passes through, so rows written before
+   * encryption was enabled stay readable. Columns missing from a partial
+   * select come back as undefined.
+   */
+  private openField(field: string, value: unknown): string {
+    if (typeof value !== 'string') return value as string;
+    if (this.cipher) return this.cipher.decrypt(field, value);
+    if (isEncrypted(value)) {
+      throw new Error(`The store holds encrypted ${field} values: enable encryption and provide the key to read them`);
+    }
+    return value;
+  }
+
+  /**
+   * WHERE clauses for a structured filter. Metadata is opaque once
+   * encrypted, so its clauses are left to matchesFilter() on the results.
+   */
+  private compileFilter(filter: MemoryFilter | undefined): string[] {
+    if (filter && this.cipher) assertFilter(filter);
+    return compileFilter(filter && this.cipher ? { ...filter, metadata: undefined } : filter);
+  }
+
+  private trashFromRow(row: Record<string, unknown>): TrashedMemory {
+    return {
+      ...this.fromRow(row),
+      deletedAt: row.deletedAt as number,
+      deletedBy: row.deletedBy as TrashedMemory['deletedBy'],
+      deleteReason: (row.deleteReason as string) || undefined,
+    };
+  }
+
+  private relationFromRow(row: Record<string, unknown>): MemoryRelation {
+    return {
+      id: row.id as string,
+      sourceId: row.sourceId as string,
+      targetId: row.targetId as string,
+      type: row.type as RelationType,
+      createdAt: row.createdAt as number,
+      actor: row.actor as MemoryActor,
+      reason: (row.reason as string) || undefined,
+    };
+  }
+
+  private entityToRow(e: Entity): Record<string, unknown> {
+    return {
+      id: e.id,
+      name: e.name,
+      type: e.type,
+      aliases: e.aliases,
+      keys: entityKeys(e),
+      attributes: JSON.stringify(e.attributes),
+      scope: e.scope,
+      memoryIds: e.memoryIds,
+      createdAt: e.createdAt,
+      updatedAt: e.updatedAt,
+    };
+  }
+
+  private entityFromRow(row: Record<string, unknown>): Entity {
+    let attributes: Record<string, unknown> = {};
+    try { attributes = JSON.parse(row.attributes as string) as Record<string, unknown>; } catch { attributes = {}; }
+
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      type: row.type as EntityType,
+      aliases: stringsFromColumn(row.aliases),
+      attributes,
+      scope: row.scope as MemoryScope,
+      memoryIds: stringsFromColumn(row.memoryIds),
+      createdAt: row.createdAt as number,
+      updatedAt: row.updatedAt as number,
+    };
+  }
+
+  private vectorFromRow(row: Record<string, unknown>): number[] {
+    const v = row.vector as ArrayLike<number> | undefined;
+    return v ? Array.from(v) : [];
+  }
+
+  /** History rows always carry a vector column; snapshots without one store zeros */
+  private historyRow(v: MemoryVersion): Record<string, unknown> {
+    const { vector, ...snapshot } = v.snapshot;
+    return {
+      id: uuidv4(),
+      memoryId: v.memoryId,
+      version: v.version,
+      operation: v.operation,
+      actor: v.actor,
+      reason: v.reason ?? '',
+      createdAt: v.createdAt,
+      snapshot: this.sealField('snapshot', JSON.stringify(snapshot), this.cipher),
+      vector: vector && vector.length === this.dimensions
+        ? vector
+        : Array.from({ length: this.dimensions }, () => 0),
+    };
+  }
+
+  private versionFromRow(row: Record<string, unknown>): MemoryVersion {
+    const snapshotJson = this.openField('snapshot', row.snapshot);
+    let snapshot = {} as Memory;
+    try { snapshot = JSON.parse(snapshotJson) as Memory; } catch { /* keep empty */ }
+
+    const vector = this.vectorFromRow(row);
+    if (vector.some(x => x !== 0)) snapshot.vector = vector;
+
+    return {
+      memoryId: row.memoryId as string,
+      version: row.version as number,
+      operation: row.operation as MemoryVersion['operation'],
+      actor: row.actor as MemoryVersion['actor'],
+      reason: (row.reason as string) || undefined,
+      createdAt: row.createdAt as number,
+      snapshot,
     };
   }
 
@@ -531,10 +1738,21 @@ export class TinmemDB {
 
 const instances = new Map<string, TinmemDB>();
 
-export async function getDB(dbPath: string, dimensions: number): Promise<TinmemDB> {
-  const key = `${dbPath}:${dimensions}`;
+/**
+ * A shared, initialized TinmemDB. Instances are keyed by everything that
+ * changes how the store reads and writes, so a caller with another cipher,
+ * migration or lock setting never gets one opened for someone else.
+ */
+export async function getDB(dbPath: string, dimensions: number, options: TinmemDBOptions = {}): Promise<TinmemDB> {
+  const key = JSON.stringify([
+    dbPath,
+    dimensions,
+    options.cipher?.keyId ?? null,
+    options.autoMigrate ?? true,
+    options.lock ?? {},
+  ]);
   if (!instances.has(key)) {
-    const db = new TinmemDB(dbPath, dimensions);
+    const db = new TinmemDB(dbPath, dimensions, options);
     await db.init();
     instances.set(key, db);
   }
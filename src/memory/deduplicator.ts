@@ -7,16 +7,16 @@ import type { LLMService } from '../llm.js';
 import { safeJsonParse } from '../llm.js';
 import type { Memory, ExtractedMemory, DedupResult } from '../types.js';
 import { DEDUP_SYSTEM_PROMPT, buildDedupPrompt } from '../prompts.js';
-import type { TinmemDB } from './db.js';
+import type { MemoryStore } from './store.js';
 import type { EmbeddingService } from '../embeddings.js';
 import type { TinmemConfig } from '../config.js';
 
-// Append-only categories always CREATE
-const APPEND_ONLY_CATEGORIES = new Set(['events', 'cases']);
+/** Categories that are never skipped or merged, only ever created or moved */
+export const APPEND_ONLY_CATEGORIES: ReadonlySet<string> = new Set(['events', 'cases']);
 
 export class MemoryDeduplicator {
   constructor(
-    private db: TinmemDB,
+    private db: MemoryStore,
     _embedding: EmbeddingService,
     private llm: LLMService,
     private config: TinmemConfig,
@@ -24,6 +24,8 @@ export class MemoryDeduplicator {
 
   /**
    * Run deduplication for a new memory candidate.
+   * `candidateVector` is the candidate's document embedding, the vector it
+   * would be stored with, so it compares like-for-like with stored memories.
    * Returns a DedupResult indicating what action to take.
    */
   async deduplicate(
@@ -130,6 +132,7 @@ export class MemoryDeduplicator {
         mergedSummary?: string;
         mergedContent?: string;
         mergedTags?: string[];
+        supersedesId?: string;
         reason?: string;
       }>(response, {});
 
@@ -145,6 +148,10 @@ export class MemoryDeduplicator {
         mergedSummary: result.mergedSummary,
         mergedContent: result.mergedContent,
         mergedTags: result.mergedTags,
+        // Only trust IDs that were actually offered as candidates
+        supersedesId: decision === 'CREATE' && similar.some(m => m.id === result.supersedesId)
+          ? result.supersedesId
+          : undefined,
         reason: result.reason,
       };
     } catch (err) {
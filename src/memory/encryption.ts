@@ -0,0 +1,139 @@
+/**
+ * openclaw-tinmem - Field encryption
+ * AES-256-GCM encryption of individual text fields, with key loading and
+ * key IDs so a store can be read while its key is being rotated
+ *
+ * An encrypted value is stored as `enc:v1:<keyId>:<base64(iv | tag | ciphertext)>`.
+ * The field name is bound in as associated data, so a ciphertext copied
+ * into another column fails authentication.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface EncryptionKeySource {
+  /** Environment variable holding the key */
+  keyEnv?: string;
+  /** File holding the key (used when the variable is unset) */
+  keyFile?: string;
+}
+
+/**
+ * Short, stable identifier of a key: the first 8 hex characters of its SHA-256.
+ */
+export function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Parse a 256-bit key given as 64 hex characters or as base64.
+ */
+export function parseKey(text: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error('Invalid encryption key: expected 32 bytes as 64 hex characters or base64');
+  }
+  return key;
+}
+
+/**
+ * Read a key from the environment variable, falling back to the key file.
+ * Returns undefined when neither is set.
+ */
+export function loadKey(source: EncryptionKeySource): Buffer | undefined {
+  const fromEnv = source.keyEnv ? process.env[source.keyEnv] : undefined;
+  if (fromEnv) return parseKey(fromEnv);
+
+  if (source.keyFile) {
+    if (!existsSync(source.keyFile)) throw new Error(`Encryption key file not found: ${source.keyFile}`);
+    return parseKey(readFileSync(source.keyFile, 'utf-8'));
+  }
+  return undefined;
+}
+
+/** A fresh random key, hex-encoded */
+export function generateKey(): string {
+  return randomBytes(KEY_BYTES).toString('hex');
+}
+
+/**
+ * Encrypts with one key and decrypts with it or any of `previousKeys`.
+ * Values without the `enc:v1:` prefix pass through decrypt() unchanged, so
+ * a store written before encryption was enabled stays readable.
+ */
+export class FieldCipher {
+  private readonly primaryId: string;
+  private readonly keys = new Map<string, Buffer>();
+
+  constructor(private readonly key: Buffer, previousKeys: Buffer[] = []) {
+    if (key.length !== KEY_BYTES) throw new Error('Encryption key must be 32 bytes');
+    this.primaryId = keyId(key);
+    for (const k of previousKeys) this.keys.set(keyId(k), k);
+    this.keys.set(this.primaryId, key);
+  }
+
+  /** ID of the key new values are encrypted with */
+  get keyId(): string {
+    return this.primaryId;
+  }
+
+  encrypt(field: string, plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    cipher.setAAD(Buffer.from(field, 'utf-8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+    return `${PREFIX}${this.primaryId}:${payload}`;
+  }
+
+  /**
+   * Decrypt a value of `field`. Throws when the key is unknown or the value
+   * fails authentication (tampered, truncated or moved from another field).
+   */
+  decrypt(field: string, value: string): string {
+    if (!isEncrypted(value)) return value;
+
+    const rest = value.slice(PREFIX.length);
+    const sep = rest.indexOf(':');
+    const id = sep > 0 ? rest.slice(0, sep) : '';
+    const key = this.keys.get(id);
+    if (!key) throw new Error(`Cannot decrypt ${field}: encrypted with unknown key ${id || '(missing)'}`);
+
+    const payload = Buffer.from(rest.slice(sep + 1), 'base64');
+    if (payload.length < IV_BYTES + TAG_BYTES) throw new Error(`Cannot decrypt ${field}: value is truncated`);
+
+    const decipher = createDecipheriv(ALGORITHM, key, payload.subarray(0, IV_BYTES));
+    decipher.setAAD(Buffer.from(field, 'utf-8'));
+    decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    try {
+      return Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error(`Cannot decrypt ${field}: authentication failed`);
+    }
+  }
+}
+
+/**
+ * Cipher for the configured key. Throws when no key can be found.
+ */
+export function createFieldCipher(source: EncryptionKeySource, previousKeys: Buffer[] = []): FieldCipher {
+  const key = loadKey(source);
+  if (!key) {
+    const where = [source.keyEnv && `$${source.keyEnv}`, source.keyFile].filter(Boolean).join(' or ');
+    throw new Error(`No encryption key found (looked in ${where || 'nothing'})`);
+  }
+  return new FieldCipher(key, previousKeys);
+}
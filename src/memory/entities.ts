@@ -0,0 +1,108 @@
+/**
+ * openclaw-tinmem - Entity helpers
+ * Name normalization, alias bookkeeping and query matching for the entity
+ * registry, shared by every storage backend and the manager
+ */
+
+import type { Entity, EntityMention } from '../types.js';
+import { assertEntityType, assertScope, assertUuid } from './sql-safety.js';
+
+/** Longest alias (in words) looked for in a query */
+const MAX_QUERY_KEY_WORDS = 4;
+
+/**
+ * Lookup key for an entity name: case-folded, with punctuation and runs of
+ * whitespace collapsed to single spaces ("Task-Flow!" → "task flow").
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Reject an entity that can't be stored: a name with no letters or digits,
+ * an unknown type or scope, or a malformed memory ID.
+ */
+export function assertEntity(entity: Pick<Entity, 'name' | 'type' | 'scope' | 'memoryIds'>): void {
+  if (!normalizeEntityName(entity.name)) throw new Error(`Invalid entity name: "${entity.name}"`);
+  assertEntityType(entity.type);
+  assertScope(entity.scope);
+  for (const id of entity.memoryIds) assertUuid(id);
+}
+
+/**
+ * Distinct lookup keys for an entity's name and aliases.
+ */
+export function entityKeys(entity: Pick<Entity, 'name' | 'aliases'>): string[] {
+  const keys = [entity.name, ...entity.aliases].map(normalizeEntityName).filter(k => k.length > 0);
+  return [...new Set(keys)];
+}
+
+/**
+ * Aliases after adding `names`, skipping any that already match the
+ * entity's name or an existing alias.
+ */
+export function withAliases(entity: Pick<Entity, 'name' | 'aliases'>, names: string[]): string[] {
+  const known = new Set(entityKeys(entity));
+  const aliases = [...entity.aliases];
+  for (const name of names) {
+    const key = normalizeEntityName(name);
+    if (!key || known.has(key)) continue;
+    known.add(key);
+    aliases.push(name.trim());
+  }
+  return aliases;
+}
+
+/** Names an extracted mention can be matched by */
+export function mentionNames(mention: EntityMention): string[] {
+  return [mention.name, ...(mention.aliases ?? [])];
+}
+
+/**
+ * Every run of up to four words in a query, as lookup keys. An entity is
+ * mentioned when one of these equals one of its keys.
+ */
+export function queryEntityKeys(query: string): string[] {
+  const words = normalizeEntityName(query).split(' ').filter(w => w.length > 0);
+  const keys = new Set<string>();
+  for (let start = 0; start < words.length; start++) {
+    for (let n = 1; n <= MAX_QUERY_KEY_WORDS && start + n <= words.length; n++) {
+      keys.add(words.slice(start, start + n).join(' '));
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Fold `sources` into `target`: their names and aliases become aliases,
+ * memory links are combined, and the target's attributes win on conflict.
+ */
+export function mergeEntityFields(
+  target: Entity,
+  sources: Entity[],
+): Pick<Entity, 'aliases' | 'attributes' | 'memoryIds'> {
+  let aliases = target.aliases;
+  const attributes = { ...target.attributes };
+  const memoryIds = [...target.memoryIds];
+
+  for (const source of sources) {
+    aliases = withAliases({ name: target.name, aliases }, [source.name, ...source.aliases]);
+    for (const [key, value] of Object.entries(source.attributes)) {
+      if (!(key in attributes)) attributes[key] = value;
+    }
+    for (const id of source.memoryIds) {
+      if (!memoryIds.includes(id)) memoryIds.push(id);
+    }
+  }
+
+  return { aliases, attributes, memoryIds };
+}
+
+/** Registry order: by name, case-insensitively */
+export function sortEntities(entities: Entity[]): Entity[] {
+  return entities.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()) || a.id.localeCompare(b.id));
+}
@@ -5,7 +5,7 @@
 
 import type { LLMService } from '../llm.js';
 import { safeJsonParse } from '../llm.js';
-import type { ExtractedMemory } from '../types.js';
+import type { EntityMention, EntityType, ExtractedMemory } from '../types.js';
 import {
   EXTRACTION_SYSTEM_PROMPT,
   buildExtractionPrompt,
@@ -178,9 +178,33 @@ ${text}`;
         metadata: typeof m.metadata === 'object' && m.metadata !== null
           ? m.metadata as Record<string, unknown>
           : {},
+        expiresInDays: typeof m.expiresInDays === 'number' && Number.isFinite(m.expiresInDays) && m.expiresInDays > 0
+          ? m.expiresInDays
+          : undefined,
+        entities: Array.isArray(m.entities) ? this.validateEntities(m.entities) : undefined,
       });
     }
 
     return results;
   }
+
+  private validateEntities(raw: unknown[]): EntityMention[] {
+    const VALID_TYPES = new Set(['person', 'project', 'organization', 'tool', 'place', 'other']);
+
+    const mentions: EntityMention[] = [];
+    for (const item of raw) {
+      if (!item || typeof item !== 'object') continue;
+      const e = item as Record<string, unknown>;
+      if (typeof e.name !== 'string' || !e.name.trim()) continue;
+
+      mentions.push({
+        name: e.name.trim(),
+        type: typeof e.type === 'string' && VALID_TYPES.has(e.type) ? e.type as EntityType : undefined,
+        aliases: Array.isArray(e.aliases)
+          ? (e.aliases as unknown[]).filter((a): a is string => typeof a === 'string' && a.trim().length > 0).map(a => a.trim())
+          : [],
+      });
+    }
+    return mentions;
+  }
 }
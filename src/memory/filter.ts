@@ -0,0 +1,218 @@
+/**
+ * openclaw-tinmem - Structured memory filters
+ * Validation, LanceDB WHERE compilation and in-process matching for MemoryFilter
+ *
+ * Tags are a native list column matched with array functions. Metadata is a
+ * JSON string, so it is matched with strpos() on the JSON encoding of the
+ * wanted pair. Every value goes through the sql-safety validators before it
+ * is interpolated.
+ */
+
+import type { Memory, MemoryFilter, MemoryFilterInput, MetadataValue, TimeRange } from '../types.js';
+import { assertTag, assertMetadataKey, assertFiniteNumber, escapeSqlLiteral } from './sql-safety.js';
+
+const TIME_FIELDS = ['createdAt', 'updatedAt', 'lastAccessedAt'] as const;
+
+/** Joins tags for prefix matching; assertTag() keeps control characters out of filters */
+const TAG_SEPARATOR = '\u001f';
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 3600 * 1000,
+  d: 86400 * 1000,
+  w: 7 * 86400 * 1000,
+};
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+function assertMetadataValue(key: string, value: unknown): asserts value is MetadataValue {
+  const ok = typeof value === 'string'
+    || typeof value === 'boolean'
+    || (typeof value === 'number' && Number.isFinite(value));
+  if (!ok) {
+    throw new Error(`Invalid metadata filter value for "${key}": must be a string, finite number or boolean`);
+  }
+}
+
+/**
+ * Reject filters that can't be compiled safely. Throws on the first problem.
+ */
+export function assertFilter(filter: MemoryFilter): void {
+  const tags = [...(filter.tags?.any ?? []), ...(filter.tags?.all ?? []), ...(filter.tags?.prefix ?? [])];
+  for (const tag of tags) assertTag(tag);
+
+  if (filter.importance?.min !== undefined) assertFiniteNumber(filter.importance.min, 'importance.min');
+  if (filter.importance?.max !== undefined) assertFiniteNumber(filter.importance.max, 'importance.max');
+
+  for (const field of TIME_FIELDS) {
+    const range = filter[field];
+    if (range?.from !== undefined) assertFiniteNumber(range.from, `${field}.from`);
+    if (range?.to !== undefined) assertFiniteNumber(range.to, `${field}.to`);
+  }
+
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    assertMetadataKey(key);
+    assertMetadataValue(key, value);
+  }
+}
+
+export function isEmptyFilter(filter: MemoryFilter | undefined): boolean {
+  if (!filter) return true;
+  return !filter.tags?.any?.length
+    && !filter.tags?.all?.length
+    && !filter.tags?.prefix?.length
+    && filter.importance?.min === undefined
+    && filter.importance?.max === undefined
+    && TIME_FIELDS.every(f => filter[f]?.from === undefined && filter[f]?.to === undefined)
+    && Object.keys(filter.metadata ?? {}).length === 0;
+}
+
+// ─── LanceDB ─────────────────────────────────────────────────────────────────
+
+function rangeClauses(column: string, range: { min?: number; max?: number } | undefined): string[] {
+  const clauses: string[] = [];
+  if (range?.min !== undefined) clauses.push(`\`${column}\` >= ${range.min}`);
+  if (range?.max !== undefined) clauses.push(`\`${column}\` <= ${range.max}`);
+  return clauses;
+}
+
+function containsJson(column: string, fragment: string): string {
+  return `strpos(\`${column}\`, '${escapeSqlLiteral(fragment)}') > 0`;
+}
+
+function sqlStringList(values: string[]): string {
+  return `make_array(${values.map(v => `'${escapeSqlLiteral(v)}'`).join(', ')})`;
+}
+
+function tagPrefixClause(prefix: string): string {
+  // A tag starts with the prefix when separator + prefix occurs in separator + joined tags
+  const joined = `concat('${TAG_SEPARATOR}', array_to_string(\`tags\`, '${TAG_SEPARATOR}'))`;
+  return `strpos(${joined}, '${TAG_SEPARATOR}${escapeSqlLiteral(prefix)}') > 0`;
+}
+
+/**
+ * Compile a filter into LanceDB WHERE clauses (to be AND-ed together).
+ *
+ * A metadata clause also matches the same key/value pair inside a nested
+ * object; use matchesFilter() on the results where that matters.
+ */
+export function compileFilter(filter: MemoryFilter | undefined): string[] {
+  if (!filter) return [];
+  assertFilter(filter);
+
+  const clauses: string[] = [];
+
+  const any = filter.tags?.any ?? [];
+  if (any.length > 0) clauses.push(`array_has_any(\`tags\`, ${sqlStringList(any)})`);
+  const all = filter.tags?.all ?? [];
+  if (all.length > 0) clauses.push(`array_has_all(\`tags\`, ${sqlStringList(all)})`);
+  const prefixes = filter.tags?.prefix ?? [];
+  if (prefixes.length > 0) clauses.push(`(${prefixes.map(tagPrefixClause).join(' OR ')})`);
+
+  clauses.push(...rangeClauses('importance', filter.importance));
+  for (const field of TIME_FIELDS) {
+    clauses.push(...rangeClauses(field, { min: filter[field]?.from, max: filter[field]?.to }));
+  }
+
+  for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+    // The pair is followed by "," or "}" in compact JSON, which stops "v" matching "v2"
+    const pair = `${JSON.stringify(key)}:${JSON.stringify(value)}`;
+    clauses.push(`(${containsJson('metadata', `${pair},`)} OR ${containsJson('metadata', `${pair}}`)})`);
+  }
+
+  return clauses;
+}
+
+// ─── In-process ──────────────────────────────────────────────────────────────
+
+function inRange(value: number, range: TimeRange | undefined): boolean {
+  if (range?.from !== undefined && value < range.from) return false;
+  if (range?.to !== undefined && value > range.to) return false;
+  return true;
+}
+
+/**
+ * Exact filter check against a loaded memory.
+ */
+export function matchesFilter(memory: Memory, filter: MemoryFilter | undefined): boolean {
+  if (!filter) return true;
+
+  const any = filter.tags?.any ?? [];
+  if (any.length > 0 && !any.some(t => memory.tags.includes(t))) return false;
+  if (!(filter.tags?.all ?? []).every(t => memory.tags.includes(t))) return false;
+  const prefixes = filter.tags?.prefix ?? [];
+  if (prefixes.length > 0 && !memory.tags.some(t => prefixes.some(p => t.startsWith(p)))) return false;
+
+  if (!inRange(memory.importance, { from: filter.importance?.min, to: filter.importance?.max })) return false;
+  for (const field of TIME_FIELDS) {
+    if (!inRange(memory[field], filter[field])) return false;
+  }
+
+  return matchesMetadata(memory.metadata, filter.metadata);
+}
+
+/**
+ * Exact check of top-level metadata equality.
+ */
+export function matchesMetadata(metadata: Record<string, unknown>, expected: Record<string, MetadataValue> | undefined): boolean {
+  return Object.entries(expected ?? {}).every(([key, value]) => metadata[key] === value);
+}
+
+// ─── Input parsing ───────────────────────────────────────────────────────────
+
+/**
+ * Parse a time bound: unix ms, an ISO date, or a duration ago ("30d", "12h",
+ * "2w", "45m").
+ */
+export function parseTimeBound(value: string | number, now = Date.now()): number {
+  if (typeof value === 'number') {
+    assertFiniteNumber(value, 'time');
+    return value;
+  }
+
+  const trimmed = value.trim();
+  const duration = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(trimmed);
+  if (duration) {
+    return now - parseFloat(duration[1]!) * DURATION_UNITS[duration[2]!.toLowerCase()]!;
+  }
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time: ${value}. Use an ISO date, unix ms, or a duration like "30d"`);
+  }
+  return parsed;
+}
+
+function timeRange(after: string | number | undefined, before: string | number | undefined, now: number): TimeRange | undefined {
+  if (after === undefined && before === undefined) return undefined;
+  return {
+    from: after !== undefined ? parseTimeBound(after, now) : undefined,
+    to: before !== undefined ? parseTimeBound(before, now) : undefined,
+  };
+}
+
+/**
+ * Convert the flat tool/CLI filter shape into a MemoryFilter.
+ * Returns undefined when no condition is set.
+ */
+export function filterFromInput(input: MemoryFilterInput | undefined, now = Date.now()): MemoryFilter | undefined {
+  if (!input) return undefined;
+
+  const filter: MemoryFilter = {
+    tags: input.tags?.length || input.allTags?.length || input.tagPrefixes?.length
+      ? { any: input.tags, all: input.allTags, prefix: input.tagPrefixes }
+      : undefined,
+    importance: input.minImportance !== undefined || input.maxImportance !== undefined
+      ? { min: input.minImportance, max: input.maxImportance }
+      : undefined,
+    createdAt: timeRange(input.createdAfter, input.createdBefore, now),
+    updatedAt: timeRange(input.updatedAfter, input.updatedBefore, now),
+    lastAccessedAt: timeRange(input.accessedAfter, input.accessedBefore, now),
+    metadata: input.metadata && Object.keys(input.metadata).length > 0 ? input.metadata : undefined,
+  };
+
+  if (isEmptyFilter(filter)) return undefined;
+  assertFilter(filter);
+  return filter;
+}
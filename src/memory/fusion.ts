@@ -0,0 +1,123 @@
+/**
+ * openclaw-tinmem - Hybrid result fusion
+ * Turns vector distances and BM25 scores into comparable per-source scores in [0, 1]
+ */
+
+import type { FusionStrategy, Memory } from '../types.js';
+
+/** A retrieval candidate with one fused score per search source */
+export type FusedMemory = Memory & { vectorScore: number; bm25Score: number; fusion: FusionStrategy };
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  /** Rank offset for rrf; larger values flatten the gap between top and lower ranks */
+  rrfK: number;
+}
+
+/**
+ * Merge vector and BM25 hits into one candidate per memory. A memory missing
+ * from a source scores 0 for it. Per strategy:
+ * - weighted: cosine similarity, and BM25 divided by the batch maximum
+ * - rrf: (k + 1) / (k + rank), scaled by the same relevance weighted uses,
+ *   so a weak hit scores low even at rank 1. A keyword hit that vector
+ *   search didn't return (while returning others) is also halved, so a
+ *   lone keyword hit tops out at 0.5
+ * - zscore: each source standardized against its own batch, squashed into (0, 1)
+ *
+ * Memories in `entityMatches` count as a full keyword match.
+ */
+export function fuseResults(
+  vectorResults: Array<Memory & { _distance: number }>,
+  bm25Results: Array<Memory & { _score: number }>,
+  options: FusionOptions,
+  entityMatches: Set<string> = new Set(),
+): FusedMemory[] {
+  const vectorScores = sourceScores(vectorResults.map(r => 1 - r._distance), options);
+  const bm25Scores = sourceScores(bm25Results.map(r => r._score), options, true);
+
+  const memoryMap = new Map<string, FusedMemory>();
+  vectorResults.forEach((r, i) => {
+    memoryMap.set(r.id, { ...r, vectorScore: vectorScores[i]!, bm25Score: 0, fusion: options.strategy });
+  });
+  bm25Results.forEach((r, i) => {
+    const existing = memoryMap.get(r.id);
+    if (existing) {
+      existing.bm25Score = bm25Scores[i]!;
+    } else {
+      memoryMap.set(r.id, { ...r, vectorScore: 0, bm25Score: bm25Scores[i]!, fusion: options.strategy });
+    }
+  });
+
+  if (options.strategy === 'rrf' && vectorResults.length > 0) {
+    // Keyword overlap alone is weak evidence: without this, the top BM25 hit
+    // would score as high as a memory both sources agree on. Vector-only hits
+    // keep their score, which already reflects how similar they are.
+    const vectorIds = new Set(vectorResults.map(r => r.id));
+    for (const m of memoryMap.values()) {
+      if (!vectorIds.has(m.id)) m.bm25Score /= 2;
+    }
+  }
+
+  for (const id of entityMatches) {
+    const m = memoryMap.get(id);
+    if (m) m.bm25Score = 1;
+  }
+
+  return Array.from(memoryMap.values());
+}
+
+/**
+ * Scores for one source's hits, in the order given. Hits are ranked by raw
+ * score for rrf, since backends don't all return them sorted.
+ */
+function sourceScores(raw: number[], options: FusionOptions, bm25 = false): number[] {
+  if (raw.length === 0) return [];
+
+  switch (options.strategy) {
+    case 'weighted':
+      return relevance(raw, bm25);
+    case 'rrf': {
+      // Rank alone would give every batch a perfect top hit, however unrelated
+      const scaled = relevance(raw, bm25);
+      const order = raw.map((s, i) => ({ s, i })).sort((a, b) => b.s - a.s);
+      const scores = new Array<number>(raw.length);
+      order.forEach(({ i }, rank) => {
+        scores[i] = (options.rrfK + 1) / (options.rrfK + rank + 1) * scaled[i]!;
+      });
+      return scores;
+    }
+    case 'zscore': {
+      const mean = raw.reduce((sum, s) => sum + s, 0) / raw.length;
+      const std = Math.sqrt(raw.reduce((sum, s) => sum + (s - mean) ** 2, 0) / raw.length);
+      // Logistic approximation of the normal CDF: the batch mean scores 0.5
+      return raw.map(s => 1 / (1 + Math.exp(-1.702 * (std > 0 ? (s - mean) / std : 0))));
+    }
+  }
+}
+
+/** Cosine similarity as is, BM25 divided by the batch maximum */
+function relevance(raw: number[], bm25: boolean): number[] {
+  if (!bm25) return raw;
+  const max = Math.max(...raw);
+  return raw.map(s => (max > 0 ? s / max : 0));
+}
+
+/**
+ * Combine the fused candidates of several searches (e.g. one per expanded
+ * query) into one per memory, keeping each source's best score.
+ */
+export function combineFused(lists: FusedMemory[][]): FusedMemory[] {
+  const memoryMap = new Map<string, FusedMemory>();
+  for (const list of lists) {
+    for (const m of list) {
+      const existing = memoryMap.get(m.id);
+      if (!existing) {
+        memoryMap.set(m.id, { ...m });
+        continue;
+      }
+      existing.vectorScore = Math.max(existing.vectorScore, m.vectorScore);
+      existing.bm25Score = Math.max(existing.bm25Score, m.bm25Score);
+    }
+  }
+  return Array.from(memoryMap.values());
+}
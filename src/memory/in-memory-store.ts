@@ -0,0 +1,607 @@
+/**
+ * openclaw-tinmem - In-memory storage backend
+ * Brute-force cosine search and a simple BM25 over plain Maps.
+ * Nothing is written to disk: for tests, ephemeral agents and serverless runs.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+import type {
+  Memory, MemoryRecord, MemoryScope, MemoryCategory, MemoryStats,
+  ChangeContext, MemoryVersion, TrashedMemory,
+  ListOptions, ListResult, SweepAction, MemoryFilter, TagCount, TagListOptions,
+  MemoryRelation, RelationQuery, Entity, EntityListOptions, ScopeSummary,
+} from '../types.js';
+import type {
+  EntityUpdate, MemoryStore, MemoryUpdate, NewEntity, NewMemory, NewRelation, SearchFilterOptions, StoreArchive,
+} from './store.js';
+import { assertUuid, assertScope, assertCategory, assertRelationType, assertEntityType } from './sql-safety.js';
+import { assertOrderField, decodeCursor, encodeCursor, paginate } from './pagination.js';
+import { assertFilter, matchesFilter } from './filter.js';
+import { countTags } from './tags.js';
+import { summarizeScopes } from './scopes.js';
+import { assertEntity, entityKeys, normalizeEntityName, sortEntities } from './entities.js';
+import { cosineSimilarity } from '../embeddings.js';
+import { recordsHistory } from './store.js';
+
+// BM25 parameters (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+type TrashedRecord = TrashedMemory & { vector: number[] };
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function isExpired(m: Memory, now: number): boolean {
+  return m.expiresAt !== undefined && m.expiresAt <= now;
+}
+
+/** Copy a record so callers can't mutate stored state */
+function clone<T extends Memory>(m: T): T {
+  return {
+    ...m,
+    tags: [...m.tags],
+    metadata: structuredClone(m.metadata),
+    ...(m.vector ? { vector: [...m.vector] } : {}),
+  };
+}
+
+function cloneEntity(e: Entity): Entity {
+  return { ...e, aliases: [...e.aliases], attributes: structuredClone(e.attributes), memoryIds: [...e.memoryIds] };
+}
+
+function withoutVector<T extends Memory>(m: T): T {
+  const { vector: _vector, ...rest } = clone(m);
+  return rest as T;
+}
+
+export class InMemoryStore implements MemoryStore {
+  private memories = new Map<string, MemoryRecord>();
+  private trash = new Map<string, TrashedRecord>();
+  private history = new Map<string, MemoryVersion[]>();
+  private relations = new Map<string, MemoryRelation>();
+  private entities = new Map<string, Entity>();
+  private initialized = false;
+
+  constructor(private dimensions: number) {}
+
+  async init(): Promise<void> {
+    this.initialized = true;
+  }
+
+  async close(): Promise<void> {
+    this.initialized = false;
+  }
+
+  private ensureInit(): void {
+    if (!this.initialized) throw new Error('InMemoryStore not initialized. Call init() first.');
+  }
+
+  private assertVector(vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+  }
+
+  private matchesFilters(
+    m: Memory,
+    options: { scope?: MemoryScope | MemoryScope[]; categories?: MemoryCategory[]; filter?: MemoryFilter },
+  ): boolean {
+    if (options.scope) {
+      const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
+      for (const s of scopes) assertScope(s);
+      if (!scopes.includes(m.scope)) return false;
+    }
+    if (options.categories && options.categories.length > 0) {
+      for (const c of options.categories) assertCategory(c);
+      if (!options.categories.includes(m.category)) return false;
+    }
+    if (options.filter) {
+      assertFilter(options.filter);
+      if (!matchesFilter(m, options.filter)) return false;
+    }
+    return true;
+  }
+
+  // ─── CRUD ────────────────────────────────────────────────────────────────
+
+  async insert(memory: NewMemory): Promise<Memory> {
+    this.ensureInit();
+    this.assertVector(memory.vector);
+
+    const now = Date.now();
+    const record: MemoryRecord = {
+      ...clone(memory as MemoryRecord),
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+      accessCount: 0,
+      lastAccessedAt: now,
+    };
+    this.memories.set(record.id, record);
+    return withoutVector(record);
+  }
+
+  async bulkInsert(records: MemoryRecord[]): Promise<void> {
+    this.ensureInit();
+    for (const r of records) this.assertVector(r.vector);
+    for (const r of records) this.memories.set(r.id, clone(r));
+  }
+
+  async update(id: string, updates: MemoryUpdate, change: ChangeContext = { actor: 'api' }): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    const existing = this.memories.get(id);
+    if (!existing) return null;
+    if (updates.vector) this.assertVector(updates.vector);
+
+    if (recordsHistory(updates)) this.appendHistory(existing, change);
+
+    // Ignore keys explicitly set to undefined so they don't erase existing fields
+    const defined = Object.fromEntries(
+      Object.entries(updates).filter(([, v]) => v !== undefined),
+    ) as MemoryUpdate;
+
+    const updated: MemoryRecord = {
+      ...clone(existing),
+      ...defined,
+      expiresAt: updates.expiresAt === null ? undefined : (updates.expiresAt ?? existing.expiresAt),
+      vector: updates.vector ? [...updates.vector] : [...existing.vector],
+      updatedAt: Date.now(),
+    };
+    this.memories.set(id, updated);
+    return withoutVector(updated);
+  }
+
+  async getById(id: string, options: { withVector?: boolean } = {}): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const m = this.memories.get(id);
+    if (!m) return null;
+    return options.withVector ? clone(m) : withoutVector(m);
+  }
+
+  async getByIds(ids: string[], options: { withVector?: boolean } = {}): Promise<Memory[]> {
+    this.ensureInit();
+    for (const id of ids) assertUuid(id);
+    return [...new Set(ids)]
+      .map(id => this.memories.get(id))
+      .filter((m): m is MemoryRecord => m !== undefined)
+      .map(m => options.withVector ? clone(m) : withoutVector(m));
+  }
+
+  async incrementAccessCount(id: string): Promise<void> {
+    this.ensureInit();
+    assertUuid(id);
+    const m = this.memories.get(id);
+    if (!m) return;
+    m.accessCount += 1;
+    m.lastAccessedAt = Date.now();
+  }
+
+  // ─── Trash ───────────────────────────────────────────────────────────────
+
+  async delete(id: string, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.moveToTrash([id], change).length > 0;
+  }
+
+  async deleteMany(ids: string[], change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureInit();
+    for (const id of ids) assertUuid(id);
+    return this.moveToTrash(ids, change);
+  }
+
+  async deleteByScope(scope: MemoryScope, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureInit();
+    assertScope(scope);
+    const ids = [...this.memories.values()].filter(m => m.scope === scope).map(m => m.id);
+    return this.moveToTrash(ids, change);
+  }
+
+  private moveToTrash(ids: string[], change: Omit<ChangeContext, 'operation'>): string[] {
+    const deletedAt = Date.now();
+    const moved: string[] = [];
+    for (const id of ids) {
+      const m = this.memories.get(id);
+      if (!m) continue;
+      this.trash.set(id, { ...m, deletedAt, deletedBy: change.actor, deleteReason: change.reason });
+      this.memories.delete(id);
+      moved.push(id);
+    }
+    return moved;
+  }
+
+  async listTrash(options: { scope?: MemoryScope; limit?: number } = {}): Promise<TrashedMemory[]> {
+    this.ensureInit();
+    if (options.scope) assertScope(options.scope);
+
+    return [...this.trash.values()]
+      .filter(m => !options.scope || m.scope === options.scope)
+      .sort((a, b) => b.deletedAt - a.deletedAt)
+      .slice(0, options.limit ?? 100)
+      .map(m => withoutVector(m));
+  }
+
+  async restore(id: string): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    const trashed = this.trash.get(id);
+    if (!trashed) return null;
+
+    const { deletedAt: _deletedAt, deletedBy: _deletedBy, deleteReason: _deleteReason, ...record } = trashed;
+    this.memories.set(id, record);
+    this.trash.delete(id);
+    return withoutVector(record);
+  }
+
+  async purgeTrash(options: { olderThan?: number; ids?: string[] } = {}): Promise<number> {
+    this.ensureInit();
+    if (options.olderThan !== undefined && !Number.isFinite(options.olderThan)) {
+      throw new Error(`Invalid timestamp: ${options.olderThan}`);
+    }
+    for (const id of options.ids ?? []) assertUuid(id);
+
+    let purged = 0;
+    for (const [id, m] of this.trash) {
+      if (options.olderThan !== undefined && m.deletedAt >= options.olderThan) continue;
+      if (options.ids && !options.ids.includes(id)) continue;
+      this.trash.delete(id);
+      this.history.delete(id);
+      this.dropRelations(id);
+      this.detachEntityMemory(id);
+      purged++;
+    }
+    return purged;
+  }
+
+  // ─── History ─────────────────────────────────────────────────────────────
+
+  private appendHistory(previous: MemoryRecord, change: ChangeContext): void {
+    const versions = this.history.get(previous.id) ?? [];
+    versions.push({
+      memoryId: previous.id,
+      version: versions.length + 1,
+      operation: change.operation ?? 'update',
+      actor: change.actor,
+      reason: change.reason,
+      createdAt: Date.now(),
+      snapshot: clone(previous),
+    });
+    this.history.set(previous.id, versions);
+  }
+
+  async getHistory(id: string): Promise<MemoryVersion[]> {
+    this.ensureInit();
+    assertUuid(id);
+    return (this.history.get(id) ?? [])
+      .map(v => ({ ...v, snapshot: clone(v.snapshot) }))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getVersion(id: string, version: number): Promise<MemoryVersion | null> {
+    this.ensureInit();
+    assertUuid(id);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid version: ${version}`);
+    }
+    const v = this.history.get(id)?.find(h => h.version === version);
+    return v ? { ...v, snapshot: clone(v.snapshot) } : null;
+  }
+
+  // ─── Relations ───────────────────────────────────────────────────────────
+
+  async addRelation(relation: NewRelation): Promise<MemoryRelation> {
+    this.ensureInit();
+    assertUuid(relation.sourceId);
+    assertUuid(relation.targetId);
+    assertRelationType(relation.type);
+
+    const created: MemoryRelation = { ...relation, id: uuidv4(), createdAt: Date.now() };
+    this.relations.set(created.id, created);
+    return { ...created };
+  }
+
+  async getRelations(memoryIds: string[], query: RelationQuery = {}): Promise<MemoryRelation[]> {
+    this.ensureInit();
+    for (const id of memoryIds) assertUuid(id);
+    for (const t of query.types ?? []) assertRelationType(t);
+
+    const ids = new Set(memoryIds);
+    const direction = query.direction ?? 'both';
+    return [...this.relations.values()]
+      .filter(r => (direction !== 'in' && ids.has(r.sourceId)) || (direction !== 'out' && ids.has(r.targetId)))
+      .filter(r => !query.types?.length || query.types.includes(r.type))
+      .map(r => ({ ...r }));
+  }
+
+  async removeRelation(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.relations.delete(id);
+  }
+
+  private dropRelations(memoryId: string): void {
+    for (const [id, r] of this.relations) {
+      if (r.sourceId === memoryId || r.targetId === memoryId) this.relations.delete(id);
+    }
+  }
+
+  // ─── Entities ────────────────────────────────────────────────────────────
+
+  async addEntity(entity: NewEntity): Promise<Entity> {
+    this.ensureInit();
+    assertEntity(entity);
+
+    const now = Date.now();
+    const created: Entity = cloneEntity({ ...entity, id: uuidv4(), createdAt: now, updatedAt: now });
+    this.entities.set(created.id, created);
+    return cloneEntity(created);
+  }
+
+  async updateEntity(id: string, updates: EntityUpdate): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const existing = this.entities.get(id);
+    if (!existing) return null;
+
+    const updated = cloneEntity({ ...existing, ...updates, updatedAt: Date.now() });
+    assertEntity(updated);
+    this.entities.set(id, updated);
+    return cloneEntity(updated);
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const entity = this.entities.get(id);
+    return entity ? cloneEntity(entity) : null;
+  }
+
+  async findEntities(names: string[], options: { scope?: MemoryScope | MemoryScope[] } = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const keys = new Set(names.map(normalizeEntityName).filter(k => k.length > 0));
+    const scopes = this.scopeList(options.scope);
+    return sortEntities([...this.entities.values()]
+      .filter(e => !scopes || scopes.includes(e.scope))
+      .filter(e => entityKeys(e).some(k => keys.has(k)))
+      .map(cloneEntity));
+  }
+
+  async listEntities(options: EntityListOptions = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const scopes = this.scopeList(options.scope);
+    if (options.type) assertEntityType(options.type);
+    if (options.memoryId) assertUuid(options.memoryId);
+
+    return sortEntities([...this.entities.values()]
+      .filter(e => !scopes || scopes.includes(e.scope))
+      .filter(e => !options.type || e.type === options.type)
+      .filter(e => !options.memoryId || e.memoryIds.includes(options.memoryId))
+      .map(cloneEntity));
+  }
+
+  async deleteEntity(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.entities.delete(id);
+  }
+
+  private detachEntityMemory(memoryId: string): void {
+    for (const entity of this.entities.values()) {
+      if (!entity.memoryIds.includes(memoryId)) continue;
+      entity.memoryIds = entity.memoryIds.filter(id => id !== memoryId);
+      entity.updatedAt = Date.now();
+    }
+  }
+
+  private scopeList(scope: MemoryScope | MemoryScope[] | undefined): MemoryScope[] | undefined {
+    if (!scope) return undefined;
+    const scopes = Array.isArray(scope) ? scope : [scope];
+    for (const s of scopes) assertScope(s);
+    return scopes;
+  }
+
+  // ─── Search ──────────────────────────────────────────────────────────────
+
+  /** Live (unexpired) memories matching scope/category filters */
+  private candidates(options: Omit<SearchFilterOptions, 'limit'>): MemoryRecord[] {
+    const now = Date.now();
+    return [...this.memories.values()].filter(m => !isExpired(m, now) && this.matchesFilters(m, options));
+  }
+
+  async vectorSearch(
+    queryVector: number[],
+    options: SearchFilterOptions & { minScore?: number },
+  ): Promise<Array<Memory & { _distance: number }>> {
+    this.ensureInit();
+    this.assertVector(queryVector);
+
+    return this.candidates(options)
+      .map(m => ({ ...withoutVector(m), _distance: 1 - cosineSimilarity(queryVector, m.vector) }))
+      .filter(r => !options.minScore || 1 - r._distance >= options.minScore)
+      .sort((a, b) => a._distance - b._distance)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Okapi BM25 over headline, summary, content and tags. Document statistics
+   * are computed over the filtered candidates on every call, which is fine
+   * for the store sizes this backend is meant for.
+   */
+  async fullTextSearch(query: string, options: SearchFilterOptions): Promise<Array<Memory & { _score: number }>> {
+    this.ensureInit();
+
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const docs = this.candidates(options).map(m => {
+      const tokens = tokenize(`${m.headline} ${m.summary} ${m.content} ${m.tags.join(' ')}`);
+      const tf = new Map<string, number>();
+      for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+      return { memory: m, length: tokens.length, tf };
+    });
+    if (docs.length === 0) return [];
+
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length;
+    const idf = new Map(terms.map(term => {
+      const df = docs.filter(d => d.tf.has(term)).length;
+      return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+    }));
+
+    return docs
+      .map(d => {
+        let score = 0;
+        for (const term of terms) {
+          const f = d.tf.get(term) ?? 0;
+          if (f === 0) continue;
+          const norm = 1 - BM25_B + BM25_B * (d.length / (avgLength || 1));
+          score += idf.get(term)! * (f * (BM25_K1 + 1)) / (f + BM25_K1 * norm);
+        }
+        return { ...withoutVector(d.memory), _score: score };
+      })
+      .filter(r => r._score > 0)
+      .sort((a, b) => b._score - a._score)
+      .slice(0, options.limit);
+  }
+
+  // ─── List & Stats ────────────────────────────────────────────────────────
+
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    this.ensureInit();
+
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDir ?? 'desc';
+    assertOrderField(orderBy);
+
+    const now = Date.now();
+    const rows = [...this.memories.values()].filter(m =>
+      (options.includeExpired || !isExpired(m, now)) && this.matchesFilters(m, options),
+    );
+
+    const after = options.cursor ? decodeCursor(options.cursor, orderBy, orderDir) : undefined;
+    const { page, next } = paginate(
+      rows,
+      m => ({ value: m[orderBy], id: m.id }),
+      { orderDir, limit: options.limit ?? 100, offset: options.offset, after },
+    );
+
+    return {
+      memories: page.map(m => withoutVector(m)),
+      nextCursor: next ? encodeCursor(orderBy, orderDir, next) : undefined,
+    };
+  }
+
+  async countByScope(scope: MemoryScope): Promise<number> {
+    this.ensureInit();
+    assertScope(scope);
+    return [...this.memories.values()].filter(m => m.scope === scope).length;
+  }
+
+  async listTags(options: TagListOptions = {}): Promise<TagCount[]> {
+    this.ensureInit();
+    if (options.scope) assertScope(options.scope);
+    const memories = [...this.memories.values()].filter(m => !options.scope || m.scope === options.scope);
+    return countTags(memories.map(m => m.tags), options.prefix);
+  }
+
+  async listScopes(): Promise<ScopeSummary[]> {
+    this.ensureInit();
+    return summarizeScopes(this.memories.values());
+  }
+
+  async getStats(): Promise<MemoryStats> {
+    this.ensureInit();
+
+    const rows = [...this.memories.values()];
+    const byCategory = {
+      profile: 0, preferences: 0, entities: 0,
+      events: 0, cases: 0, patterns: 0,
+    } as Record<MemoryCategory, number>;
+    const byScope: Record<string, number> = {};
+    let totalImportance = 0;
+
+    for (const m of rows) {
+      byCategory[m.category] = (byCategory[m.category] ?? 0) + 1;
+      byScope[m.scope] = (byScope[m.scope] ?? 0) + 1;
+      totalImportance += m.importance;
+    }
+
+    const created = rows.map(m => m.createdAt);
+    return {
+      total: rows.length,
+      byCategory,
+      byScope,
+      oldestMemory: rows.length > 0 ? Math.min(...created) : undefined,
+      newestMemory: rows.length > 0 ? Math.max(...created) : undefined,
+      avgImportance: rows.length > 0 ? totalImportance / rows.length : 0,
+    };
+  }
+
+  async getAllForExport(scope?: MemoryScope): Promise<Memory[]> {
+    this.ensureInit();
+    const { memories } = await this.list({ scope, includeExpired: true, limit: this.memories.size || 1 });
+    return memories;
+  }
+
+  async *exportRecords(options: { batchSize?: number } = {}): AsyncIterable<MemoryRecord[]> {
+    this.ensureInit();
+    const all = [...this.memories.values()];
+    const batchSize = options.batchSize ?? 500;
+    for (let i = 0; i < all.length; i += batchSize) {
+      yield all.slice(i, i + batchSize).map(m => clone(m));
+    }
+  }
+
+  async exportArchive(): Promise<StoreArchive> {
+    this.ensureInit();
+    return {
+      trash: [...this.trash.values()].map(m => clone(m)),
+      history: [...this.history.values()].flat().map(v => ({ ...v, snapshot: clone(v.snapshot) })),
+      relations: [...this.relations.values()].map(r => ({ ...r })),
+      entities: [...this.entities.values()].map(e => cloneEntity(e)),
+    };
+  }
+
+  async importArchive(archive: StoreArchive): Promise<void> {
+    this.ensureInit();
+    for (const m of archive.trash) this.assertVector(m.vector);
+
+    for (const m of archive.trash) this.trash.set(m.id, clone(m));
+    for (const v of archive.history) {
+      const versions = this.history.get(v.memoryId) ?? [];
+      versions.push({ ...v, snapshot: clone(v.snapshot) });
+      this.history.set(v.memoryId, versions.sort((a, b) => a.version - b.version));
+    }
+    for (const r of archive.relations) this.relations.set(r.id, { ...r });
+    for (const e of archive.entities) this.entities.set(e.id, cloneEntity(e));
+  }
+
+  // ─── Expiration ──────────────────────────────────────────────────────────
+
+  async findExpired(now = Date.now()): Promise<Memory[]> {
+    this.ensureInit();
+    return [...this.memories.values()].filter(m => isExpired(m, now)).map(m => withoutVector(m));
+  }
+
+  async sweepExpired(action: SweepAction, now = Date.now()): Promise<string[]> {
+    this.ensureInit();
+    if (!Number.isFinite(now)) throw new Error(`Invalid timestamp: ${now}`);
+
+    const ids = [...this.memories.values()].filter(m => isExpired(m, now)).map(m => m.id);
+    if (action === 'archive') return this.moveToTrash(ids, { actor: 'sweeper', reason: 'Expired' });
+
+    for (const id of ids) {
+      this.memories.delete(id);
+      this.history.delete(id);
+      this.dropRelations(id);
+      this.detachEntityMemory(id);
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * openclaw-tinmem - Write-ahead journal
+ * Records row replacements (delete + add) before they touch the table so a
+ * crash between the two steps can be repaired on the next init().
+ *
+ * Each pending mutation is one JSON file in `<dbPath>/journal`. The file is
+ * fsynced before the table is modified and removed once the new row is in
+ * place; anything left behind belongs to a process that died mid-write.
+ */
+
+import {
+  openSync, writeSync, fsyncSync, closeSync, renameSync,
+  readdirSync, readFileSync, unlinkSync, mkdirSync, existsSync,
+} from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import type { JournalOperation } from '../types.js';
+
+export const JOURNAL_DIR_NAME = 'journal';
+
+export interface JournalEntry {
+  /** Journal entry ID (also the file name stem) */
+  id: string;
+  operation: JournalOperation;
+  memoryId: string;
+  /** When the entry was written (unix ms) */
+  createdAt: number;
+  /** Table row before the change, used to roll back */
+  before: Record<string, unknown>;
+  /** Table row after the change, used to replay */
+  after: Record<string, unknown>;
+  /** History row written for the change, dropped if the change is rolled back */
+  historyId?: string;
+}
+
+export class WriteAheadJournal {
+  readonly dir: string;
+  private seq = 0;
+
+  constructor(dbPath: string) {
+    this.dir = join(dbPath, JOURNAL_DIR_NAME);
+  }
+
+  /**
+   * Durably record a pending mutation. Returns the entry to pass to commit().
+   */
+  begin(
+    operation: JournalOperation,
+    memoryId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    historyId?: string,
+  ): JournalEntry {
+    mkdirSync(this.dir, { recursive: true });
+
+    const createdAt = Date.now();
+    const entry: JournalEntry = {
+      // Timestamp + sequence prefix keeps directory listing in write order
+      id: `${createdAt.toString().padStart(15, '0')}-${(this.seq++).toString().padStart(6, '0')}-${uuidv4()}`,
+      operation,
+      memoryId,
+      createdAt,
+      before: serializableRow(before),
+      after: serializableRow(after),
+      ...(historyId ? { historyId } : {}),
+    };
+
+    const path = this.pathOf(entry.id);
+    const tmp = `${path}.tmp`;
+    const fd = openSync(tmp, 'w');
+    try {
+      writeSync(fd, JSON.stringify(entry));
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tmp, path);
+
+    return entry;
+  }
+
+  /**
+   * Mark a mutation as finished (or fully rolled back) by removing its entry.
+   */
+  commit(entry: JournalEntry): void {
+    try { unlinkSync(this.pathOf(entry.id)); } catch { /* already gone */ }
+  }
+
+  /**
+   * Entries left behind by interrupted mutations, oldest first.
+   * Unreadable files (e.g. a torn `.tmp` write) are skipped: the table was
+   * never touched for them.
+   */
+  pending(): JournalEntry[] {
+    if (!existsSync(this.dir)) return [];
+
+    const entries: JournalEntry[] = [];
+    for (const name of readdirSync(this.dir).sort()) {
+      const path = join(this.dir, name);
+      if (!name.endsWith('.json')) {
+        if (name.endsWith('.tmp')) {
+          try { unlinkSync(path); } catch { /* ignore */ }
+        }
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(readFileSync(path, 'utf-8')) as JournalEntry);
+      } catch {
+        // Corrupt entry: nothing can be replayed from it
+      }
+    }
+    return entries;
+  }
+
+  private pathOf(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+/** Vectors come back from LanceDB as typed arrays; store them as plain arrays */
+function serializableRow(row: Record<string, unknown>): Record<string, unknown> {
+  const out = { ...row };
+  const v = out.vector as ArrayLike<number> | undefined;
+  if (v && !Array.isArray(v)) out.vector = Array.from(v);
+  return out;
+}
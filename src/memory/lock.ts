@@ -0,0 +1,193 @@
+/**
+ * openclaw-tinmem - Inter-process write lock
+ * Lease file in the database directory so hooks, the CLI and other agents
+ * never interleave writes to the same LanceDB store.
+ *
+ * The lock file holds the owner's pid/host and is refreshed (mtime) while
+ * held. A lock is considered stale when its owner process is gone (same host)
+ * or its lease has not been refreshed within `staleMs`.
+ */
+
+import { openSync, writeSync, closeSync, readFileSync, unlinkSync, statSync, utimesSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+export const LOCK_FILE_NAME = 'tinmem.lock';
+
+export interface LockOptions {
+  /** Give up waiting for the lock after this long */
+  timeoutMs: number;
+  /** Treat a lock whose lease wasn't refreshed for this long as abandoned */
+  staleMs: number;
+  /** Delay between acquisition attempts */
+  retryIntervalMs: number;
+}
+
+export const DEFAULT_LOCK_OPTIONS: LockOptions = {
+  timeoutMs: 10_000,
+  staleMs: 30_000,
+  retryIntervalMs: 50,
+};
+
+export interface LockHolder {
+  pid: number;
+  hostname: string;
+  acquiredAt: number;
+  token: string;
+}
+
+export class LockTimeoutError extends Error {
+  constructor(
+    readonly lockPath: string,
+    readonly timeoutMs: number,
+    readonly holder?: LockHolder,
+  ) {
+    const owner = holder
+      ? `held by pid ${holder.pid} on ${holder.hostname} since ${new Date(holder.acquiredAt).toISOString()}`
+      : 'held by an unknown process';
+    super(
+      `Timed out after ${timeoutMs}ms waiting for the tinmem write lock at ${lockPath} (${owner}). ` +
+      'Another tinmem process is writing to this database; retry, or delete the lock file if that process is gone.',
+    );
+    this.name = 'LockTimeoutError';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class DirectoryLock {
+  readonly lockPath: string;
+  private options: LockOptions;
+
+  constructor(dir: string, options: Partial<LockOptions> = {}) {
+    this.lockPath = join(dir, LOCK_FILE_NAME);
+    this.options = { ...DEFAULT_LOCK_OPTIONS, ...options };
+  }
+
+  /**
+   * Run `fn` while holding the lock, releasing it afterwards even on error.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wait for the lock and return a function that releases it.
+   * Throws LockTimeoutError if the lock can't be obtained within `timeoutMs`.
+   */
+  async acquire(): Promise<() => void> {
+    const deadline = Date.now() + this.options.timeoutMs;
+    const holder: LockHolder = {
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: Date.now(),
+      token: uuidv4(),
+    };
+
+    for (;;) {
+      if (this.tryCreate(holder)) break;
+
+      const current = this.readHolder();
+      if (this.isStale(current)) {
+        this.breakStaleLock(current);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath, this.options.timeoutMs, current ?? undefined);
+      }
+      await sleep(this.options.retryIntervalMs);
+    }
+
+    // Refresh the lease while held so long writes aren't mistaken for a crash
+    const heartbeat = setInterval(() => {
+      try {
+        const now = new Date();
+        utimesSync(this.lockPath, now, now);
+      } catch {
+        // Lock file removed underneath us; release() will notice
+      }
+    }, Math.max(1, Math.floor(this.options.staleMs / 3)));
+    heartbeat.unref();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      clearInterval(heartbeat);
+      // Only remove the file if it is still ours
+      if (this.readHolder()?.token === holder.token) {
+        try { unlinkSync(this.lockPath); } catch { /* already gone */ }
+      }
+    };
+  }
+
+  /**
+   * Current lock owner, or null when the lock is free.
+   */
+  readHolder(): LockHolder | null {
+    try {
+      return JSON.parse(readFileSync(this.lockPath, 'utf-8')) as LockHolder;
+    } catch {
+      return null;
+    }
+  }
+
+  private tryCreate(holder: LockHolder): boolean {
+    let fd: number;
+    try {
+      fd = openSync(this.lockPath, 'wx');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') return false;
+      throw err;
+    }
+    try {
+      writeSync(fd, JSON.stringify(holder));
+    } finally {
+      closeSync(fd);
+    }
+    return true;
+  }
+
+  private isStale(holder: LockHolder | null): boolean {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(this.lockPath).mtimeMs;
+    } catch {
+      // Disappeared between attempts: not stale, just retry
+      return false;
+    }
+
+    // A file we can't parse is either mid-write or corrupt; only its age can tell
+    if (!holder) return Date.now() - mtimeMs > this.options.staleMs;
+
+    if (holder.hostname === hostname() && !isProcessAlive(holder.pid)) return true;
+    return Date.now() - mtimeMs > this.options.staleMs;
+  }
+
+  private breakStaleLock(stale: LockHolder | null): void {
+    // Re-check ownership right before removal to avoid deleting a fresh lock
+    // that another process created after we read the stale one.
+    const current = this.readHolder();
+    if (stale && current && current.token !== stale.token) return;
+    try { unlinkSync(this.lockPath); } catch { /* someone else broke it first */ }
+  }
+}
@@ -8,24 +8,42 @@ import type {
   Memory, MemoryScope, MemoryCategory, MemoryStats,
   RetrievalOptions, RetrievalResult,
   ExtractedMemory, ExportData, ConversationTurn,
+  ChangeContext, MemoryVersion, TrashedMemory,
+  ListOptions, ListResult, SweepAction, SweepResult, EvictionPolicy, EvictionResult,
+  Snapshot, SnapshotTrigger, MaintenanceReport, MemoryActor, TagCount, TagListOptions,
+  MemoryRelation, RelationType, RelationQuery, MemoryLink, LinkedMemory,
+  Entity, EntityListOptions, EntityMention, EntityType, ScopeSummary, ScopeTransferResult,
+  DedupResult,
 } from '../types.js';
-import { getDB, TinmemDB } from './db.js';
+import { validate as isUuid } from 'uuid';
+import { createMemoryStore, type MemoryStore, type MemoryUpdate } from './store.js';
 import { createEmbeddingService, type EmbeddingService } from '../embeddings.js';
+import { CachedEmbeddingService } from '../embedding-cache.js';
 import { createLLMService } from '../llm.js';
 import { createReranker } from '../reranker.js';
 import { MemoryExtractor } from './extractor.js';
-import { MemoryDeduplicator } from './deduplicator.js';
+import { APPEND_ONLY_CATEGORIES, MemoryDeduplicator } from './deduplicator.js';
 import { MemoryRetriever } from './retriever.js';
+import { ScopeResolver } from './scopes.js';
+import { autoSnapshotLabel, findSnapshot, snapshotsToPrune } from './snapshots.js';
+import { replaceTags } from './tags.js';
+import { mentionNames, mergeEntityFields, normalizeEntityName, withAliases } from './entities.js';
+import { assertRelationType, assertScope, assertTag } from './sql-safety.js';
 
 export class MemoryManager {
-  private db!: TinmemDB;
+  private db!: MemoryStore;
   private embedding!: EmbeddingService;
   private extractor!: MemoryExtractor;
   private deduplicator!: MemoryDeduplicator;
   private retriever!: MemoryRetriever;
   private ready = false;
 
-  constructor(private config: TinmemConfig) {}
+  /** Scope inheritance and access policies from the `scopes` config */
+  readonly scopes: ScopeResolver;
+
+  constructor(private config: TinmemConfig) {
+    this.scopes = new ScopeResolver(config.scopes);
+  }
 
   async init(): Promise<void> {
     if (this.ready) return;
@@ -34,12 +52,44 @@ export class MemoryManager {
     const llm = createLLMService(this.config);
     const reranker = createReranker(this.config);
 
-    this.db = await getDB(this.config.dbPath, this.config.embedding.dimensions);
+    this.db = await createMemoryStore(this.config);
+    const recovery = this.db.getRecovery?.();
+    if (this.config.debug && recovery) {
+      for (const r of recovery.records) {
+        console.log(`[tinmem] Recovered interrupted ${r.operation} of ${r.memoryId}: ${r.action}`);
+      }
+    }
+
     this.extractor = new MemoryExtractor(llm, this.config);
     this.deduplicator = new MemoryDeduplicator(this.db, this.embedding, llm, this.config);
-    this.retriever = new MemoryRetriever(this.db, this.embedding, reranker, this.config);
+    this.retriever = new MemoryRetriever(this.db, this.embedding, reranker, this.config, this.scopes, llm);
 
     this.ready = true;
+
+    if (this.config.ttl.sweepOnStartup) {
+      try {
+        const swept = await this.sweepExpired();
+        if (this.config.debug && swept.memoryIds.length > 0) {
+          console.log(`[tinmem] Swept ${swept.memoryIds.length} expired memories (${swept.action})`);
+        }
+      } catch (err) {
+        if (this.config.debug) {
+          console.error('[tinmem] Expiry sweep error:', err);
+        }
+      }
+    }
+
+    // Hard-delete trash entries past the retention window
+    try {
+      const purged = await this.purgeTrash();
+      if (this.config.debug && purged > 0) {
+        console.log(`[tinmem] Purged ${purged} expired trash entries`);
+      }
+    } catch (err) {
+      if (this.config.debug) {
+        console.error('[tinmem] Trash purge error:', err);
+      }
+    }
   }
 
   private ensureReady(): void {
@@ -89,13 +139,15 @@ export class MemoryManager {
   private async storeExtracted(
     extracted: ExtractedMemory[],
     scope: MemoryScope,
+    overrides: { expiresAt?: number } = {},
   ): Promise<Memory[]> {
     const stored: Memory[] = [];
 
     for (const candidate of extracted) {
       try {
         const vector = await this.embedding.embed(
-          `${candidate.headline}\n${candidate.summary}\n${candidate.content}`
+          `${candidate.headline}\n${candidate.summary}\n${candidate.content}`,
+          'document',
         );
 
         const dedupResult = await this.deduplicator.deduplicate(candidate, vector, scope);
@@ -106,8 +158,7 @@ export class MemoryManager {
 
         // Append-only categories (events, cases) must never be skipped or merged —
         // always create as new records to avoid data loss.
-        const APPEND_ONLY = new Set(['events', 'cases']);
-        if (APPEND_ONLY.has(candidate.category) && dedupResult.decision !== 'CREATE') {
+        if (APPEND_ONLY_CATEGORIES.has(candidate.category) && dedupResult.decision !== 'CREATE') {
           dedupResult.decision = 'CREATE';
         }
 
@@ -116,7 +167,8 @@ export class MemoryManager {
         if (dedupResult.decision === 'MERGE' && dedupResult.targetId) {
           const mergedVector = dedupResult.mergedContent
             ? await this.embedding.embed(
-                `${dedupResult.mergedHeadline ?? candidate.headline}\n${dedupResult.mergedSummary ?? candidate.summary}\n${dedupResult.mergedContent}`
+                `${dedupResult.mergedHeadline ?? candidate.headline}\n${dedupResult.mergedSummary ?? candidate.summary}\n${dedupResult.mergedContent}`,
+                'document',
               )
             : vector;
 
@@ -126,9 +178,12 @@ export class MemoryManager {
             content: dedupResult.mergedContent ?? candidate.content,
             tags: dedupResult.mergedTags ?? candidate.tags,
             vector: mergedVector,
-          });
+          }, { actor: 'dedup', operation: 'merge', reason: dedupResult.reason });
 
-          if (updated) stored.push(updated);
+          if (updated) {
+            await this.linkEntities(updated, candidate.entities);
+            stored.push(updated);
+          }
         } else {
           // CREATE
           const memory = await this.db.insert({
@@ -140,9 +195,20 @@ export class MemoryManager {
             importance: candidate.importance,
             tags: candidate.tags,
             metadata: candidate.metadata ?? {},
+            expiresAt: overrides.expiresAt ?? this.resolveExpiresAt(candidate.category, candidate.expiresInDays),
             vector,
           });
 
+          if (dedupResult.supersedesId) {
+            await this.link(memory.id, dedupResult.supersedesId, 'supersedes', {
+              actor: 'dedup',
+              reason: dedupResult.reason,
+            }).catch((err: unknown) => {
+              if (this.config.debug) console.error('[tinmem] Error linking superseded memory:', err);
+            });
+          }
+
+          await this.linkEntities(memory, candidate.entities);
           stored.push(memory);
         }
       } catch (err) {
@@ -152,9 +218,19 @@ export class MemoryManager {
       }
     }
 
+    if (stored.length > 0) await this.enforceQuota(scope);
     return stored;
   }
 
+  /**
+   * Expiry for a new memory: the LLM's `expiresInDays` when given, otherwise
+   * the category default from `ttl.defaults`, otherwise never.
+   */
+  private resolveExpiresAt(category: MemoryCategory, expiresInDays?: number): number | undefined {
+    const days = expiresInDays ?? this.config.ttl.defaults[category];
+    return days !== undefined ? Date.now() + days * 86400 * 1000 : undefined;
+  }
+
   /**
    * Manually store a memory
    */
@@ -166,6 +242,8 @@ export class MemoryManager {
       importance?: number;
       tags?: string[];
       metadata?: Record<string, unknown>;
+      /** Expiry (unix ms); defaults to the LLM's suggestion or the category TTL */
+      expiresAt?: number;
       skipExtraction?: boolean;
     } = {},
   ): Promise<Memory[]> {
@@ -175,7 +253,7 @@ export class MemoryManager {
 
     if (options.skipExtraction) {
       // Direct storage without LLM extraction
-      const vector = await this.embedding.embed(content);
+      const vector = await this.embedding.embed(content, 'document');
 
       const memory = await this.db.insert({
         headline: content.slice(0, 100),
@@ -186,9 +264,11 @@ export class MemoryManager {
         importance: options.importance ?? 0.5,
         tags: options.tags ?? [],
         metadata: options.metadata ?? {},
+        expiresAt: options.expiresAt ?? this.resolveExpiresAt(category),
         vector,
       });
 
+      await this.enforceQuota(scope);
       return [memory];
     }
 
@@ -197,7 +277,7 @@ export class MemoryManager {
 
     // Override category from extracted
     const adjusted = extracted.map(e => ({ ...e, category }));
-    return this.storeExtracted(adjusted, scope);
+    return this.storeExtracted(adjusted, scope, { expiresAt: options.expiresAt });
   }
 
   // ─── Retrieve ─────────────────────────────────────────────────────────────
@@ -207,26 +287,59 @@ export class MemoryManager {
     return this.retriever.retrieve(query, options);
   }
 
-  async buildContext(query: string, options: RetrievalOptions & { level?: 'L0' | 'L1' | 'L2' } = {}): Promise<string> {
+  async buildContext(
+    query: string,
+    options: RetrievalOptions & { level?: 'L0' | 'L1' | 'L2'; maxTokens?: number } = {},
+  ): Promise<string> {
     this.ensureReady();
     return this.retriever.buildContext(query, options);
   }
 
   // ─── Manage ───────────────────────────────────────────────────────────────
 
-  async forget(id: string): Promise<boolean> {
+  /**
+   * Move a memory to the trash. Use `restore()` to undo.
+   */
+  async forget(id: string, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<boolean> {
+    this.ensureReady();
+    return this.db.delete(id, change);
+  }
+
+  /**
+   * Move several memories to the trash. Returns the IDs that were trashed.
+   */
+  async forgetMany(ids: string[], change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureReady();
+    return this.db.deleteMany(ids, change);
+  }
+
+  async forgetByScope(scope: MemoryScope, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureReady();
+    if (await this.db.countByScope(scope) > 0) await this.autoSnapshot('forget-scope');
+    return this.db.deleteByScope(scope, change);
+  }
+
+  // ─── Trash ────────────────────────────────────────────────────────────────
+
+  async listTrash(options: { scope?: MemoryScope; limit?: number } = {}): Promise<TrashedMemory[]> {
     this.ensureReady();
-    return this.db.delete(id);
+    return this.db.listTrash(options);
   }
 
-  async forgetMany(ids: string[]): Promise<number> {
+  async restore(id: string): Promise<Memory | null> {
     this.ensureReady();
-    return this.db.deleteMany(ids);
+    return this.db.restore(id);
   }
 
-  async forgetByScope(scope: MemoryScope): Promise<number> {
+  /**
+   * Permanently delete trashed memories. By default only entries older than
+   * `trash.retentionDays` are purged; pass `all: true` to empty the trash.
+   */
+  async purgeTrash(options: { all?: boolean } = {}): Promise<number> {
     this.ensureReady();
-    return this.db.deleteByScope(scope);
+    if (options.all) return this.db.purgeTrash();
+    const olderThan = Date.now() - this.config.trash.retentionDays * 86400 * 1000;
+    return this.db.purgeTrash({ olderThan });
   }
 
   async getById(id: string): Promise<Memory | null> {
@@ -236,7 +349,8 @@ export class MemoryManager {
 
   async update(
     id: string,
-    updates: Partial<Pick<Memory, 'headline' | 'summary' | 'content' | 'importance' | 'tags' | 'metadata'>>,
+    updates: Omit<MemoryUpdate, 'vector'>,
+    change: ChangeContext = { actor: 'api' },
   ): Promise<Memory | null> {
     this.ensureReady();
 
@@ -249,28 +363,770 @@ export class MemoryManager {
       const newSummary = updates.summary ?? existing.summary;
       const newContent = updates.content ?? existing.content;
 
-      const vector = await this.embedding.embed(`${newHeadline}\n${newSummary}\n${newContent}`);
-      return this.db.update(id, { ...updates, vector });
+      const vector = await this.embedding.embed(`${newHeadline}\n${newSummary}\n${newContent}`, 'document');
+      return this.db.update(id, { ...updates, vector }, change);
+    }
+
+    return this.db.update(id, updates, change);
+  }
+
+  // ─── History ──────────────────────────────────────────────────────────────
+
+  /**
+   * List previous versions of a memory, newest first.
+   */
+  async getHistory(id: string): Promise<MemoryVersion[]> {
+    this.ensureReady();
+    return this.db.getHistory(id);
+  }
+
+  /**
+   * Restore a memory to the state captured in `version`, moving it back to
+   * that version's scope if it has changed since (which must be writable).
+   * The current state is itself saved as a new version, so a revert can be undone.
+   */
+  async revert(
+    id: string,
+    version: number,
+    change: Omit<ChangeContext, 'operation'> = { actor: 'api' },
+  ): Promise<Memory | null> {
+    this.ensureReady();
+
+    const target = await this.db.getVersion(id, version);
+    if (!target) return null;
+
+    const { snapshot } = target;
+    const current = await this.db.getById(id);
+    const moved = current !== null && current.scope !== snapshot.scope;
+    if (moved && !this.scopes.canWrite(snapshot.scope)) {
+      throw new Error(`Cannot revert memory ${id} into read-only scope ${snapshot.scope}`);
     }
 
-    return this.db.update(id, updates);
+    const vector = snapshot.vector
+      ?? await this.embedding.embed(`${snapshot.headline}\n${snapshot.summary}\n${snapshot.content}`, 'document');
+
+    const reverted = await this.db.update(id, {
+      headline: snapshot.headline,
+      summary: snapshot.summary,
+      content: snapshot.content,
+      importance: snapshot.importance,
+      tags: snapshot.tags,
+      metadata: snapshot.metadata,
+      expiresAt: snapshot.expiresAt ?? null,
+      scope: snapshot.scope,
+      vector,
+    }, {
+      ...change,
+      operation: 'revert',
+      reason: change.reason ?? `Revert to version ${version}`,
+    });
+    if (reverted && moved) await this.enforceQuota(snapshot.scope);
+    return reverted;
   }
 
-  async list(options: {
-    scope?: MemoryScope | MemoryScope[];
-    categories?: MemoryCategory[];
-    limit?: number;
-    offset?: number;
-    orderBy?: 'createdAt' | 'updatedAt' | 'importance' | 'accessCount';
-    orderDir?: 'asc' | 'desc';
-  } = {}): Promise<Memory[]> {
+  async list(options: ListOptions = {}): Promise<ListResult> {
     this.ensureReady();
     return this.db.list(options);
   }
 
+  // ─── Relations ────────────────────────────────────────────────────────────
+
+  /**
+   * Record that `sourceId` <type> `targetId`, e.g. a new preference
+   * supersedes an old one. Linking the same pair again returns the existing
+   * relation (for relatedTo, in either order).
+   */
+  async link(
+    sourceId: string,
+    targetId: string,
+    type: RelationType,
+    change: Omit<ChangeContext, 'operation'> = { actor: 'api' },
+  ): Promise<MemoryRelation> {
+    this.ensureReady();
+    assertRelationType(type);
+    if (sourceId === targetId) throw new Error('A memory cannot be linked to itself');
+    for (const id of [sourceId, targetId]) {
+      if (!(await this.db.getById(id))) throw new Error(`Memory ${id} not found`);
+    }
+
+    const existing = (await this.db.getRelations([sourceId], { types: [type] }))
+      .find(r => connects(r, sourceId, targetId));
+    if (existing) return existing;
+
+    return this.db.addRelation({ sourceId, targetId, type, actor: change.actor, reason: change.reason });
+  }
+
+  /**
+   * Remove the relations from `sourceId` to `targetId` (of every type unless
+   * `type` is given). Returns the number removed.
+   */
+  async unlink(sourceId: string, targetId: string, type?: RelationType): Promise<number> {
+    this.ensureReady();
+    const matching = (await this.db.getRelations([sourceId], { types: type ? [type] : undefined }))
+      .filter(r => connects(r, sourceId, targetId));
+    for (const relation of matching) await this.db.removeRelation(relation.id);
+    return matching.length;
+  }
+
+  /**
+   * Relations of a memory, each with the memory at the other end. Links to
+   * memories that are in the trash are skipped.
+   */
+  async getLinks(id: string, query: RelationQuery = {}): Promise<MemoryLink[]> {
+    this.ensureReady();
+    const links: MemoryLink[] = [];
+    for (const relation of await this.db.getRelations([id], query)) {
+      const direction = relation.sourceId === id ? 'out' : 'in';
+      const memory = await this.db.getById(direction === 'out' ? relation.targetId : relation.sourceId);
+      if (memory) links.push({ relation, direction, memory });
+    }
+    return links;
+  }
+
+  /**
+   * Walk the relation graph breadth-first from `id`, up to `maxDepth` hops
+   * (default 2). Each memory is returned once, at its shortest distance.
+   */
+  async traverse(id: string, options: RelationQuery & { maxDepth?: number } = {}): Promise<LinkedMemory[]> {
+    this.ensureReady();
+    const maxDepth = options.maxDepth ?? 2;
+    const seen = new Set([id]);
+    const reached: LinkedMemory[] = [];
+
+    let frontier = [id];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (const link of await this.getLinks(current, options)) {
+          if (seen.has(link.memory.id)) continue;
+          seen.add(link.memory.id);
+          reached.push({ ...link, depth });
+          next.push(link.memory.id);
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  // ─── Entities ─────────────────────────────────────────────────────────────
+
+  async listEntities(options: EntityListOptions = {}): Promise<Entity[]> {
+    this.ensureReady();
+    return this.db.listEntities(options);
+  }
+
+  /**
+   * Find an entity by ID, or by name or alias within `scope` (the default
+   * scope when omitted). Throws if a name matches more than one entity.
+   */
+  async resolveEntity(ref: string, scope?: MemoryScope): Promise<Entity | null> {
+    this.ensureReady();
+    if (isUuid(ref)) return this.db.getEntity(ref);
+
+    const matches = await this.db.findEntities([ref], { scope: scope ?? (this.config.defaultScope as MemoryScope) });
+    if (matches.length > 1) {
+      throw new Error(`"${ref}" matches ${matches.length} entities (${matches.map(e => e.id).join(', ')}); use an ID`);
+    }
+    return matches[0] ?? null;
+  }
+
+  /**
+   * Live memories linked to an entity, oldest link first.
+   */
+  async getEntityMemories(id: string): Promise<Memory[]> {
+    this.ensureReady();
+    const entity = await this.db.getEntity(id);
+    if (!entity) throw new Error(`Entity ${id} not found`);
+
+    const memories: Memory[] = [];
+    for (const memoryId of entity.memoryIds) {
+      const memory = await this.db.getById(memoryId);
+      if (memory) memories.push(memory);
+    }
+    return memories;
+  }
+
+  async createEntity(input: {
+    name: string;
+    type?: EntityType;
+    aliases?: string[];
+    attributes?: Record<string, unknown>;
+    scope?: MemoryScope;
+  }): Promise<Entity> {
+    this.ensureReady();
+    const scope = input.scope ?? (this.config.defaultScope as MemoryScope);
+    const name = input.name.trim();
+    const aliases = withAliases({ name, aliases: [] }, input.aliases ?? []);
+    await this.assertNamesFree([name, ...aliases], scope);
+
+    return this.db.addEntity({
+      name,
+      type: input.type ?? 'other',
+      aliases,
+      attributes: input.attributes ?? {},
+      scope,
+      memoryIds: [],
+    });
+  }
+
+  /**
+   * Give an entity a new canonical name. The old name stays as an alias, so
+   * memories and queries that use it still resolve.
+   */
+  async renameEntity(ref: string, newName: string, options: { scope?: MemoryScope } = {}): Promise<Entity> {
+    const entity = await this.requireEntity(ref, options.scope);
+    const name = newName.trim();
+    await this.assertNamesFree([name], entity.scope, entity.id);
+
+    const key = normalizeEntityName(name);
+    const aliases = withAliases(
+      { name, aliases: entity.aliases.filter(a => normalizeEntityName(a) !== key) },
+      [entity.name],
+    );
+    return (await this.db.updateEntity(entity.id, { name, aliases }))!;
+  }
+
+  /**
+   * Fold `sources` into `target`: their names become aliases of the target
+   * and their memories are linked to it. The sources are deleted.
+   */
+  async mergeEntities(sources: string[], target: string, options: { scope?: MemoryScope } = {}): Promise<Entity> {
+    const into = await this.requireEntity(target, options.scope);
+    const merged: Entity[] = [];
+    for (const ref of sources) {
+      const entity = await this.requireEntity(ref, options.scope);
+      if (entity.id !== into.id && !merged.some(e => e.id === entity.id)) merged.push(entity);
+    }
+    if (merged.length === 0) return into;
+
+    const updated = await this.db.updateEntity(into.id, mergeEntityFields(into, merged));
+    for (const entity of merged) await this.db.deleteEntity(entity.id);
+    return updated!;
+  }
+
+  private async requireEntity(ref: string, scope?: MemoryScope): Promise<Entity> {
+    const entity = await this.resolveEntity(ref, scope);
+    if (!entity) throw new Error(`Entity ${ref} not found`);
+    return entity;
+  }
+
+  /** Throw if another entity in `scope` already goes by one of `names` */
+  private async assertNamesFree(names: string[], scope: MemoryScope, exceptId?: string): Promise<void> {
+    const taken = (await this.db.findEntities(names, { scope })).find(e => e.id !== exceptId);
+    if (taken) {
+      throw new Error(`Entity "${taken.name}" (${taken.id}) already uses that name; merge the entities instead`);
+    }
+  }
+
+  /**
+   * Link a stored memory to the entities it mentions. A mention that matches
+   * an existing entity's name or alias is attached to it (adding any new
+   * aliases); otherwise a new entity is registered. Failures are logged,
+   * not thrown, so they never lose the memory itself.
+   */
+  private async linkEntities(memory: Memory, mentions: EntityMention[] | undefined): Promise<void> {
+    for (const mention of mentions ?? []) {
+      try {
+        const names = mentionNames(mention);
+        const existing = (await this.db.findEntities(names, { scope: memory.scope }))[0];
+
+        if (!existing) {
+          await this.db.addEntity({
+            name: mention.name,
+            type: mention.type ?? 'other',
+            aliases: withAliases({ name: mention.name, aliases: [] }, mention.aliases ?? []),
+            attributes: {},
+            scope: memory.scope,
+            memoryIds: [memory.id],
+          });
+          continue;
+        }
+
+        const aliases = withAliases(existing, names);
+        const linked = existing.memoryIds.includes(memory.id);
+        const type = existing.type === 'other' && mention.type ? mention.type : existing.type;
+        if (linked && aliases.length === existing.aliases.length && type === existing.type) continue;
+
+        await this.db.updateEntity(existing.id, {
+          aliases,
+          type,
+          memoryIds: linked ? existing.memoryIds : [...existing.memoryIds, memory.id],
+        });
+      } catch (err) {
+        if (this.config.debug) console.error(`[tinmem] Error linking entity "${mention.name}":`, err);
+      }
+    }
+  }
+
+  // ─── Tags ─────────────────────────────────────────────────────────────────
+
+  async listTags(options: TagListOptions = {}): Promise<TagCount[]> {
+    this.ensureReady();
+    if (options.prefix) assertTag(options.prefix);
+    return this.db.listTags(options);
+  }
+
+  /**
+   * Rename a tag on every memory that carries it. Renaming onto a tag a
+   * memory already has merges the two. Returns the number of memories changed.
+   */
+  async renameTag(
+    from: string,
+    to: string,
+    options: { scope?: MemoryScope; actor?: MemoryActor } = {},
+  ): Promise<number> {
+    return this.mergeTags([from], to, options);
+  }
+
+  /**
+   * Replace each of `sources` with `target` on every memory that carries one
+   * of them. Each change is recorded in the memory's history.
+   * Returns the number of memories changed.
+   */
+  async mergeTags(
+    sources: string[],
+    target: string,
+    options: { scope?: MemoryScope; actor?: MemoryActor } = {},
+  ): Promise<number> {
+    this.ensureReady();
+    for (const tag of [...sources, target]) assertTag(tag);
+    const from = sources.filter(t => t !== target);
+    if (from.length === 0) return 0;
+
+    // Collect first: retagging removes memories from the filter mid-paging
+    const affected: Memory[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.db.list({
+        scope: options.scope,
+        filter: { tags: { any: from } },
+        includeExpired: true,
+        limit: 500,
+        cursor,
+      });
+      affected.push(...page.memories);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    for (const memory of affected) {
+      await this.db.update(memory.id, { tags: replaceTags(memory.tags, from, target) }, {
+        actor: options.actor ?? 'api',
+        reason: `Retag ${from.join(', ')} → ${target}`,
+      });
+    }
+    return affected.length;
+  }
+
+  // ─── Scopes ───────────────────────────────────────────────────────────────
+
+  /** Every scope holding memories, with counts, last activity and average importance */
+  async listScopes(): Promise<ScopeSummary[]> {
+    this.ensureReady();
+    return this.db.listScopes();
+  }
+
+  /**
+   * Give a scope a new name. `to` must not hold any memories yet; use
+   * `mergeScope()` to combine two scopes.
+   */
+  async renameScope(from: MemoryScope, to: MemoryScope, options: { actor?: MemoryActor } = {}): Promise<ScopeTransferResult> {
+    this.ensureReady();
+    if (from !== to && await this.db.countByScope(to) > 0) {
+      throw new Error(`Scope ${to} already has memories; merge the scopes instead`);
+    }
+    return this.moveScope(from, to, options);
+  }
+
+  /**
+   * Move every memory of `from` into `to` unchanged, recording the move in
+   * each memory's history. Entities move along; one whose name is already
+   * registered in `to` is folded into that entity.
+   */
+  async moveScope(from: MemoryScope, to: MemoryScope, options: { actor?: MemoryActor } = {}): Promise<ScopeTransferResult> {
+    const memories = await this.scopeMemories(from, to);
+    const entities = await this.db.listEntities({ scope: from });
+    if (memories.length > 0 || entities.length > 0) await this.autoSnapshot('scope-change');
+
+    const change = { actor: options.actor ?? 'api', reason: `Move scope ${from} → ${to}` };
+    for (const memory of memories) await this.db.update(memory.id, { scope: to }, change);
+
+    const result: ScopeTransferResult = {
+      source: from,
+      target: to,
+      transferred: memories.length,
+      merged: 0,
+      skipped: 0,
+      entities: await this.transferEntities(entities, to, new Map(), 'move'),
+    };
+    if (result.transferred > 0) await this.enforceQuota(to);
+    return result;
+  }
+
+  /**
+   * Copy every memory of `from` into `to` as new memories (same content and
+   * vectors, fresh IDs and timestamps). Entities are copied too, linked to
+   * the copies. `from` is left untouched.
+   */
+  async copyScope(from: MemoryScope, to: MemoryScope): Promise<ScopeTransferResult> {
+    const memories = await this.scopeMemories(from, to);
+
+    const copies = new Map<string, string>();
+    for (const memory of memories) {
+      const source = await this.db.getById(memory.id, { withVector: true });
+      if (!source?.vector) continue;
+      const copy = await this.db.insert({
+        headline: source.headline,
+        summary: source.summary,
+        content: source.content,
+        category: source.category,
+        scope: to,
+        importance: source.importance,
+        tags: source.tags,
+        metadata: source.metadata,
+        expiresAt: source.expiresAt,
+        vector: source.vector,
+      });
+      copies.set(source.id, copy.id);
+    }
+
+    const entities = await this.db.listEntities({ scope: from });
+    const result: ScopeTransferResult = {
+      source: from,
+      target: to,
+      transferred: copies.size,
+      merged: 0,
+      skipped: 0,
+      entities: await this.transferEntities(entities, to, copies, 'copy'),
+    };
+    if (result.transferred > 0) await this.enforceQuota(to);
+    return result;
+  }
+
+  /**
+   * Consolidate `from` into `to`. Each memory is run through the
+   * deduplicator against `to`: duplicates of a memory in `to` are trashed,
+   * overlapping memories are merged into their counterpart (which records a
+   * `mergedFrom` link), and the rest — events and cases always — are moved.
+   * Entities follow as in `moveScope()`.
+   */
+  async mergeScope(from: MemoryScope, to: MemoryScope, options: { actor?: MemoryActor } = {}): Promise<ScopeTransferResult> {
+    const memories = await this.scopeMemories(from, to);
+    const entities = await this.db.listEntities({ scope: from });
+    if (memories.length > 0 || entities.length > 0) await this.autoSnapshot('scope-change');
+
+    const actor = options.actor ?? 'api';
+    const reason = `Merge scope ${from} → ${to}`;
+    // Memory IDs that no longer exist in `to`, mapped to the memory that absorbed them
+    const absorbed = new Map<string, string>();
+    const result: ScopeTransferResult = { source: from, target: to, transferred: 0, merged: 0, skipped: 0, entities: 0 };
+
+    for (const memory of memories) {
+      const source = await this.db.getById(memory.id, { withVector: true });
+      if (!source?.vector) continue;
+
+      // Events and cases are always moved as they are, never skipped or merged
+      const dedup: DedupResult = APPEND_ONLY_CATEGORIES.has(source.category)
+        ? { decision: 'CREATE', reason: 'Append-only category' }
+        : await this.deduplicator.deduplicate(source, source.vector, to);
+      if (this.config.debug) {
+        console.log(`[tinmem] Scope merge of ${source.id}: ${dedup.decision} - ${dedup.reason}`);
+      }
+
+      const target = dedup.targetId ? await this.db.getById(dedup.targetId) : null;
+      const into = target?.scope === to ? target : null;
+
+      // Only trash a duplicate when something in `to` holds it; a SKIP without
+      // a target there (e.g. judged low-value) is moved like a CREATE
+      if (dedup.decision === 'SKIP' && into) {
+        await this.db.delete(source.id, { actor, reason: `${reason}: duplicate of ${into.id}` });
+        absorbed.set(source.id, into.id);
+        result.skipped++;
+        continue;
+      }
+
+      if (dedup.decision === 'MERGE' && into) {
+        const mergedVector = dedup.mergedContent
+          ? await this.embedding.embed(
+              `${dedup.mergedHeadline ?? into.headline}\n${dedup.mergedSummary ?? into.summary}\n${dedup.mergedContent}`,
+              'document',
+            )
+          : undefined;
+
+        await this.db.update(into.id, {
+          headline: dedup.mergedHeadline ?? into.headline,
+          summary: dedup.mergedSummary ?? into.summary,
+          content: dedup.mergedContent ?? into.content,
+          tags: dedup.mergedTags ?? [...new Set([...into.tags, ...source.tags])],
+          vector: mergedVector,
+        }, { actor, operation: 'merge', reason: dedup.reason ?? reason });
+        await this.link(into.id, source.id, 'mergedFrom', { actor, reason });
+        await this.db.delete(source.id, { actor, reason: `${reason}: merged into ${into.id}` });
+        absorbed.set(source.id, into.id);
+        result.merged++;
+        continue;
+      }
+
+      // CREATE (or a SKIP or MERGE whose target isn't in `to`)
+      await this.db.update(source.id, { scope: to }, { actor, reason });
+      if (dedup.supersedesId) {
+        await this.link(source.id, dedup.supersedesId, 'supersedes', { actor, reason: dedup.reason });
+      }
+      result.transferred++;
+    }
+
+    result.entities = await this.transferEntities(entities, to, absorbed, 'move');
+    if (result.transferred > 0) await this.enforceQuota(to);
+    return result;
+  }
+
+  /**
+   * Every memory in `from` (expired ones included), after checking both
+   * scopes. Collected up front since moving memories changes the listing.
+   */
+  private async scopeMemories(from: MemoryScope, to: MemoryScope): Promise<Memory[]> {
+    this.ensureReady();
+    assertScope(from);
+    assertScope(to);
+    if (from === to) throw new Error('Source and target scope are the same');
+
+    const memories: Memory[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.db.list({ scope: from, includeExpired: true, limit: 500, cursor });
+      memories.push(...page.memories);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return memories;
+  }
+
+  /**
+   * Carry `entities` over to scope `to`, replacing memory IDs found in `ids`.
+   * An entity whose name is already registered in `to` is folded into that
+   * entity; otherwise it is moved (or, in copy mode, duplicated).
+   * Returns the number of entities carried over.
+   */
+  private async transferEntities(
+    entities: Entity[],
+    to: MemoryScope,
+    ids: Map<string, string>,
+    mode: 'move' | 'copy',
+  ): Promise<number> {
+    for (const entity of entities) {
+      const memoryIds = [...new Set(mode === 'copy'
+        ? entity.memoryIds.flatMap(id => ids.get(id) ?? [])
+        : entity.memoryIds.map(id => ids.get(id) ?? id))];
+      const carried: Entity = { ...entity, scope: to, memoryIds };
+
+      const existing = (await this.db.findEntities([entity.name, ...entity.aliases], { scope: to }))[0];
+      if (existing) {
+        await this.db.updateEntity(existing.id, mergeEntityFields(existing, [carried]));
+        if (mode === 'move') await this.db.deleteEntity(entity.id);
+      } else if (mode === 'move') {
+        await this.db.updateEntity(entity.id, { scope: to, memoryIds });
+      } else {
+        await this.db.addEntity({
+          name: entity.name,
+          type: entity.type,
+          aliases: entity.aliases,
+          attributes: entity.attributes,
+          scope: to,
+          memoryIds,
+        });
+      }
+    }
+    return entities.length;
+  }
+
+  // ─── Expiration ───────────────────────────────────────────────────────────
+
+  /**
+   * Archive or delete memories past their expiresAt. Defaults to
+   * `ttl.sweepAction`; with `dryRun`, only report what would be swept.
+   */
+  async sweepExpired(options: { action?: SweepAction; dryRun?: boolean } = {}): Promise<SweepResult> {
+    this.ensureReady();
+
+    const action = options.action ?? this.config.ttl.sweepAction;
+    if (options.dryRun) {
+      const expired = await this.db.findExpired();
+      return { action, dryRun: true, memoryIds: expired.map(m => m.id) };
+    }
+
+    const memoryIds = await this.db.sweepExpired(action);
+    return { action, dryRun: false, memoryIds };
+  }
+
+  // ─── Quotas ───────────────────────────────────────────────────────────────
+
+  /**
+   * Archive or delete memories from every scope over its quota (or just
+   * `scope`) until it is back at its limit. Defaults to `scopes.eviction`;
+   * with `dryRun`, only report what would be evicted.
+   */
+  async evict(options: {
+    scope?: MemoryScope;
+    policy?: EvictionPolicy;
+    action?: SweepAction;
+    dryRun?: boolean;
+  } = {}): Promise<EvictionResult> {
+    this.ensureReady();
+
+    const policy = options.policy ?? this.config.scopes.eviction.policy;
+    const action = options.action ?? this.config.scopes.eviction.action;
+    const scopes = options.scope ? [options.scope] : (await this.db.listScopes()).map(s => s.scope);
+
+    const evicted: EvictionResult['evicted'] = {};
+    for (const scope of scopes) {
+      const ids = await this.evictScope(scope, policy, action, options.dryRun ?? false);
+      if (ids.length > 0) evicted[scope] = ids;
+    }
+    return { policy, action, dryRun: options.dryRun ?? false, evicted };
+  }
+
+  /**
+   * Bring `scope` back within its quota after new memories were stored,
+   * if `scopes.eviction.onInsert` is set. Errors are logged, not thrown,
+   * so a failed eviction never loses the capture.
+   */
+  private async enforceQuota(scope: MemoryScope): Promise<void> {
+    const { policy, action, onInsert } = this.config.scopes.eviction;
+    if (!onInsert || this.scopes.quota(scope) === undefined) return;
+
+    try {
+      const ids = await this.evictScope(scope, policy, action, false);
+      if (this.config.debug && ids.length > 0) {
+        console.log(`[tinmem] Evicted ${ids.length} memories from ${scope} (over quota, ${policy})`);
+      }
+    } catch (err) {
+      if (this.config.debug) console.error('[tinmem] Eviction error:', err);
+    }
+  }
+
+  /** IDs evicted (or, in a dry run, to be evicted) to bring `scope` within its quota */
+  private async evictScope(
+    scope: MemoryScope,
+    policy: EvictionPolicy,
+    action: SweepAction,
+    dryRun: boolean,
+  ): Promise<string[]> {
+    const quota = this.scopes.quota(scope);
+    if (quota === undefined) return [];
+    const excess = await this.db.countByScope(scope) - quota;
+    if (excess <= 0) return [];
+
+    const { memories } = await this.db.list({
+      scope,
+      limit: excess,
+      includeExpired: true,
+      ...EVICTION_ORDER[policy],
+    });
+    const ids = memories.map(m => m.id);
+    if (dryRun) return ids;
+
+    const trashed = await this.db.deleteMany(ids, { actor: 'sweeper', reason: `Over scope quota (${policy})` });
+    if (action === 'delete') await this.db.purgeTrash({ ids: trashed });
+    return trashed;
+  }
+
+  // ─── Snapshots ────────────────────────────────────────────────────────────
+
+  /**
+   * Label the current state of the store so it can be restored later.
+   * Snapshots beyond the `snapshots` retention policy are dropped.
+   */
+  async snapshot(label: string, trigger: SnapshotTrigger = 'manual'): Promise<Snapshot> {
+    this.ensureReady();
+    if (!this.db.createSnapshot) {
+      throw new Error(`Snapshots are not supported by the ${this.config.storage.backend} storage backend`);
+    }
+
+    const snapshot = await this.db.createSnapshot(label, trigger);
+    await this.pruneSnapshots();
+    return snapshot;
+  }
+
+  /**
+   * Snapshots, newest first (empty for backends without snapshot support).
+   */
+  async listSnapshots(): Promise<Snapshot[]> {
+    this.ensureReady();
+    return this.db.listSnapshots?.() ?? [];
+  }
+
+  /**
+   * Roll the whole store back to a snapshot, given its ID, ID prefix or label.
+   * With `snapshots.autoSnapshot`, the current state is snapshotted first so
+   * the restore itself can be undone. Returns null if no snapshot matches.
+   */
+  async restoreSnapshot(ref: string): Promise<Snapshot | null> {
+    this.ensureReady();
+    if (!this.db.restoreSnapshot) {
+      throw new Error(`Snapshots are not supported by the ${this.config.storage.backend} storage backend`);
+    }
+
+    const target = findSnapshot(await this.listSnapshots(), ref);
+    if (!target) return null;
+
+    await this.autoSnapshot('restore');
+    return this.db.restoreSnapshot(target.id);
+  }
+
+  async deleteSnapshot(ref: string): Promise<boolean> {
+    this.ensureReady();
+    const target = findSnapshot(await this.listSnapshots(), ref);
+    if (!target || !this.db.deleteSnapshot) return false;
+    return this.db.deleteSnapshot(target.id);
+  }
+
+  /**
+   * Snapshot before a destructive operation, if enabled and supported.
+   * Failures propagate so the operation doesn't run without its safety net.
+   */
+  private async autoSnapshot(trigger: Exclude<SnapshotTrigger, 'manual'>): Promise<void> {
+    if (!this.config.snapshots.autoSnapshot || !this.db.createSnapshot) return;
+    const snapshot = await this.snapshot(autoSnapshotLabel(trigger), trigger);
+    if (this.config.debug) console.log(`[tinmem] Created snapshot ${snapshot.label}`);
+  }
+
+  private async pruneSnapshots(): Promise<void> {
+    if (!this.db.listSnapshots || !this.db.deleteSnapshot) return;
+    for (const stale of snapshotsToPrune(await this.db.listSnapshots(), this.config.snapshots)) {
+      await this.db.deleteSnapshot(stale.id);
+    }
+  }
+
+  // ─── Maintenance ──────────────────────────────────────────────────────────
+
+  /**
+   * Compact fragments, prune old table versions and refresh the vector and
+   * full-text indexes, using the `maintenance` settings.
+   */
+  async maintain(options: { reindex?: boolean } = {}): Promise<MaintenanceReport> {
+    this.ensureReady();
+    if (!this.db.maintain) {
+      throw new Error(`Maintenance is not supported by the ${this.config.storage.backend} storage backend`);
+    }
+    return this.db.maintain({ ...this.config.maintenance, reindex: options.reindex });
+  }
+
   async getStats(): Promise<MemoryStats> {
     this.ensureReady();
-    return this.db.getStats();
+    const stats = await this.db.getStats();
+
+    const quotas: Record<string, number> = {};
+    for (const scope of Object.keys(stats.byScope)) {
+      const quota = this.scopes.quota(scope as MemoryScope);
+      if (quota !== undefined) quotas[scope] = quota;
+    }
+    const embeddingCache = this.embedding instanceof CachedEmbeddingService
+      ? this.embedding.cache.stats()
+      : undefined;
+    return {
+      ...stats,
+      ...(Object.keys(quotas).length > 0 ? { quotas } : {}),
+      ...(embeddingCache ? { embeddingCache } : {}),
+    };
   }
 
   // ─── Export / Import ──────────────────────────────────────────────────────
@@ -297,14 +1153,16 @@ export class MemoryManager {
     if (toImport.length === 0) return 0;
 
     let imported = 0;
+    const scopes = new Set<MemoryScope>();
     for (const m of toImport) {
       try {
-        const vector = await this.embedding.embed(`${m.headline}\n${m.summary}\n${m.content}`);
-        await this.db.insert({
+        const vector = await this.embedding.embed(`${m.headline}\n${m.summary}\n${m.content}`, 'document');
+        const created = await this.db.insert({
           ...m,
           scope: scope ?? m.scope,
           vector,
         });
+        scopes.add(created.scope);
         imported++;
       } catch (err) {
         if (this.config.debug) {
@@ -313,6 +1171,7 @@ export class MemoryManager {
       }
     }
 
+    for (const target of scopes) await this.enforceQuota(target);
     return imported;
   }
 
@@ -323,12 +1182,13 @@ export class MemoryManager {
     this.ensureReady();
 
     const memories = await this.db.getAllForExport(scope);
+    if (memories.length > 0) await this.autoSnapshot('reembed');
 
     let count = 0;
     for (const m of memories) {
       try {
-        const vector = await this.embedding.embed(`${m.headline}\n${m.summary}\n${m.content}`);
-        await this.db.update(m.id, { vector } as Parameters<typeof this.db.update>[1]);
+        const vector = await this.embedding.embed(`${m.headline}\n${m.summary}\n${m.content}`, 'document');
+        await this.db.update(m.id, { vector }, { actor: 'api', reason: 'Re-embed' });
         count++;
       } catch {
         // Continue on error
@@ -339,6 +1199,19 @@ export class MemoryManager {
   }
 }
 
+/** List order that puts the first memories to evict first */
+const EVICTION_ORDER: Record<EvictionPolicy, Pick<ListOptions, 'orderBy' | 'orderDir'>> = {
+  importance: { orderBy: 'importance', orderDir: 'asc' },
+  lru: { orderBy: 'lastAccessedAt', orderDir: 'asc' },
+  oldest: { orderBy: 'createdAt', orderDir: 'asc' },
+};
+
+/** Whether a relation links source to target (relatedTo counts in either order) */
+function connects(relation: MemoryRelation, sourceId: string, targetId: string): boolean {
+  if (relation.sourceId === sourceId && relation.targetId === targetId) return true;
+  return relation.type === 'relatedTo' && relation.sourceId === targetId && relation.targetId === sourceId;
+}
+
 // ─── Singleton ───────────────────────────────────────────────────────────────
 
 let instance: MemoryManager | null = null;
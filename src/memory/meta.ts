@@ -0,0 +1,49 @@
+/**
+ * openclaw-tinmem - Store metadata file
+ * Small JSON document kept next to the LanceDB tables (schema version, etc.)
+ */
+
+import { readFileSync, writeFileSync, renameSync, existsSync } from 'fs';
+import { join } from 'path';
+
+import type { RecoveryReport, Snapshot } from '../types.js';
+
+export const META_FILE_NAME = 'tinmem-meta.json';
+
+export interface StoreMeta {
+  /** Version of the last migration applied to this store */
+  schemaVersion?: number;
+  /** When the last migration ran (unix ms) */
+  migratedAt?: number;
+  /** Last startup that repaired writes interrupted by a crash */
+  lastRecovery?: RecoveryReport;
+  /** Labeled table versions, oldest first */
+  snapshots?: Snapshot[];
+  /** When maintenance last ran (unix ms) */
+  lastMaintenanceAt?: number;
+  /** Row count the ANN vector index was last trained on */
+  vectorIndexTrainedRows?: number;
+}
+
+export function readMeta(dbPath: string): StoreMeta {
+  const path = join(dbPath, META_FILE_NAME);
+  if (!existsSync(path)) return {};
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as StoreMeta;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge `patch` into the metadata file. Writes to a temp file and renames it
+ * so a crash never leaves a half-written document behind.
+ */
+export function updateMeta(dbPath: string, patch: Partial<StoreMeta>): StoreMeta {
+  const next = { ...readMeta(dbPath), ...patch };
+  const path = join(dbPath, META_FILE_NAME);
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(next, null, 2), 'utf-8');
+  renameSync(tmp, path);
+  return next;
+}
@@ -0,0 +1,270 @@
+/**
+ * openclaw-tinmem - Schema migrations
+ * Ordered registry of schema changes applied to a store on init
+ *
+ * Every step is idempotent: it checks the live schema first and only reports
+ * or applies what is actually missing. This keeps half-migrated stores (e.g.
+ * a crash between two steps) safe to migrate again.
+ */
+
+import type * as lancedb from '@lancedb/lancedb';
+import {
+  TABLE_NAME, HISTORY_TABLE_NAME, TRASH_TABLE_NAME, RELATIONS_TABLE_NAME, ENTITIES_TABLE_NAME,
+  buildDummyRow, buildHistoryDummyRow, buildTrashDummyRow, buildRelationDummyRow, buildEntityDummyRow,
+  createTableFromDummyRow,
+} from './schema.js';
+import { escapeSqlLiteral } from './sql-safety.js';
+
+export interface MigrationContext {
+  db: lancedb.Connection;
+  dimensions: number;
+}
+
+export interface MigrationStep {
+  /** Human-readable description used in dry-run reports */
+  description: string;
+  /** Whether the step still has work to do against the live store */
+  isNeeded(ctx: MigrationContext): Promise<boolean>;
+  apply(ctx: MigrationContext): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  steps: MigrationStep[];
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  migrations: Array<{ version: number; description: string; changes: string[] }>;
+}
+
+// ─── Step Builders ───────────────────────────────────────────────────────────
+
+async function hasTable(ctx: MigrationContext, name: string): Promise<boolean> {
+  return (await ctx.db.tableNames()).includes(name);
+}
+
+async function columnNames(ctx: MigrationContext, table: string): Promise<Set<string>> {
+  const t = await ctx.db.openTable(table);
+  const schema = await t.schema();
+  return new Set(schema.fields.map(f => f.name));
+}
+
+export function createTableStep(
+  name: string,
+  buildRow: (dimensions: number) => Record<string, unknown>,
+): MigrationStep {
+  return {
+    description: `create table ${name}`,
+    isNeeded: async ctx => !(await hasTable(ctx, name)),
+    apply: async ctx => { await createTableFromDummyRow(ctx.db, name, buildRow(ctx.dimensions)); },
+  };
+}
+
+/**
+ * Add columns to a table, filling existing rows from a SQL expression
+ * (e.g. `CAST(0 AS DOUBLE)`). Columns that already exist are left alone.
+ */
+export function addColumnsStep(
+  table: string,
+  columns: Array<{ name: string; valueSql: string }>,
+): MigrationStep {
+  const missing = async (ctx: MigrationContext) => {
+    if (!(await hasTable(ctx, table))) return [];
+    const existing = await columnNames(ctx, table);
+    return columns.filter(c => !existing.has(c.name));
+  };
+
+  return {
+    description: `add column(s) ${columns.map(c => `${table}.${c.name} = ${c.valueSql}`).join(', ')}`,
+    isNeeded: async ctx => (await missing(ctx)).length > 0,
+    apply: async ctx => {
+      const toAdd = await missing(ctx);
+      if (toAdd.length === 0) return;
+      const t = await ctx.db.openTable(table);
+      await t.addColumns(toAdd.map(c => ({ name: c.name, valueSql: c.valueSql })));
+    },
+  };
+}
+
+/**
+ * Rewrite data in an existing table. `isNeeded` should detect rows that still
+ * need the backfill so re-running the step is a no-op.
+ */
+export function backfillStep(
+  table: string,
+  description: string,
+  isNeeded: (t: lancedb.Table) => Promise<boolean>,
+  run: (t: lancedb.Table, ctx: MigrationContext) => Promise<void>,
+): MigrationStep {
+  return {
+    description: `backfill ${table}: ${description}`,
+    isNeeded: async ctx => (await hasTable(ctx, table)) && isNeeded(await ctx.db.openTable(table)),
+    apply: async ctx => run(await ctx.db.openTable(table), ctx),
+  };
+}
+
+/**
+ * Convert a JSON-encoded string column (e.g. `'["a","b"]'`) into a native
+ * List<Utf8> column of the same name.
+ *
+ * Runs as add `<column>_list` -> drop `<column>` -> rename, each guarded by
+ * the live schema, so a crash part-way through resumes where it stopped.
+ * The SQL conversion handles plain strings; values containing JSON escapes
+ * are rewritten row by row from the parsed JSON.
+ */
+export function jsonListColumnStep(table: string, column: string): MigrationStep {
+  const temp = `${column}_list`;
+  const state = async (ctx: MigrationContext) => {
+    if (!(await hasTable(ctx, table))) return { text: false, temp: false };
+    const t = await ctx.db.openTable(table);
+    const field = (await t.schema()).fields.find(f => f.name === column);
+    return {
+      text: field !== undefined && String(field.type) === 'Utf8',
+      temp: (await columnNames(ctx, table)).has(temp),
+    };
+  };
+
+  return {
+    description: `convert ${table}.${column} from JSON text to a list column`,
+    isNeeded: async ctx => {
+      const s = await state(ctx);
+      return s.text || s.temp;
+    },
+    apply: async ctx => {
+      const t = await ctx.db.openTable(table);
+      let s = await state(ctx);
+
+      if (s.text) {
+        if (!s.temp) {
+          // '["a","b"]' -> 'a","b' -> ['a', 'b']; '[]' -> '' -> []
+          const valueSql = `array_remove_all(string_to_array(regexp_replace(${column}, '^\\["?|"?\\]$', '', 'g'), '","'), '')`;
+          await t.addColumns([{ name: temp, valueSql }]);
+        }
+
+        const escaped = await t.query()
+          .where(`strpos(${column}, '\\') > 0`)
+          .select(['id', column])
+          .limit(Math.max(await t.countRows(), 1))
+          .toArray();
+        for (const row of escaped) {
+          let values: string[] = [];
+          try { values = JSON.parse(row[column] as string) as string[]; } catch { values = []; }
+          await t.update({ where: `id = '${escapeSqlLiteral(row.id as string)}'`, values: { [temp]: values } });
+        }
+
+        await t.dropColumns([column]);
+        s = { text: false, temp: true };
+      }
+
+      if (s.temp) {
+        await t.alterColumns([{ path: temp, rename: column }]);
+      }
+    },
+  };
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+/**
+ * All migrations in order. Never edit a released migration; append a new one.
+ * Version 1 is the original single-table layout, so stores created before
+ * schema versioning existed are treated as version 1.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create memories table',
+    steps: [createTableStep(TABLE_NAME, buildDummyRow)],
+  },
+  {
+    version: 2,
+    description: 'Add version history and trash tables',
+    steps: [
+      createTableStep(HISTORY_TABLE_NAME, buildHistoryDummyRow),
+      createTableStep(TRASH_TABLE_NAME, buildTrashDummyRow),
+    ],
+  },
+  {
+    version: 3,
+    description: 'Add memory expiration (expiresAt, 0 = never)',
+    steps: [
+      addColumnsStep(TABLE_NAME, [{ name: 'expiresAt', valueSql: 'CAST(0 AS DOUBLE)' }]),
+      addColumnsStep(TRASH_TABLE_NAME, [{ name: 'expiresAt', valueSql: 'CAST(0 AS DOUBLE)' }]),
+    ],
+  },
+  {
+    version: 4,
+    description: 'Store tags as a native list column',
+    steps: [
+      jsonListColumnStep(TABLE_NAME, 'tags'),
+      jsonListColumnStep(TRASH_TABLE_NAME, 'tags'),
+    ],
+  },
+  {
+    version: 5,
+    description: 'Add typed relations between memories',
+    steps: [createTableStep(RELATIONS_TABLE_NAME, buildRelationDummyRow)],
+  },
+  {
+    version: 6,
+    description: 'Add the entity registry',
+    steps: [createTableStep(ENTITIES_TABLE_NAME, buildEntityDummyRow)],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]!.version;
+
+// ─── Runner ──────────────────────────────────────────────────────────────────
+
+/**
+ * Apply (or, with `dryRun`, only report) every migration newer than `fromVersion`.
+ * `onApplied` is called after each migration so the caller can persist progress.
+ */
+export async function runMigrations(
+  ctx: MigrationContext,
+  fromVersion: number,
+  options: {
+    dryRun?: boolean;
+    migrations?: Migration[];
+    onApplied?: (version: number) => void | Promise<void>;
+  } = {},
+): Promise<MigrationReport> {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1]!.version : 0;
+
+  if (fromVersion > latest) {
+    throw new Error(
+      `Store schema version ${fromVersion} is newer than this tinmem build supports (${latest}). Upgrade openclaw-tinmem.`,
+    );
+  }
+
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion: fromVersion,
+    dryRun: options.dryRun ?? false,
+    migrations: [],
+  };
+
+  const pending = migrations
+    .filter(m => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    const changes: string[] = [];
+    for (const step of migration.steps) {
+      if (!(await step.isNeeded(ctx))) continue;
+      changes.push(step.description);
+      if (!report.dryRun) await step.apply(ctx);
+    }
+
+    report.migrations.push({ version: migration.version, description: migration.description, changes });
+    report.toVersion = migration.version;
+    if (!report.dryRun) await options.onApplied?.(migration.version);
+  }
+
+  return report;
+}
@@ -0,0 +1,55 @@
+/**
+ * openclaw-tinmem - Maximal marginal relevance
+ * Reorders scored results so near-duplicates don't crowd out everything else
+ */
+
+import type { ScoredMemory } from '../types.js';
+import { cosineSimilarity } from '../embeddings.js';
+
+/**
+ * Pick up to `limit` memories greedily, each time taking the one with the
+ * highest `lambda × score − (1 − lambda) × similarity`, where similarity is
+ * the cosine similarity to the closest memory already picked. lambda = 1 keeps
+ * the relevance order; lower values favour diversity.
+ *
+ * Each picked memory's `diversityPenalty` is the subtracted term at the time
+ * it was picked; its `score` is left as is. Memories without a vector in
+ * `vectors` are treated as unlike every other.
+ */
+export function diversify(
+  memories: ScoredMemory[],
+  vectors: Map<string, number[]>,
+  limit: number,
+  lambda: number,
+): ScoredMemory[] {
+  const remaining = [...memories];
+  const picked: ScoredMemory[] = [];
+  // Similarity of each remaining memory to its closest picked one
+  const closest = new Map<string, number>();
+
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((m, i) => {
+      const value = lambda * m.score - (1 - lambda) * (closest.get(m.id) ?? 0);
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    picked.push({ ...next!, diversityPenalty: (1 - lambda) * (closest.get(next!.id) ?? 0) });
+
+    const nextVector = vectors.get(next!.id);
+    if (!nextVector) continue;
+    for (const m of remaining) {
+      const vector = vectors.get(m.id);
+      if (!vector || vector.length !== nextVector.length) continue;
+      const similarity = cosineSimilarity(nextVector, vector);
+      if (similarity > (closest.get(m.id) ?? 0)) closest.set(m.id, similarity);
+    }
+  }
+
+  return picked;
+}
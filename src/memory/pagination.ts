@@ -0,0 +1,93 @@
+/**
+ * openclaw-tinmem - Cursor pagination helpers
+ * Keyset cursors over (orderBy value, id) so pages never repeat or skip rows
+ */
+
+import type { ListOrderField, ListOrderDir } from '../types.js';
+
+export const LIST_ORDER_FIELDS: readonly ListOrderField[] = ['createdAt', 'updatedAt', 'lastAccessedAt', 'importance', 'accessCount'];
+
+interface CursorPayload {
+  /** Order field the cursor was issued for */
+  o: ListOrderField;
+  /** Order direction the cursor was issued for */
+  d: ListOrderDir;
+  /** Order-field value of the last row on the previous page */
+  v: number;
+  /** ID of the last row on the previous page (tie-breaker) */
+  id: string;
+}
+
+export interface ListPosition {
+  value: number;
+  id: string;
+}
+
+export function assertOrderField(value: string): asserts value is ListOrderField {
+  if (!(LIST_ORDER_FIELDS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid order field: ${value}. Must be one of: ${LIST_ORDER_FIELDS.join(', ')}`);
+  }
+}
+
+export function encodeCursor(orderBy: ListOrderField, orderDir: ListOrderDir, position: ListPosition): string {
+  const payload: CursorPayload = { o: orderBy, d: orderDir, v: position.value, id: position.id };
+  return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor and check that it was issued for the same ordering.
+ * Throws on malformed or mismatched cursors rather than silently restarting.
+ */
+export function decodeCursor(cursor: string, orderBy: ListOrderField, orderDir: ListOrderDir): ListPosition {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as Partial<CursorPayload>;
+  } catch {
+    throw new Error('Invalid list cursor');
+  }
+
+  if (typeof payload.v !== 'number' || !Number.isFinite(payload.v) || typeof payload.id !== 'string') {
+    throw new Error('Invalid list cursor');
+  }
+  if (payload.o !== orderBy || payload.d !== orderDir) {
+    throw new Error(`List cursor was issued for ${payload.o} ${payload.d}, not ${orderBy} ${orderDir}`);
+  }
+
+  return { value: payload.v, id: payload.id };
+}
+
+/**
+ * Compare two positions in list order (ties broken by id in the same direction).
+ */
+export function comparePositions(a: ListPosition, b: ListPosition, orderDir: ListOrderDir): number {
+  const sign = orderDir === 'asc' ? 1 : -1;
+  if (a.value !== b.value) return (a.value - b.value) * sign;
+  if (a.id === b.id) return 0;
+  return (a.id < b.id ? -1 : 1) * sign;
+}
+
+/**
+ * Sort rows into list order and cut out one page after `cursor`.
+ * Returns the page plus the position to encode as the next cursor, if any.
+ */
+export function paginate<T>(
+  rows: T[],
+  positionOf: (row: T) => ListPosition,
+  options: { orderDir: ListOrderDir; limit: number; offset?: number; after?: ListPosition },
+): { page: T[]; next?: ListPosition } {
+  const { orderDir, after } = options;
+
+  let sorted = [...rows].sort((a, b) => comparePositions(positionOf(a), positionOf(b), orderDir));
+  if (after) {
+    sorted = sorted.filter(r => comparePositions(positionOf(r), after, orderDir) > 0);
+  }
+
+  const start = options.offset ?? 0;
+  const page = sorted.slice(start, start + options.limit);
+  const hasMore = sorted.length > start + options.limit;
+
+  return {
+    page,
+    next: hasMore && page.length > 0 ? positionOf(page[page.length - 1]!) : undefined,
+  };
+}
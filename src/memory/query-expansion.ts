@@ -0,0 +1,96 @@
+/**
+ * openclaw-tinmem - LLM query expansion
+ * Rewrites short or indirect queries into sub-queries or a hypothetical memory (HyDE)
+ */
+
+import type { LLMService } from '../llm.js';
+import { safeJsonParse } from '../llm.js';
+import type { QueryExpansionMode } from '../types.js';
+import {
+  QUERY_EXPANSION_SYSTEM_PROMPT,
+  HYDE_SYSTEM_PROMPT,
+  buildQueryExpansionPrompt,
+  buildHydePrompt,
+} from '../prompts.js';
+import type { TinmemConfig } from '../config.js';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export class QueryExpander {
+  /** Rewrites by mode and normalized query, least recently used first */
+  private cache = new Map<string, { texts: string[]; expiresAt: number }>();
+
+  constructor(
+    private llm: LLMService,
+    private config: TinmemConfig,
+  ) {}
+
+  /**
+   * Texts to search besides `query`: up to `maxQueries` sub-queries, or one
+   * hypothetical memory for hyde. Empty when the mode is off or the LLM
+   * fails, so retrieval falls back to the query alone.
+   */
+  async expand(query: string, mode: QueryExpansionMode): Promise<string[]> {
+    if (mode === 'off') return [];
+
+    const key = `${mode}:${query.trim().toLowerCase().replace(/\s+/g, ' ')}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.texts;
+    }
+    this.cache.delete(key);
+
+    let texts: string[];
+    try {
+      texts = mode === 'hyde' ? await this.hypotheticalMemory(query) : await this.subQueries(query);
+    } catch (err) {
+      if (this.config.debug) {
+        console.error('[tinmem] Query expansion error:', err);
+      }
+      return [];
+    }
+
+    const { cacheSize, cacheTtlMinutes } = this.config.retrieval.queryExpansion;
+    if (cacheSize > 0) {
+      this.cache.set(key, { texts, expiresAt: Date.now() + cacheTtlMinutes * MS_PER_MINUTE });
+      while (this.cache.size > cacheSize) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+    }
+    return texts;
+  }
+
+  private async subQueries(query: string): Promise<string[]> {
+    const { maxQueries } = this.config.retrieval.queryExpansion;
+    const response = await this.llm.complete(
+      [
+        { role: 'system', content: QUERY_EXPANSION_SYSTEM_PROMPT },
+        { role: 'user', content: buildQueryExpansionPrompt(query, maxQueries) },
+      ],
+      true,
+    );
+
+    const parsed = safeJsonParse<{ queries?: unknown }>(response, {});
+    if (!Array.isArray(parsed.queries)) return [];
+
+    const seen = new Set([query.trim().toLowerCase()]);
+    const queries: string[] = [];
+    for (const q of parsed.queries) {
+      if (typeof q !== 'string' || !q.trim() || seen.has(q.trim().toLowerCase())) continue;
+      seen.add(q.trim().toLowerCase());
+      queries.push(q.trim());
+    }
+    return queries.slice(0, maxQueries);
+  }
+
+  private async hypotheticalMemory(query: string): Promise<string[]> {
+    const response = await this.llm.complete([
+      { role: 'system', content: HYDE_SYSTEM_PROMPT },
+      { role: 'user', content: buildHydePrompt(query) },
+    ]);
+    const document = response.trim();
+    return document ? [document] : [];
+  }
+}
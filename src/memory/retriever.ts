@@ -1,14 +1,22 @@
 /**
  * openclaw-tinmem - Hybrid retrieval engine
- * Vector search + BM25 full-text search + cross-encoder reranking
+ * Query expansion + vector search + BM25 full-text search + cross-encoder reranking
  */
 
-import type { Memory, RetrievalOptions, RetrievalResult } from '../types.js';
-import type { TinmemDB } from './db.js';
+import type { Memory, MemoryScope, RelationType, RetrievalOptions, RetrievalResult, ScoredMemory } from '../types.js';
+import type { MemoryStore } from './store.js';
 import type { EmbeddingService } from '../embeddings.js';
 import type { RerankerService } from '../reranker.js';
+import type { LLMService } from '../llm.js';
 import { MemoryScorer } from './scorer.js';
-import { buildContextInjection } from '../prompts.js';
+import { combineFused, fuseResults, type FusedMemory } from './fusion.js';
+import { QueryExpander } from './query-expansion.js';
+import { diversify } from './mmr.js';
+import { matchesFilter } from './filter.js';
+import { queryEntityKeys } from './entities.js';
+import { ScopeResolver } from './scopes.js';
+import { cosineSimilarity } from '../embeddings.js';
+import { buildBudgetedContext } from '../prompts.js';
 import type { TinmemConfig } from '../config.js';
 import type { AbstractionLevel } from '../types.js';
 
@@ -22,14 +30,19 @@ const SKIP_PATTERNS = [
 
 export class MemoryRetriever {
   private scorer: MemoryScorer;
+  /** Query rewriting; unavailable when no LLM is given */
+  private expander: QueryExpander | null;
 
   constructor(
-    private db: TinmemDB,
+    private db: MemoryStore,
     private embedding: EmbeddingService,
     private reranker: RerankerService | null,
     private config: TinmemConfig,
+    private scopes: ScopeResolver = new ScopeResolver(config.scopes),
+    llm?: LLMService,
   ) {
     this.scorer = new MemoryScorer(config);
+    this.expander = llm ? new QueryExpander(llm, config) : null;
   }
 
   /**
@@ -43,32 +56,49 @@ export class MemoryRetriever {
       return { memories: [], query, totalFound: 0, timingMs: 0 };
     }
 
+    // Search the inherited scopes too; their results are marked at the end
+    const requestedScopes = options.inheritScopes && options.scope ? options.scope : undefined;
+    if (requestedScopes) {
+      options = { ...options, scope: this.scopes.readScopes(requestedScopes) };
+    }
+
     const limit = options.limit ?? this.config.retrieval.limit;
     const minScore = options.minScore ?? this.config.retrieval.minScore;
     const candidateCount = limit * this.config.retrieval.candidateMultiplier;
 
-    // Generate query embedding
-    const queryVector = await this.embedding.embed(query);
-
-    // Stage 1: Vector search
-    const vectorResults = await this.db.vectorSearch(queryVector, {
-      limit: candidateCount,
-      scope: options.scope,
-      categories: options.categories,
-    });
+    // Stage 0: LLM query expansion (sub-queries or a hypothetical memory)
+    const expansionMode = options.queryExpansion ?? this.config.retrieval.queryExpansion.mode;
+    const expanded = this.expander ? await this.expander.expand(query, expansionMode) : [];
+
+    // Generate query embeddings; a HyDE rewrite is a hypothetical memory, so it's embedded like one
+    const queryVector = await this.embedding.embed(query, 'query');
+    const expandedVectors = expanded.length > 0
+      ? await this.embedding.embedBatch(expanded, expansionMode === 'hyde' ? 'document' : 'query')
+      : [];
+
+    // Stages 1 and 2: Vector and BM25 search
+    const { vectorResults, bm25Results } = await this.search(query, queryVector, candidateCount, options);
+
+    // Stage 2b: Memories of entities the query names, scored as keyword hits
+    let entityMatches = new Set<string>();
+    if (options.expandEntities ?? this.config.retrieval.expandEntities) {
+      const expansion = await this.entityMemories(query, queryVector, vectorResults, candidateCount, options);
+      vectorResults.push(...expansion.added);
+      entityMatches = expansion.matched;
+    }
 
-    // Stage 2: BM25 full-text search (if hybrid enabled)
-    let bm25Results: Array<Memory & { _score: number }> = [];
-    if (this.config.retrieval.hybrid) {
-      bm25Results = await this.db.fullTextSearch(query, {
-        limit: candidateCount,
-        scope: options.scope,
-        categories: options.categories,
-      });
+    // Merge results from both sources, then across expanded queries
+    const fusion = this.config.retrieval.fusion;
+    const fused = [fuseResults(vectorResults, bm25Results, fusion, entityMatches)];
+    for (const [i, text] of expanded.entries()) {
+      const results = await this.search(text, expandedVectors[i]!, candidateCount, options);
+      fused.push(fuseResults(results.vectorResults, results.bm25Results, fusion));
     }
+    const merged = fused.length > 1 ? combineFused(fused) : fused[0]!;
 
-    // Merge results from both sources
-    const merged = this.mergeResults(vectorResults, bm25Results);
+    if (this.config.debug && expanded.length > 0) {
+      console.log(`[tinmem] Expanded query (${expansionMode}) into ${expanded.length} more searches`);
+    }
 
     if (merged.length === 0) {
       return { memories: [], query, totalFound: 0, timingMs: Date.now() - startTime };
@@ -83,10 +113,32 @@ export class MemoryRetriever {
     // Stage 4: Multi-stage scoring
     const scored = this.scorer.score(merged, rerankScores);
 
-    // Filter by minimum score and apply limit
-    const filtered = scored
-      .filter(m => m.score >= minScore)
-      .slice(0, limit);
+    // Filter by minimum score, drop superseded memories and apply limit
+    let filtered = scored.filter(m => m.score >= minScore);
+    if (options.excludeSuperseded ?? this.config.retrieval.excludeSuperseded) {
+      filtered = await this.dropSuperseded(filtered);
+    }
+
+    // Stage 4b: Maximal marginal relevance, trading relevance for diversity
+    if (options.mmr ?? this.config.retrieval.mmr.enabled) {
+      const lambda = options.mmrLambda ?? this.config.retrieval.mmr.lambda;
+      if (!(lambda >= 0 && lambda <= 1)) throw new Error(`Invalid MMR lambda: ${lambda}. Must be between 0 and 1`);
+      filtered = await this.applyMmr(filtered, limit, lambda);
+    }
+    filtered = filtered.slice(0, limit);
+
+    // Stage 5: Pull in memories linked to the results
+    const followRelations = options.followRelations ?? this.config.retrieval.followRelations;
+    if (followRelations.length > 0 && filtered.length > 0) {
+      filtered.push(...await this.linkedMemories(filtered, followRelations, options));
+    }
+
+    if (requestedScopes) {
+      const own = new Set<MemoryScope>(Array.isArray(requestedScopes) ? requestedScopes : [requestedScopes]);
+      for (const m of filtered) {
+        if (!own.has(m.scope)) m.inheritedFrom = m.scope;
+      }
+    }
 
     // Update access counts asynchronously
     void this.updateAccessCounts(filtered.map(m => m.id));
@@ -106,13 +158,14 @@ export class MemoryRetriever {
   }
 
   /**
-   * Build context injection string for agent system prompt
+   * Build context injection string for agent system prompt, within
+   * `maxTokens` (default: recallMaxTokens). Without `level`, the top
+   * `recallFullDetail` memories are rendered in full and the rest as summaries.
    */
   async buildContext(
     query: string,
-    options: RetrievalOptions & { level?: AbstractionLevel } = {},
+    options: RetrievalOptions & { level?: AbstractionLevel; maxTokens?: number } = {},
   ): Promise<string> {
-    const level = options.level ?? 'L1';
     const limit = options.limit ?? this.config.recallLimit;
     const minScore = options.minScore ?? this.config.recallMinScore;
 
@@ -120,48 +173,80 @@ export class MemoryRetriever {
 
     if (result.memories.length === 0) return '';
 
-    return buildContextInjection(result.memories, level);
+    return buildBudgetedContext(result.memories, {
+      maxTokens: options.maxTokens ?? this.config.recallMaxTokens,
+      fullDetail: this.config.recallFullDetail,
+      level: options.level,
+    }).text;
   }
 
-  private mergeResults(
+  /**
+   * Vector search, plus BM25 full-text search when hybrid retrieval is on
+   * (encrypted text can't be indexed)
+   */
+  private async search(
+    text: string,
+    vector: number[],
+    limit: number,
+    options: RetrievalOptions,
+  ): Promise<{ vectorResults: Array<Memory & { _distance: number }>; bm25Results: Array<Memory & { _score: number }> }> {
+    const filters = { limit, scope: options.scope, categories: options.categories, filter: options.filter };
+    const vectorResults = await this.db.vectorSearch(vector, filters);
+
+    let bm25Results: Array<Memory & { _score: number }> = [];
+    if (this.config.retrieval.hybrid && !this.config.encryption.enabled) {
+      bm25Results = await this.db.fullTextSearch(text, filters);
+    }
+    return { vectorResults, bm25Results };
+  }
+
+  /**
+   * Memories linked to entities named in the query. `matched` holds every
+   * such memory ID; `added` holds the ones vector search did not already
+   * return (at most `limit`), with their distance to the query computed here.
+   */
+  private async entityMemories(
+    query: string,
+    queryVector: number[],
     vectorResults: Array<Memory & { _distance: number }>,
-    bm25Results: Array<Memory & { _score: number }>,
-  ): Array<Memory & { vectorScore: number; bm25Score: number }> {
-    const memoryMap = new Map<string, Memory & { vectorScore: number; bm25Score: number }>();
-
-    // Add vector results
-    for (const r of vectorResults) {
-      const vectorScore = 1 - r._distance;
-      memoryMap.set(r.id, {
-        ...r,
-        vectorScore,
-        bm25Score: 0,
-      });
-    }
-
-    // Normalize BM25 scores
-    if (bm25Results.length > 0) {
-      const maxBm25 = Math.max(...bm25Results.map(r => r._score));
-      for (const r of bm25Results) {
-        const normalized = maxBm25 > 0 ? r._score / maxBm25 : 0;
-        if (memoryMap.has(r.id)) {
-          memoryMap.get(r.id)!.bm25Score = normalized;
-        } else {
-          memoryMap.set(r.id, {
-            ...r,
-            vectorScore: 0,
-            bm25Score: normalized,
-          });
-        }
+    limit: number,
+    options: RetrievalOptions,
+  ): Promise<{ matched: Set<string>; added: Array<Memory & { _distance: number }> }> {
+    const matched = new Set<string>();
+    const added: Array<Memory & { _distance: number }> = [];
+
+    const entities = await this.db.findEntities(queryEntityKeys(query), { scope: options.scope });
+    if (entities.length === 0) return { matched, added };
+
+    const found = new Set(vectorResults.map(m => m.id));
+    const scopes = options.scope ? (Array.isArray(options.scope) ? options.scope : [options.scope]) : undefined;
+    const now = Date.now();
+
+    for (const memoryId of new Set(entities.flatMap(e => e.memoryIds))) {
+      if (found.has(memoryId)) {
+        matched.add(memoryId);
+        continue;
       }
+      if (added.length >= limit) continue;
+
+      const memory = await this.db.getById(memoryId, { withVector: true });
+      if (!memory || !this.isEligible(memory, scopes, options, now)) continue;
+
+      const { vector, ...rest } = memory;
+      const similarity = vector?.length === queryVector.length ? cosineSimilarity(queryVector, vector) : 0;
+      added.push({ ...rest, _distance: 1 - similarity });
+      matched.add(memoryId);
     }
 
-    return Array.from(memoryMap.values());
+    if (this.config.debug && matched.size > 0) {
+      console.log(`[tinmem] Query names ${entities.map(e => e.name).join(', ')}: ${matched.size} entity memories`);
+    }
+    return { matched, added };
   }
 
   private async applyReranking(
     query: string,
-    memories: Array<Memory & { vectorScore: number; bm25Score: number }>,
+    memories: FusedMemory[],
   ): Promise<Map<string, number>> {
     if (!this.reranker) return new Map();
 
@@ -179,6 +264,91 @@ export class MemoryRetriever {
     }
   }
 
+  /**
+   * Remove memories that another live memory supersedes. A superseding
+   * memory in the trash no longer hides the one it replaced.
+   */
+  private async dropSuperseded(memories: ScoredMemory[]): Promise<ScoredMemory[]> {
+    if (memories.length === 0) return memories;
+    const relations = await this.db.getRelations(memories.map(m => m.id), { direction: 'in', types: ['supersedes'] });
+
+    const superseded = new Set<string>();
+    for (const relation of relations) {
+      if (superseded.has(relation.targetId)) continue;
+      if (await this.db.getById(relation.sourceId)) superseded.add(relation.targetId);
+    }
+    return memories.filter(m => !superseded.has(m.id));
+  }
+
+  /**
+   * Reorder the best candidates by maximal marginal relevance using their
+   * stored vectors, fetched in one read. Only the top
+   * `limit × candidateMultiplier` are considered.
+   */
+  private async applyMmr(memories: ScoredMemory[], limit: number, lambda: number): Promise<ScoredMemory[]> {
+    const pool = memories.slice(0, limit * this.config.retrieval.candidateMultiplier);
+    const vectors = new Map<string, number[]>();
+    for (const stored of await this.db.getByIds(pool.map(m => m.id), { withVector: true })) {
+      if (stored.vector?.length) vectors.set(stored.id, stored.vector);
+    }
+    return diversify(pool, vectors, limit, lambda);
+  }
+
+  /**
+   * Memories linked to `results` by `types` that also satisfy the request's
+   * scope, category and filter. Each takes the score of the result it was
+   * reached from; at most `retrieval.maxLinked` are added.
+   */
+  private async linkedMemories(
+    results: ScoredMemory[],
+    types: RelationType[],
+    options: RetrievalOptions,
+  ): Promise<ScoredMemory[]> {
+    const maxLinked = this.config.retrieval.maxLinked;
+    if (maxLinked === 0) return [];
+
+    const byId = new Map(results.map(m => [m.id, m]));
+    const scopes = options.scope ? (Array.isArray(options.scope) ? options.scope : [options.scope]) : undefined;
+    const now = Date.now();
+    const linked: ScoredMemory[] = [];
+
+    const relations = await this.db.getRelations([...byId.keys()], { types });
+    // Follow links from the best results first
+    const parentOf = (r: { sourceId: string; targetId: string }) => byId.get(r.sourceId) ?? byId.get(r.targetId)!;
+    relations.sort((a, b) => parentOf(b).score - parentOf(a).score);
+
+    for (const relation of relations) {
+      if (linked.length >= maxLinked) break;
+      const parent = parentOf(relation);
+      const otherId = parent.id === relation.sourceId ? relation.targetId : relation.sourceId;
+      if (byId.has(otherId)) continue;
+
+      const memory = await this.db.getById(otherId);
+      if (!memory || !this.isEligible(memory, scopes, options, now)) continue;
+
+      const scored: ScoredMemory = {
+        ...memory,
+        score: parent.score,
+        vectorScore: 0,
+        bm25Score: 0,
+        recencyBoost: 0,
+        importanceBoost: 0,
+        fusion: parent.fusion,
+        linkedFrom: { memoryId: parent.id, type: relation.type },
+      };
+      byId.set(otherId, scored);
+      linked.push(scored);
+    }
+    return linked;
+  }
+
+  private isEligible(memory: Memory, scopes: MemoryScope[] | undefined, options: RetrievalOptions, now: number): boolean {
+    if (memory.expiresAt !== undefined && memory.expiresAt <= now) return false;
+    if (scopes && !scopes.includes(memory.scope)) return false;
+    if (options.categories?.length && !options.categories.includes(memory.category)) return false;
+    return matchesFilter(memory, options.filter);
+  }
+
   private shouldSkipQuery(query: string): boolean {
     return SKIP_PATTERNS.some(p => p.test(query.trim()));
   }
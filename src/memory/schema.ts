@@ -0,0 +1,106 @@
+/**
+ * openclaw-tinmem - LanceDB table layout
+ * Table names and dummy rows that define each table's current schema
+ */
+
+import type * as lancedb from '@lancedb/lancedb';
+
+export const TABLE_NAME = 'memories';
+export const HISTORY_TABLE_NAME = 'memory_history';
+export const TRASH_TABLE_NAME = 'memory_trash';
+export const RELATIONS_TABLE_NAME = 'memory_relations';
+export const ENTITIES_TABLE_NAME = 'memory_entities';
+export const INIT_SENTINEL_ID = '__tinmem_init__';
+
+// ─── Dummy Rows ──────────────────────────────────────────────────────────────
+// Used to create tables with the correct schema via db.createTable([row]).
+// This avoids createEmptyTable(schema) which has a LanceDB 0.14 bug with
+// FixedSizeList when apache-arrow schema objects are passed directly.
+
+export function buildDummyRow(dimensions: number): Record<string, unknown> {
+  return {
+    id: INIT_SENTINEL_ID,
+    headline: '',
+    summary: '',
+    content: '',
+    category: 'profile',
+    scope: 'global',
+    importance: 0.0,
+    createdAt: 0.0,
+    updatedAt: 0.0,
+    accessCount: 0.0,
+    lastAccessedAt: 0.0,
+    // A non-empty list so LanceDB can infer List<Utf8>
+    tags: [''],
+    metadata: '{}',
+    expiresAt: 0.0,
+    vector: Array.from({ length: dimensions }, () => 0),
+  };
+}
+
+export function buildTrashDummyRow(dimensions: number): Record<string, unknown> {
+  return {
+    ...buildDummyRow(dimensions),
+    deletedAt: 0.0,
+    deletedBy: 'api',
+    deleteReason: '',
+  };
+}
+
+export function buildHistoryDummyRow(dimensions: number): Record<string, unknown> {
+  return {
+    id: INIT_SENTINEL_ID,
+    memoryId: INIT_SENTINEL_ID,
+    version: 0.0,
+    operation: 'update',
+    actor: 'api',
+    reason: '',
+    createdAt: 0.0,
+    snapshot: '{}',
+    vector: Array.from({ length: dimensions }, () => 0),
+  };
+}
+
+export function buildRelationDummyRow(): Record<string, unknown> {
+  return {
+    id: INIT_SENTINEL_ID,
+    sourceId: INIT_SENTINEL_ID,
+    targetId: INIT_SENTINEL_ID,
+    type: 'relatedTo',
+    createdAt: 0.0,
+    actor: 'api',
+    reason: '',
+  };
+}
+
+export function buildEntityDummyRow(): Record<string, unknown> {
+  return {
+    id: INIT_SENTINEL_ID,
+    name: '',
+    type: 'other',
+    aliases: [''],
+    // Normalized name and aliases, matched with array_has_any()
+    keys: [''],
+    attributes: '{}',
+    scope: 'global',
+    memoryIds: [''],
+    createdAt: 0.0,
+    updatedAt: 0.0,
+  };
+}
+
+/**
+ * Create a table whose schema is inferred from a dummy row, then remove the row.
+ * LanceDB's sanitize.js checks `listSize in typeLike` and throws when passed external
+ * Arrow schema objects in some environments. Inserting a dummy row lets LanceDB infer
+ * the schema from JS data instead.
+ */
+export async function createTableFromDummyRow(
+  db: lancedb.Connection,
+  name: string,
+  dummyRow: Record<string, unknown>,
+): Promise<lancedb.Table> {
+  const table = await db.createTable(name, [dummyRow], { mode: 'create' });
+  await table.delete(`id = '${INIT_SENTINEL_ID}'`);
+  return table;
+}
@@ -0,0 +1,112 @@
+/**
+ * openclaw-tinmem - Scope resolver
+ * Inheritance chains and read/write policies for memory scopes, shared by
+ * the retriever, the agent hooks, the memory tools and the CLI
+ */
+
+import type { TinmemConfig } from '../config.js';
+import type { Memory, MemoryScope, ResolvedScope, ScopeRule, ScopeSummary } from '../types.js';
+import { assertScope } from './sql-safety.js';
+
+type ScopesConfig = TinmemConfig['scopes'];
+
+/** A rule key for every scope of one type, e.g. "agent:*" */
+const TYPE_PATTERN_RE = /^(agent|project|user|custom):\*$/;
+
+export class ScopeResolver {
+  constructor(private config: ScopesConfig) {
+    for (const s of config.defaultInherits) assertScope(s);
+    for (const [key, rule] of Object.entries(config.rules)) {
+      if (!TYPE_PATTERN_RE.test(key)) assertScope(key);
+      for (const s of rule.inherits ?? []) assertScope(s);
+    }
+  }
+
+  /**
+   * The rule for a scope: its own entry, else its type's pattern, else the
+   * defaults (read and write allowed, inheriting `defaultInherits`, limited
+   * to `defaultMaxMemories`).
+   */
+  rule(scope: MemoryScope): ScopeRule {
+    assertScope(scope);
+    const type = scope.split(':')[0];
+    const configured = this.config.rules[scope] ?? this.config.rules[`${type}:*`];
+    const fallback = scope === 'global' ? [] : this.config.defaultInherits;
+
+    return {
+      inherits: ((configured?.inherits ?? fallback) as MemoryScope[]).filter(s => s !== scope),
+      read: configured?.read ?? true,
+      write: configured?.write ?? true,
+      maxMemories: configured?.maxMemories ?? this.config.defaultMaxMemories,
+    };
+  }
+
+  /**
+   * Every scope read for `scope`: the scope itself, then its inherited
+   * scopes breadth-first (nearest first). Each scope appears once, cycles
+   * are cut, and inherited scopes with `read: false` are skipped along with
+   * anything reachable only through them.
+   */
+  resolve(scope: MemoryScope): ResolvedScope[] {
+    const resolved: ResolvedScope[] = [{ scope, depth: 0 }];
+    const seen = new Set<MemoryScope>([scope]);
+
+    for (let i = 0; i < resolved.length; i++) {
+      const current = resolved[i]!;
+      for (const parent of this.rule(current.scope).inherits) {
+        if (seen.has(parent)) continue;
+        seen.add(parent);
+        if (!this.rule(parent).read) continue;
+        resolved.push({ scope: parent, depth: current.depth + 1, via: current.scope });
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Union of the resolved scopes of each requested scope, requested ones first.
+   */
+  readScopes(scopes: MemoryScope | MemoryScope[]): MemoryScope[] {
+    const requested = Array.isArray(scopes) ? scopes : [scopes];
+    const all = new Set<MemoryScope>(requested);
+    for (const scope of requested) {
+      for (const r of this.resolve(scope)) all.add(r.scope);
+    }
+    return [...all];
+  }
+
+  canWrite(scope: MemoryScope): boolean {
+    return this.rule(scope).write;
+  }
+
+  /** Most memories `scope` may hold, or undefined when it is unlimited */
+  quota(scope: MemoryScope): number | undefined {
+    return this.rule(scope).maxMemories;
+  }
+}
+
+/** The scope an agent reads and writes by default */
+export function agentScope(agentId: string | undefined, defaultScope: MemoryScope): MemoryScope {
+  return agentId ? `agent:${agentId}` : defaultScope;
+}
+
+/**
+ * Per-scope counts, last activity and average importance, largest scope
+ * first. Ties are ordered by plain string comparison, like SQLite's default
+ * collation.
+ */
+export function summarizeScopes(
+  rows: Iterable<Pick<Memory, 'scope' | 'importance' | 'updatedAt' | 'lastAccessedAt'>>,
+): ScopeSummary[] {
+  const totals = new Map<MemoryScope, { count: number; lastActivityAt: number; importance: number }>();
+  for (const row of rows) {
+    const t = totals.get(row.scope) ?? { count: 0, lastActivityAt: 0, importance: 0 };
+    t.count++;
+    t.importance += row.importance;
+    t.lastActivityAt = Math.max(t.lastActivityAt, row.updatedAt, row.lastAccessedAt);
+    totals.set(row.scope, t);
+  }
+  return [...totals.entries()]
+    .map(([scope, t]) => ({ scope, count: t.count, lastActivityAt: t.lastActivityAt, avgImportance: t.importance / t.count }))
+    .sort((a, b) => b.count - a.count || (a.scope < b.scope ? -1 : a.scope > b.scope ? 1 : 0));
+}
@@ -3,8 +3,9 @@
  * Combines: vector similarity + BM25 + reranker + recency boost + importance weight + time decay
  */
 
-import type { Memory, ScoredMemory } from '../types.js';
+import type { ScoredMemory } from '../types.js';
 import type { TinmemConfig } from '../config.js';
+import type { FusedMemory } from './fusion.js';
 
 const MS_PER_DAY = 86400 * 1000;
 
@@ -18,11 +19,11 @@ export class MemoryScorer {
   /**
    * Score and rank memories using multi-stage pipeline.
    *
-   * @param memories - Memories with their raw retrieval scores
+   * @param memories - Memories with their fused retrieval scores (any fusion strategy)
    * @param rerankScores - Optional scores from cross-encoder reranker
    */
   score(
-    memories: Array<Memory & { vectorScore: number; bm25Score: number }>,
+    memories: FusedMemory[],
     rerankScores?: Map<string, number>,
   ): ScoredMemory[] {
     const now = Date.now();
@@ -0,0 +1,41 @@
+/**
+ * openclaw-tinmem - Snapshot helpers
+ * Lookup, automatic labels and retention for labeled store snapshots
+ */
+
+import type { Snapshot, SnapshotTrigger } from '../types.js';
+
+export interface SnapshotRetention {
+  /** Keep at most this many snapshots */
+  retain: number;
+  /** Drop snapshots older than this many days */
+  maxAgeDays?: number;
+}
+
+/**
+ * Label for a snapshot taken automatically, e.g. `before-reembed-2025-01-31T12:00:00.000Z`.
+ */
+export function autoSnapshotLabel(trigger: Exclude<SnapshotTrigger, 'manual'>, now = Date.now()): string {
+  return `before-${trigger}-${new Date(now).toISOString()}`;
+}
+
+/**
+ * Find a snapshot by exact ID, exact label, or unambiguous ID prefix.
+ */
+export function findSnapshot(snapshots: Snapshot[], ref: string): Snapshot | undefined {
+  const exact = snapshots.find(s => s.id === ref || s.label === ref);
+  if (exact) return exact;
+
+  const byPrefix = snapshots.filter(s => s.id.startsWith(ref));
+  return byPrefix.length === 1 ? byPrefix[0] : undefined;
+}
+
+/**
+ * Snapshots that fall outside the retention policy: everything beyond the
+ * newest `retain`, plus anything older than `maxAgeDays`.
+ */
+export function snapshotsToPrune(snapshots: Snapshot[], policy: SnapshotRetention, now = Date.now()): Snapshot[] {
+  const cutoff = policy.maxAgeDays !== undefined ? now - policy.maxAgeDays * 86400 * 1000 : -Infinity;
+  const newestFirst = [...snapshots].sort((a, b) => b.createdAt - a.createdAt);
+  return newestFirst.filter((s, i) => i >= policy.retain || s.createdAt < cutoff);
+}
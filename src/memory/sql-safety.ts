@@ -17,6 +17,14 @@ const VALID_CATEGORIES = new Set<string>([
   'profile', 'preferences', 'entities', 'events', 'cases', 'patterns',
 ]);
 
+const VALID_RELATION_TYPES = new Set<string>([
+  'supersedes', 'relatedTo', 'derivedFrom', 'mergedFrom',
+]);
+
+const VALID_ENTITY_TYPES = new Set<string>([
+  'person', 'project', 'organization', 'tool', 'place', 'other',
+]);
+
 const SCOPE_RE = /^(global|agent:[a-zA-Z0-9_.\-]+|project:[a-zA-Z0-9_.\-]+|user:[a-zA-Z0-9_.\-]+|custom:[a-zA-Z0-9_.\-]+)$/;
 
 /**
@@ -39,6 +47,24 @@ export function assertCategory(value: string): void {
   }
 }
 
+/**
+ * Validate that a relation type is one of the four allowed values.
+ */
+export function assertRelationType(value: string): void {
+  if (!VALID_RELATION_TYPES.has(value)) {
+    throw new Error(`Invalid relation type: ${value}. Must be one of: ${[...VALID_RELATION_TYPES].join(', ')}`);
+  }
+}
+
+/**
+ * Validate that an entity type is one of the allowed values.
+ */
+export function assertEntityType(value: string): void {
+  if (!VALID_ENTITY_TYPES.has(value)) {
+    throw new Error(`Invalid entity type: ${value}. Must be one of: ${[...VALID_ENTITY_TYPES].join(', ')}`);
+  }
+}
+
 /**
  * Validate that a scope matches allowed formats:
  *   global | agent:<id> | project:<id> | user:<id> | custom:<name>
@@ -50,6 +76,39 @@ export function assertScope(value: string): void {
   }
 }
 
+const METADATA_KEY_RE = /^[a-zA-Z0-9_.\-]{1,64}$/;
+
+/**
+ * Validate a tag used in a filter: non-empty, at most 100 characters and
+ * free of control characters. Quotes are allowed (they are escaped).
+ */
+export function assertTag(value: string): void {
+  const hasControlChar = typeof value === 'string' && [...value].some(c => c.charCodeAt(0) < 0x20);
+  if (typeof value !== 'string' || value.length === 0 || value.length > 100 || hasControlChar) {
+    throw new Error(`Invalid tag: ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Validate a metadata key used in a filter: alphanumerics, underscores,
+ * dots and hyphens only (1-64 characters).
+ */
+export function assertMetadataKey(value: string): void {
+  if (!METADATA_KEY_RE.test(value)) {
+    throw new Error(`Invalid metadata key: ${value}. Use letters, digits, "_", "." or "-"`);
+  }
+}
+
+/**
+ * Validate that a numeric filter bound is a finite number, so it can be
+ * interpolated into a WHERE clause as-is.
+ */
+export function assertFiniteNumber(value: unknown, name: string): asserts value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Invalid ${name}: ${String(value)}. Must be a finite number`);
+  }
+}
+
 // ─── Escaping ────────────────────────────────────────────────────────────────
 
 /**
@@ -0,0 +1,1097 @@
+/**
+ * openclaw-tinmem - SQLite storage backend
+ * For targets that can't ship LanceDB's native binaries.
+ *
+ * - BM25 stage: SQLite FTS5 (external-content table kept in sync by triggers)
+ * - Vector stage: Float32 blobs with brute-force cosine similarity
+ * - Writes run in SQLite transactions (WAL mode), so updates are crash-safe
+ *   and concurrent processes are serialized by SQLite's own locking.
+ */
+
+import { mkdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type BetterSqlite3 from 'better-sqlite3';
+
+import type {
+  Memory, MemoryRecord, MemoryScope, MemoryCategory, MemoryStats,
+  ChangeContext, MemoryVersion, TrashedMemory,
+  ListOptions, ListResult, SweepAction, MemoryFilter, TagCount, TagListOptions,
+  MemoryActor, MemoryRelation, RelationQuery, RelationType, Entity, EntityListOptions, EntityType,
+  ScopeSummary,
+} from '../types.js';
+import type {
+  EntityUpdate, MemoryStore, MemoryUpdate, NewEntity, NewMemory, NewRelation, SearchFilterOptions, StoreArchive,
+} from './store.js';
+import { assertUuid, assertScope, assertCategory, assertRelationType, assertEntityType } from './sql-safety.js';
+import { assertOrderField, decodeCursor, encodeCursor } from './pagination.js';
+import { assertFilter } from './filter.js';
+import { cosineSimilarity } from '../embeddings.js';
+import { assertEntity, entityKeys, normalizeEntityName, sortEntities } from './entities.js';
+import { recordsHistory } from './store.js';
+
+export const SQLITE_FILE_NAME = 'tinmem.sqlite';
+
+export interface SqliteStoreOptions {
+  /** How long a write waits for another process's transaction (ms) */
+  busyTimeoutMs?: number;
+}
+
+const MEMORY_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  headline TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  content TEXT NOT NULL,
+  category TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  importance REAL NOT NULL,
+  createdAt REAL NOT NULL,
+  updatedAt REAL NOT NULL,
+  accessCount INTEGER NOT NULL,
+  lastAccessedAt REAL NOT NULL,
+  tags TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  expiresAt REAL NOT NULL DEFAULT 0,
+  vector BLOB NOT NULL`;
+
+/**
+ * Schema changes in order, tracked with PRAGMA user_version.
+ * Never edit a released entry; append a new one.
+ */
+const SQLITE_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE memories (${MEMORY_COLUMNS});
+  CREATE INDEX memories_scope ON memories(scope);
+  CREATE INDEX memories_expires ON memories(expiresAt);
+
+  CREATE VIRTUAL TABLE memories_fts USING fts5(
+    headline, summary, content, tags,
+    content='memories', content_rowid='rowid', tokenize='unicode61'
+  );
+  CREATE TRIGGER memories_ai AFTER INSERT ON memories BEGIN
+    INSERT INTO memories_fts(rowid, headline, summary, content, tags)
+    VALUES (new.rowid, new.headline, new.summary, new.content, new.tags);
+  END;
+  CREATE TRIGGER memories_ad AFTER DELETE ON memories BEGIN
+    INSERT INTO memories_fts(memories_fts, rowid, headline, summary, content, tags)
+    VALUES ('delete', old.rowid, old.headline, old.summary, old.content, old.tags);
+  END;
+  CREATE TRIGGER memories_au AFTER UPDATE ON memories BEGIN
+    INSERT INTO memories_fts(memories_fts, rowid, headline, summary, content, tags)
+    VALUES ('delete', old.rowid, old.headline, old.summary, old.content, old.tags);
+    INSERT INTO memories_fts(rowid, headline, summary, content, tags)
+    VALUES (new.rowid, new.headline, new.summary, new.content, new.tags);
+  END;
+
+  CREATE TABLE memory_trash (${MEMORY_COLUMNS},
+    deletedAt REAL NOT NULL,
+    deletedBy TEXT NOT NULL,
+    deleteReason TEXT NOT NULL DEFAULT ''
+  );
+
+  CREATE TABLE memory_history (
+    id TEXT PRIMARY KEY,
+    memoryId TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    operation TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT NOT NULL DEFAULT '',
+    createdAt REAL NOT NULL,
+    snapshot TEXT NOT NULL,
+    vector BLOB,
+    UNIQUE (memoryId, version)
+  );
+  `,
+  `
+  CREATE TABLE memory_relations (
+    id TEXT PRIMARY KEY,
+    sourceId TEXT NOT NULL,
+    targetId TEXT NOT NULL,
+    type TEXT NOT NULL,
+    createdAt REAL NOT NULL,
+    actor TEXT NOT NULL,
+    reason TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX memory_relations_source ON memory_relations(sourceId);
+  CREATE INDEX memory_relations_target ON memory_relations(targetId);
+  `,
+  `
+  CREATE TABLE memory_entities (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    aliases TEXT NOT NULL,
+    keys TEXT NOT NULL,
+    attributes TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    memoryIds TEXT NOT NULL,
+    createdAt REAL NOT NULL,
+    updatedAt REAL NOT NULL
+  );
+  CREATE INDEX memory_entities_scope ON memory_entities(scope);
+  `,
+];
+
+type Row = Record<string, unknown>;
+
+function encodeVector(v: number[]): Buffer {
+  return Buffer.from(new Float32Array(v).buffer);
+}
+
+function decodeVector(blob: unknown): number[] {
+  if (!Buffer.isBuffer(blob) || blob.byteLength === 0) return [];
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+/**
+ * Turn free text into an FTS5 query that ORs the quoted terms, so user input
+ * can never be parsed as FTS5 syntax.
+ */
+function toFtsQuery(query: string): string | null {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms || terms.length === 0) return null;
+  return [...new Set(terms)].map(t => `"${t}"`).join(' OR ');
+}
+
+async function loadDriver(): Promise<typeof BetterSqlite3> {
+  try {
+    const mod = await import('better-sqlite3');
+    return mod.default;
+  } catch {
+    throw new Error(
+      'The sqlite storage backend requires the optional dependency better-sqlite3. ' +
+      'Install it with `npm install better-sqlite3`.',
+    );
+  }
+}
+
+export class SqliteStore implements MemoryStore {
+  private db!: BetterSqlite3.Database;
+  private initialized = false;
+
+  constructor(
+    private dbPath: string,
+    private dimensions: number,
+    private options: SqliteStoreOptions = {},
+  ) {}
+
+  get filePath(): string {
+    return join(this.dbPath, SQLITE_FILE_NAME);
+  }
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+
+    const Database = await loadDriver();
+    mkdirSync(this.dbPath, { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma(`busy_timeout = ${Math.floor(this.options.busyTimeoutMs ?? 10000)}`);
+
+    const current = this.db.pragma('user_version', { simple: true }) as number;
+    if (current > SQLITE_MIGRATIONS.length) {
+      throw new Error(
+        `SQLite store schema version ${current} is newer than this tinmem build supports (${SQLITE_MIGRATIONS.length}). Upgrade openclaw-tinmem.`,
+      );
+    }
+    for (let v = current; v < SQLITE_MIGRATIONS.length; v++) {
+      this.db.transaction(() => {
+        this.db.exec(SQLITE_MIGRATIONS[v]!);
+        this.db.pragma(`user_version = ${v + 1}`);
+      }).immediate();
+    }
+
+    this.initialized = true;
+  }
+
+  async close(): Promise<void> {
+    if (this.initialized) this.db.close();
+    this.initialized = false;
+  }
+
+  private ensureInit(): void {
+    if (!this.initialized) throw new Error('SqliteStore not initialized. Call init() first.');
+  }
+
+  private assertVector(vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, expected ${this.dimensions}`);
+    }
+  }
+
+  /**
+   * Build WHERE clauses (with bound parameters) for scope/category filters,
+   * the structured filter and, unless disabled, the expiry check.
+   */
+  private buildFilters(
+    options: {
+      scope?: MemoryScope | MemoryScope[];
+      categories?: MemoryCategory[];
+      filter?: MemoryFilter;
+      includeExpired?: boolean;
+    },
+    alias = '',
+  ): { clauses: string[]; params: unknown[] } {
+    const col = (name: string) => `${alias}${name}`;
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+
+    if (!options.includeExpired) {
+      clauses.push(`(${col('expiresAt')} = 0 OR ${col('expiresAt')} > ?)`);
+      params.push(Date.now());
+    }
+    if (options.scope) {
+      const scopes = Array.isArray(options.scope) ? options.scope : [options.scope];
+      for (const s of scopes) assertScope(s);
+      clauses.push(`${col('scope')} IN (${scopes.map(() => '?').join(', ')})`);
+      params.push(...scopes);
+    }
+    if (options.categories && options.categories.length > 0) {
+      for (const c of options.categories) assertCategory(c);
+      clauses.push(`${col('category')} IN (${options.categories.map(() => '?').join(', ')})`);
+      params.push(...options.categories);
+    }
+    if (options.filter) {
+      const compiled = this.compileFilter(options.filter, col);
+      clauses.push(...compiled.clauses);
+      params.push(...compiled.params);
+    }
+    return { clauses, params };
+  }
+
+  private compileFilter(filter: MemoryFilter, col: (name: string) => string): { clauses: string[]; params: unknown[] } {
+    assertFilter(filter);
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    const hasTag = (count: number) =>
+      `EXISTS (SELECT 1 FROM json_each(${col('tags')}) WHERE value IN (${Array(count).fill('?').join(', ')}))`;
+
+    const any = filter.tags?.any ?? [];
+    if (any.length > 0) {
+      clauses.push(hasTag(any.length));
+      params.push(...any);
+    }
+    for (const tag of filter.tags?.all ?? []) {
+      clauses.push(hasTag(1));
+      params.push(tag);
+    }
+    const prefixes = filter.tags?.prefix ?? [];
+    if (prefixes.length > 0) {
+      clauses.push(
+        `EXISTS (SELECT 1 FROM json_each(${col('tags')}) WHERE ${prefixes.map(() => 'instr(value, ?) = 1').join(' OR ')})`,
+      );
+      params.push(...prefixes);
+    }
+
+    const ranges: Array<[string, number | undefined, number | undefined]> = [
+      ['importance', filter.importance?.min, filter.importance?.max],
+      ['createdAt', filter.createdAt?.from, filter.createdAt?.to],
+      ['updatedAt', filter.updatedAt?.from, filter.updatedAt?.to],
+      ['lastAccessedAt', filter.lastAccessedAt?.from, filter.lastAccessedAt?.to],
+    ];
+    for (const [name, min, max] of ranges) {
+      if (min !== undefined) { clauses.push(`${col(name)} >= ?`); params.push(min); }
+      if (max !== undefined) { clauses.push(`${col(name)} <= ?`); params.push(max); }
+    }
+
+    for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+      const path = `$."${key}"`;
+      // json_extract() turns true/false into 1/0, so compare JSON types too
+      const types = typeof value === 'boolean' ? [String(value)] : typeof value === 'number' ? ['integer', 'real'] : ['text'];
+      clauses.push(
+        `json_type(${col('metadata')}, ?) IN (${types.map(() => '?').join(', ')})` +
+        (typeof value === 'boolean' ? '' : ` AND json_extract(${col('metadata')}, ?) = ?`),
+      );
+      params.push(path, ...types);
+      if (typeof value !== 'boolean') params.push(path, value);
+    }
+
+    return { clauses, params };
+  }
+
+  // ─── CRUD ────────────────────────────────────────────────────────────────
+
+  async insert(memory: NewMemory): Promise<Memory> {
+    this.ensureInit();
+    this.assertVector(memory.vector);
+
+    const now = Date.now();
+    const record: MemoryRecord = {
+      ...memory,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+      accessCount: 0,
+      lastAccessedAt: now,
+    };
+    this.insertRow('memories', this.toRow(record));
+    return this.fromRow(this.toRow(record));
+  }
+
+  async bulkInsert(records: MemoryRecord[]): Promise<void> {
+    this.ensureInit();
+    for (const r of records) this.assertVector(r.vector);
+    this.db.transaction(() => {
+      for (const r of records) this.insertRow('memories', this.toRow(r));
+    }).immediate();
+  }
+
+  async update(id: string, updates: MemoryUpdate, change: ChangeContext = { actor: 'api' }): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+    if (updates.vector) this.assertVector(updates.vector);
+
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as Row | undefined;
+      if (!row) return null;
+      const existing: MemoryRecord = { ...this.fromRow(row), vector: decodeVector(row.vector) };
+
+      if (recordsHistory(updates)) this.appendHistory(existing, change);
+
+      // Ignore keys explicitly set to undefined so they don't erase existing fields
+      const defined = Object.fromEntries(
+        Object.entries(updates).filter(([, v]) => v !== undefined),
+      ) as MemoryUpdate;
+
+      const updated: MemoryRecord = {
+        ...existing,
+        ...defined,
+        expiresAt: updates.expiresAt === null ? undefined : (updates.expiresAt ?? existing.expiresAt),
+        vector: updates.vector ?? existing.vector,
+        updatedAt: Date.now(),
+      };
+
+      const next = this.toRow(updated);
+      const columns = Object.keys(next).filter(c => c !== 'id');
+      this.db
+        .prepare(`UPDATE memories SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`)
+        .run(next);
+
+      return this.fromRow(next);
+    }).immediate();
+  }
+
+  async getById(id: string, options: { withVector?: boolean } = {}): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as Row | undefined;
+    if (!row) return null;
+    const memory = this.fromRow(row);
+    if (options.withVector) memory.vector = decodeVector(row.vector);
+    return memory;
+  }
+
+  async getByIds(ids: string[], options: { withVector?: boolean } = {}): Promise<Memory[]> {
+    this.ensureInit();
+    if (ids.length === 0) return [];
+    for (const id of ids) assertUuid(id);
+    const rows = this.db
+      .prepare(`SELECT * FROM memories WHERE id IN (${ids.map(() => '?').join(', ')})`)
+      .all(...ids) as Row[];
+    return rows.map(row => {
+      const memory = this.fromRow(row);
+      if (options.withVector) memory.vector = decodeVector(row.vector);
+      return memory;
+    });
+  }
+
+  async incrementAccessCount(id: string): Promise<void> {
+    this.ensureInit();
+    assertUuid(id);
+    this.db
+      .prepare('UPDATE memories SET accessCount = accessCount + 1, lastAccessedAt = ? WHERE id = ?')
+      .run(Date.now(), id);
+  }
+
+  // ─── Trash ───────────────────────────────────────────────────────────────
+
+  async delete(id: string, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.moveToTrash('id = ?', [id], change).length > 0;
+  }
+
+  async deleteMany(ids: string[], change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureInit();
+    if (ids.length === 0) return [];
+    for (const id of ids) assertUuid(id);
+    return this.moveToTrash(`id IN (${ids.map(() => '?').join(', ')})`, ids, change);
+  }
+
+  async deleteByScope(scope: MemoryScope, change: Omit<ChangeContext, 'operation'> = { actor: 'api' }): Promise<string[]> {
+    this.ensureInit();
+    assertScope(scope);
+    return this.moveToTrash('scope = ?', [scope], change);
+  }
+
+  private moveToTrash(where: string, params: unknown[], change: Omit<ChangeContext, 'operation'>): string[] {
+    return this.db.transaction(() => {
+      const rows = this.db.prepare(`SELECT * FROM memories WHERE ${where}`).all(...params) as Row[];
+      if (rows.length === 0) return [];
+
+      const deletedAt = Date.now();
+      for (const row of rows) {
+        this.insertRow('memory_trash', {
+          ...row,
+          deletedAt,
+          deletedBy: change.actor,
+          deleteReason: change.reason ?? '',
+        });
+      }
+      this.db.prepare(`DELETE FROM memories WHERE ${where}`).run(...params);
+      return rows.map(r => r.id as string);
+    }).immediate();
+  }
+
+  async listTrash(options: { scope?: MemoryScope; limit?: number } = {}): Promise<TrashedMemory[]> {
+    this.ensureInit();
+    if (options.scope) assertScope(options.scope);
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM memory_trash ${options.scope ? 'WHERE scope = ?' : ''} ORDER BY deletedAt DESC LIMIT ?`,
+      )
+      .all(...(options.scope ? [options.scope] : []), options.limit ?? 100) as Row[];
+
+    return rows.map(row => this.trashFromRow(row));
+  }
+
+  async restore(id: string): Promise<Memory | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT * FROM memory_trash WHERE id = ?').get(id) as Row | undefined;
+      if (!row) return null;
+
+      const { deletedAt: _deletedAt, deletedBy: _deletedBy, deleteReason: _deleteReason, ...memoryRow } = row;
+      this.insertRow('memories', memoryRow);
+      this.db.prepare('DELETE FROM memory_trash WHERE id = ?').run(id);
+      return this.fromRow(memoryRow);
+    }).immediate();
+  }
+
+  async purgeTrash(options: { olderThan?: number; ids?: string[] } = {}): Promise<number> {
+    this.ensureInit();
+    if (options.olderThan !== undefined && !Number.isFinite(options.olderThan)) {
+      throw new Error(`Invalid timestamp: ${options.olderThan}`);
+    }
+    if (options.ids?.length === 0) return 0;
+    for (const id of options.ids ?? []) assertUuid(id);
+
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (options.olderThan !== undefined) {
+      clauses.push('deletedAt < ?');
+      params.push(options.olderThan);
+    }
+    if (options.ids) {
+      clauses.push(`id IN (${options.ids.map(() => '?').join(', ')})`);
+      params.push(...options.ids);
+    }
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+    return this.db.transaction(() => {
+      this.db
+        .prepare(`DELETE FROM memory_history WHERE memoryId IN (SELECT id FROM memory_trash ${where})`)
+        .run(...params);
+      this.db
+        .prepare(
+          `DELETE FROM memory_relations WHERE sourceId IN (SELECT id FROM memory_trash ${where})
+           OR targetId IN (SELECT id FROM memory_trash ${where})`,
+        )
+        .run(...params, ...params);
+      const purged = (this.db.prepare(`SELECT id FROM memory_trash ${where}`).all(...params) as Row[])
+        .map(r => r.id as string);
+      this.detachEntityMemories(purged);
+      return this.db.prepare(`DELETE FROM memory_trash ${where}`).run(...params).changes;
+    }).immediate();
+  }
+
+  // ─── History ─────────────────────────────────────────────────────────────
+
+  /** Callers must run this inside the update transaction. */
+  private appendHistory(previous: MemoryRecord, change: ChangeContext): void {
+    const { max } = this.db
+      .prepare('SELECT COALESCE(MAX(version), 0) AS max FROM memory_history WHERE memoryId = ?')
+      .get(previous.id) as { max: number };
+
+    this.insertRow('memory_history', this.historyRow({
+      memoryId: previous.id,
+      version: max + 1,
+      operation: change.operation ?? 'update',
+      actor: change.actor,
+      reason: change.reason,
+      createdAt: Date.now(),
+      snapshot: previous,
+    }));
+  }
+
+  async getHistory(id: string): Promise<MemoryVersion[]> {
+    this.ensureInit();
+    assertUuid(id);
+    const rows = this.db
+      .prepare('SELECT * FROM memory_history WHERE memoryId = ? ORDER BY version DESC')
+      .all(id) as Row[];
+    return rows.map(row => this.versionFromRow(row));
+  }
+
+  async getVersion(id: string, version: number): Promise<MemoryVersion | null> {
+    this.ensureInit();
+    assertUuid(id);
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid version: ${version}`);
+    }
+    const row = this.db
+      .prepare('SELECT * FROM memory_history WHERE memoryId = ? AND version = ?')
+      .get(id, version) as Row | undefined;
+    return row ? this.versionFromRow(row) : null;
+  }
+
+  // ─── Relations ───────────────────────────────────────────────────────────
+
+  async addRelation(relation: NewRelation): Promise<MemoryRelation> {
+    this.ensureInit();
+    assertUuid(relation.sourceId);
+    assertUuid(relation.targetId);
+    assertRelationType(relation.type);
+
+    const created: MemoryRelation = { ...relation, id: uuidv4(), createdAt: Date.now() };
+    this.insertRow('memory_relations', { ...created, reason: created.reason ?? '' });
+    return created;
+  }
+
+  async getRelations(memoryIds: string[], query: RelationQuery = {}): Promise<MemoryRelation[]> {
+    this.ensureInit();
+    if (memoryIds.length === 0) return [];
+    for (const id of memoryIds) assertUuid(id);
+
+    const placeholders = memoryIds.map(() => '?').join(', ');
+    const direction = query.direction ?? 'both';
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (direction === 'out') {
+      clauses.push(`sourceId IN (${placeholders})`);
+      params.push(...memoryIds);
+    } else if (direction === 'in') {
+      clauses.push(`targetId IN (${placeholders})`);
+      params.push(...memoryIds);
+    } else {
+      clauses.push(`(sourceId IN (${placeholders}) OR targetId IN (${placeholders}))`);
+      params.push(...memoryIds, ...memoryIds);
+    }
+    if (query.types && query.types.length > 0) {
+      for (const t of query.types) assertRelationType(t);
+      clauses.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_relations WHERE ${clauses.join(' AND ')} ORDER BY createdAt, id`)
+      .all(...params) as Row[];
+    return rows.map(row => this.relationFromRow(row));
+  }
+
+  async removeRelation(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.db.prepare('DELETE FROM memory_relations WHERE id = ?').run(id).changes > 0;
+  }
+
+  // ─── Entities ────────────────────────────────────────────────────────────
+
+  async addEntity(entity: NewEntity): Promise<Entity> {
+    this.ensureInit();
+    assertEntity(entity);
+
+    const now = Date.now();
+    const created: Entity = { ...entity, id: uuidv4(), createdAt: now, updatedAt: now };
+    this.insertRow('memory_entities', this.entityToRow(created));
+    return created;
+  }
+
+  async updateEntity(id: string, updates: EntityUpdate): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+
+    return this.db.transaction(() => {
+      const row = this.db.prepare('SELECT * FROM memory_entities WHERE id = ?').get(id) as Row | undefined;
+      if (!row) return null;
+
+      const updated: Entity = { ...this.entityFromRow(row), ...updates, updatedAt: Date.now() };
+      assertEntity(updated);
+      this.writeEntity(updated);
+      return updated;
+    }).immediate();
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    this.ensureInit();
+    assertUuid(id);
+    const row = this.db.prepare('SELECT * FROM memory_entities WHERE id = ?').get(id) as Row | undefined;
+    return row ? this.entityFromRow(row) : null;
+  }
+
+  async findEntities(names: string[], options: { scope?: MemoryScope | MemoryScope[] } = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const keys = [...new Set(names.map(normalizeEntityName).filter(k => k.length > 0))];
+    if (keys.length === 0) return [];
+
+    const clauses = [`EXISTS (SELECT 1 FROM json_each(e.keys) k WHERE k.value IN (${keys.map(() => '?').join(', ')}))`];
+    const params: unknown[] = [...keys];
+    this.entityScopeClause(options.scope, clauses, params);
+
+    const rows = this.db
+      .prepare(`SELECT * FROM memory_entities e WHERE ${clauses.join(' AND ')}`)
+      .all(...params) as Row[];
+    return sortEntities(rows.map(row => this.entityFromRow(row)));
+  }
+
+  async listEntities(options: EntityListOptions = {}): Promise<Entity[]> {
+    this.ensureInit();
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    this.entityScopeClause(options.scope, clauses, params);
+    if (options.type) {
+      assertEntityType(options.type);
+      clauses.push('e.type = ?');
+      params.push(options.type);
+    }
+    if (options.memoryId) {
+      assertUuid(options.memoryId);
+      clauses.push('EXISTS (SELECT 1 FROM json_each(e.memoryIds) m WHERE m.value = ?)');
+      params.push(options.memoryId);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM memory_entities e ${where}`).all(...params) as Row[];
+    return sortEntities(rows.map(row => this.entityFromRow(row)));
+  }
+
+  async deleteEntity(id: string): Promise<boolean> {
+    this.ensureInit();
+    assertUuid(id);
+    return this.db.prepare('DELETE FROM memory_entities WHERE id = ?').run(id).changes > 0;
+  }
+
+  /** Callers must run this inside the purge transaction. */
+  private detachEntityMemories(memoryIds: string[]): void {
+    if (memoryIds.length === 0) return;
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM memory_entities e
+         WHERE EXISTS (SELECT 1 FROM json_each(e.memoryIds) m WHERE m.value IN (${memoryIds.map(() => '?').join(', ')}))`,
+      )
+      .all(...memoryIds) as Row[];
+
+    const purged = new Set(memoryIds);
+    const now = Date.now();
+    for (const row of rows) {
+      const entity = this.entityFromRow(row);
+      this.writeEntity({ ...entity, memoryIds: entity.memoryIds.filter(id => !purged.has(id)), updatedAt: now });
+    }
+  }
+
+  private writeEntity(entity: Entity): void {
+    const { id, ...fields } = this.entityToRow(entity);
+    this.db
+      .prepare(`UPDATE memory_entities SET ${Object.keys(fields).map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`)
+      .run({ id, ...fields });
+  }
+
+  private entityScopeClause(scope: MemoryScope | MemoryScope[] | undefined, clauses: string[], params: unknown[]): void {
+    if (!scope) return;
+    const scopes = Array.isArray(scope) ? scope : [scope];
+    for (const s of scopes) assertScope(s);
+    clauses.push(`e.scope IN (${scopes.map(() => '?').join(', ')})`);
+    params.push(...scopes);
+  }
+
+  // ─── Search ──────────────────────────────────────────────────────────────
+
+  async vectorSearch(
+    queryVector: number[],
+    options: SearchFilterOptions & { minScore?: number },
+  ): Promise<Array<Memory & { _distance: number }>> {
+    this.ensureInit();
+    this.assertVector(queryVector);
+
+    const { clauses, params } = this.buildFilters(options);
+    const rows = this.db
+      .prepare(`SELECT * FROM memories ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}`)
+      .all(...params) as Row[];
+
+    return rows
+      .map(row => ({ ...this.fromRow(row), _distance: 1 - cosineSimilarity(queryVector, decodeVector(row.vector)) }))
+      .filter(r => !options.minScore || 1 - r._distance >= options.minScore)
+      .sort((a, b) => a._distance - b._distance)
+      .slice(0, options.limit);
+  }
+
+  async fullTextSearch(query: string, options: SearchFilterOptions): Promise<Array<Memory & { _score: number }>> {
+    this.ensureInit();
+
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const { clauses, params } = this.buildFilters(options, 'm.');
+    const rows = this.db
+      .prepare(`
+        SELECT m.*, bm25(memories_fts) AS rank
+        FROM memories_fts JOIN memories m ON m.rowid = memories_fts.rowid
+        WHERE memories_fts MATCH ? ${clauses.map(c => `AND ${c}`).join(' ')}
+        ORDER BY rank
+        LIMIT ?
+      `)
+      .all(match, ...params, options.limit) as Row[];
+
+    // FTS5's bm25() is negated so that lower is better; flip it to match LanceDB
+    return rows.map(row => ({ ...this.fromRow(row), _score: -(row.rank as number) }));
+  }
+
+  // ─── List & Stats ────────────────────────────────────────────────────────
+
+  async list(options: ListOptions = {}): Promise<ListResult> {
+    this.ensureInit();
+
+    const orderBy = options.orderBy ?? 'createdAt';
+    const orderDir = options.orderDir ?? 'desc';
+    assertOrderField(orderBy);
+    const limit = options.limit ?? 100;
+
+    const { clauses, params } = this.buildFilters(options);
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor, orderBy, orderDir);
+      const op = orderDir === 'asc' ? '>' : '<';
+      clauses.push(`(${orderBy} ${op} ? OR (${orderBy} = ? AND id ${op} ?))`);
+      params.push(after.value, after.value, after.id);
+    }
+
+    const dir = orderDir === 'asc' ? 'ASC' : 'DESC';
+    // Fetch one extra row to know whether another page exists
+    const rows = this.db
+      .prepare(`
+        SELECT * FROM memories
+        ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+        ORDER BY ${orderBy} ${dir}, id ${dir}
+        LIMIT ? OFFSET ?
+      `)
+      .all(...params, limit + 1, options.offset ?? 0) as Row[];
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      memories: page.map(row => this.fromRow(row)),
+      nextCursor: rows.length > limit && last
+        ? encodeCursor(orderBy, orderDir, { value: last[orderBy] as number, id: last.id as string })
+        : undefined,
+    };
+  }
+
+  async countByScope(scope: MemoryScope): Promise<number> {
+    this.ensureInit();
+    assertScope(scope);
+    const { n } = this.db.prepare('SELECT COUNT(*) AS n FROM memories WHERE scope = ?').get(scope) as { n: number };
+    return n;
+  }
+
+  async listTags(options: TagListOptions = {}): Promise<TagCount[]> {
+    this.ensureInit();
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (options.scope) {
+      assertScope(options.scope);
+      clauses.push('m.scope = ?');
+      params.push(options.scope);
+    }
+    if (options.prefix) {
+      clauses.push('instr(t.value, ?) = 1');
+      params.push(options.prefix);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    return this.db.prepare(
+      `SELECT t.value AS tag, COUNT(DISTINCT m.id) AS count
+       FROM memories m, json_each(m.tags) t ${where}
+       GROUP BY t.value ORDER BY count DESC, tag`,
+    ).all(...params) as TagCount[];
+  }
+
+  async listScopes(): Promise<ScopeSummary[]> {
+    this.ensureInit();
+    return this.db.prepare(
+      `SELECT scope, COUNT(*) AS count, MAX(MAX(updatedAt), MAX(lastAccessedAt)) AS lastActivityAt,
+              AVG(importance) AS avgImportance
+       FROM memories GROUP BY scope ORDER BY count DESC, scope`,
+    ).all() as ScopeSummary[];
+  }
+
+  async getStats(): Promise<MemoryStats> {
+    this.ensureInit();
+
+    const totals = this.db
+      .prepare(`
+        SELECT COUNT(*) AS total, AVG(importance) AS avgImportance,
+               MIN(createdAt) AS oldest, MAX(createdAt) AS newest
+        FROM memories
+      `)
+      .get() as { total: number; avgImportance: number | null; oldest: number | null; newest: number | null };
+
+    const byCategory = {
+      profile: 0, preferences: 0, entities: 0,
+      events: 0, cases: 0, patterns: 0,
+    } as Record<MemoryCategory, number>;
+    for (const r of this.db.prepare('SELECT category, COUNT(*) AS n FROM memories GROUP BY category').all() as Row[]) {
+      byCategory[r.category as MemoryCategory] = r.n as number;
+    }
+
+    const byScope: Record<string, number> = {};
+    for (const r of this.db.prepare('SELECT scope, COUNT(*) AS n FROM memories GROUP BY scope').all() as Row[]) {
+      byScope[r.scope as string] = r.n as number;
+    }
+
+    let dbSizeBytes: number | undefined;
+    try { dbSizeBytes = statSync(this.filePath).size; } catch { /* not flushed yet */ }
+
+    return {
+      total: totals.total,
+      byCategory,
+      byScope,
+      oldestMemory: totals.oldest ?? undefined,
+      newestMemory: totals.newest ?? undefined,
+      avgImportance: totals.avgImportance ?? 0,
+      dbSizeBytes,
+    };
+  }
+
+  async getAllForExport(scope?: MemoryScope): Promise<Memory[]> {
+    this.ensureInit();
+    if (scope) assertScope(scope);
+    const rows = this.db
+      .prepare(`SELECT * FROM memories ${scope ? 'WHERE scope = ?' : ''} ORDER BY createdAt DESC, id DESC`)
+      .all(...(scope ? [scope] : [])) as Row[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async *exportRecords(options: { batchSize?: number } = {}): AsyncIterable<MemoryRecord[]> {
+    this.ensureInit();
+    const batchSize = options.batchSize ?? 500;
+    const stmt = this.db.prepare('SELECT rowid AS _rowid, * FROM memories WHERE rowid > ? ORDER BY rowid LIMIT ?');
+
+    let lastRowid = 0;
+    for (;;) {
+      const rows = stmt.all(lastRowid, batchSize) as Row[];
+      if (rows.length === 0) return;
+      lastRowid = rows[rows.length - 1]!._rowid as number;
+      yield rows.map(row => ({ ...this.fromRow(row), vector: decodeVector(row.vector) }));
+    }
+  }
+
+  async exportArchive(): Promise<StoreArchive> {
+    this.ensureInit();
+    const all = (table: string, order: string) =>
+      this.db.prepare(`SELECT * FROM ${table} ORDER BY ${order}`).all() as Row[];
+
+    return {
+      trash: all('memory_trash', 'deletedAt, id')
+        .map(row => ({ ...this.trashFromRow(row), vector: decodeVector(row.vector) })),
+      history: all('memory_history', 'memoryId, version').map(row => this.versionFromRow(row)),
+      relations: all('memory_relations', 'createdAt, id').map(row => this.relationFromRow(row)),
+      entities: all('memory_entities', 'createdAt, id').map(row => this.entityFromRow(row)),
+    };
+  }
+
+  async importArchive(archive: StoreArchive): Promise<void> {
+    this.ensureInit();
+    for (const m of archive.trash) this.assertVector(m.vector);
+
+    this.db.transaction(() => {
+      for (const m of archive.trash) {
+        this.insertRow('memory_trash', {
+          ...this.toRow(m),
+          deletedAt: m.deletedAt,
+          deletedBy: m.deletedBy,
+          deleteReason: m.deleteReason ?? '',
+        });
+      }
+      for (const v of archive.history) this.insertRow('memory_history', this.historyRow(v));
+      for (const r of archive.relations) this.insertRow('memory_relations', { ...r, reason: r.reason ?? '' });
+      for (const e of archive.entities) this.insertRow('memory_entities', this.entityToRow(e));
+    }).immediate();
+  }
+
+  // ─── Expiration ──────────────────────────────────────────────────────────
+
+  async findExpired(now = Date.now()): Promise<Memory[]> {
+    this.ensureInit();
+    const rows = this.db
+      .prepare('SELECT * FROM memories WHERE expiresAt > 0 AND expiresAt <= ?')
+      .all(now) as Row[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async sweepExpired(action: SweepAction, now = Date.now()): Promise<string[]> {
+    this.ensureInit();
+    if (!Number.isFinite(now)) throw new Error(`Invalid timestamp: ${now}`);
+
+    const where = 'expiresAt > 0 AND expiresAt <= ?';
+    if (action === 'archive') {
+      return this.moveToTrash(where, [now], { actor: 'sweeper', reason: 'Expired' });
+    }
+
+    return this.db.transaction(() => {
+      const ids = (this.db.prepare(`SELECT id FROM memories WHERE ${where}`).all(now) as Row[])
+        .map(r => r.id as string);
+      if (ids.length === 0) return [];
+      const placeholders = ids.map(() => '?').join(', ');
+      this.db.prepare(`DELETE FROM memory_history WHERE memoryId IN (${placeholders})`).run(...ids);
+      this.db
+        .prepare(`DELETE FROM memory_relations WHERE sourceId IN (${placeholders}) OR targetId IN (${placeholders})`)
+        .run(...ids, ...ids);
+      this.detachEntityMemories(ids);
+      this.db.prepare(`DELETE FROM memories WHERE id IN (${placeholders})`).run(...ids);
+      return ids;
+    }).immediate();
+  }
+
+  // ─── Serialization ───────────────────────────────────────────────────────
+
+  private insertRow(table: string, row: Row): void {
+    const columns = Object.keys(row);
+    this.db
+      .prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`)
+      .run(row);
+  }
+
+  private toRow(m: MemoryRecord): Row {
+    return {
+      id: m.id,
+      headline: m.headline,
+      summary: m.summary,
+      content: m.content,
+      category: m.category,
+      scope: m.scope,
+      importance: m.importance,
+      createdAt: m.createdAt,
+      updatedAt: m.updatedAt,
+      accessCount: m.accessCount,
+      lastAccessedAt: m.lastAccessedAt,
+      tags: JSON.stringify(m.tags),
+      metadata: JSON.stringify(m.metadata),
+      expiresAt: m.expiresAt ?? 0,
+      vector: encodeVector(m.vector),
+    };
+  }
+
+  private fromRow(row: Row): Memory {
+    let tags: string[] = [];
+    let metadata: Record<string, unknown> = {};
+
+    try { tags = JSON.parse(row.tags as string) as string[]; } catch { tags = []; }
+    try { metadata = JSON.parse(row.metadata as string) as Record<string, unknown>; } catch { metadata = {}; }
+
+    return {
+      id: row.id as string,
+      headline: row.headline as string,
+      summary: row.summary as string,
+      content: row.content as string,
+      category: row.category as MemoryCategory,
+      scope: row.scope as MemoryScope,
+      importance: row.importance as number,
+      createdAt: row.createdAt as number,
+      updatedAt: row.updatedAt as number,
+      accessCount: row.accessCount as number,
+      lastAccessedAt: row.lastAccessedAt as number,
+      tags,
+      metadata,
+      expiresAt: (row.expiresAt as number) > 0 ? row.expiresAt as number : undefined,
+    };
+  }
+
+  private trashFromRow(row: Row): TrashedMemory {
+    return {
+      ...this.fromRow(row),
+      deletedAt: row.deletedAt as number,
+      deletedBy: row.deletedBy as TrashedMemory['deletedBy'],
+      deleteReason: (row.deleteReason as string) || undefined,
+    };
+  }
+
+  private relationFromRow(row: Row): MemoryRelation {
+    return {
+      id: row.id as string,
+      sourceId: row.sourceId as string,
+      targetId: row.targetId as string,
+      type: row.type as RelationType,
+      createdAt: row.createdAt as number,
+      actor: row.actor as MemoryActor,
+      reason: (row.reason as string) || undefined,
+    };
+  }
+
+  private entityToRow(e: Entity): Row {
+    return {
+      id: e.id,
+      name: e.name,
+      type: e.type,
+      aliases: JSON.stringify(e.aliases),
+      keys: JSON.stringify(entityKeys(e)),
+      attributes: JSON.stringify(e.attributes),
+      scope: e.scope,
+      memoryIds: JSON.stringify(e.memoryIds),
+      createdAt: e.createdAt,
+      updatedAt: e.updatedAt,
+    };
+  }
+
+  private entityFromRow(row: Row): Entity {
+    const parse = <T>(value: unknown, fallback: T): T => {
+      try { return JSON.parse(value as string) as T; } catch { return fallback; }
+    };
+
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      type: row.type as EntityType,
+      aliases: parse<string[]>(row.aliases, []),
+      attributes: parse<Record<string, unknown>>(row.attributes, {}),
+      scope: row.scope as MemoryScope,
+      memoryIds: parse<string[]>(row.memoryIds, []),
+      createdAt: row.createdAt as number,
+      updatedAt: row.updatedAt as number,
+    };
+  }
+
+  private historyRow(v: MemoryVersion): Row {
+    const { vector, ...snapshot } = v.snapshot;
+    return {
+      id: uuidv4(),
+      memoryId: v.memoryId,
+      version: v.version,
+      operation: v.operation,
+      actor: v.actor,
+      reason: v.reason ?? '',
+      createdAt: v.createdAt,
+      snapshot: JSON.stringify(snapshot),
+      vector: vector && vector.length > 0 ? encodeVector(vector) : null,
+    };
+  }
+
+  private versionFromRow(row: Row): MemoryVersion {
+    let snapshot = {} as Memory;
+    try { snapshot = JSON.parse(row.snapshot as string) as Memory; } catch { /* keep empty */ }
+
+    const vector = decodeVector(row.vector);
+    if (vector.length > 0) snapshot.vector = vector;
+
+    return {
+      memoryId: row.memoryId as string,
+      version: row.version as number,
+      operation: row.operation as MemoryVersion['operation'],
+      actor: row.actor as MemoryVersion['actor'],
+      reason: (row.reason as string) || undefined,
+      createdAt: row.createdAt as number,
+      snapshot,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * openclaw-tinmem - Storage backend interface
+ * Everything the manager, deduplicator and retriever need from a memory store
+ */
+
+import type {
+  Memory, MemoryRecord, MemoryScope, MemoryCategory, MemoryStats,
+  ChangeContext, MemoryVersion, TrashedMemory,
+  ListOptions, ListResult, RecoveryReport, SweepAction,
+  Snapshot, SnapshotTrigger, MaintenanceReport, MemoryFilter, TagCount, TagListOptions,
+  MemoryRelation, RelationQuery, Entity, EntityListOptions, ScopeSummary,
+} from '../types.js';
+import type { TinmemConfig } from '../config.js';
+
+/** Fields a caller provides for a new memory; the store assigns the rest */
+export type NewMemory = Omit<MemoryRecord, 'id' | 'createdAt' | 'updatedAt' | 'accessCount' | 'lastAccessedAt'>;
+
+export type MemoryUpdate = Partial<Pick<Memory, 'headline' | 'summary' | 'content' | 'scope' | 'importance' | 'tags' | 'metadata'>> & {
+  vector?: number[];
+  /** New expiry (unix ms); null clears it */
+  expiresAt?: number | null;
+};
+
+export type NewRelation = Omit<MemoryRelation, 'id' | 'createdAt'>;
+
+export type NewEntity = Omit<Entity, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type EntityUpdate = Partial<Pick<Entity, 'name' | 'type' | 'aliases' | 'attributes' | 'scope' | 'memoryIds'>>;
+
+/** Everything a store holds besides live memories, with IDs and timestamps kept */
+export interface StoreArchive {
+  trash: Array<TrashedMemory & { vector: number[] }>;
+  history: MemoryVersion[];
+  relations: MemoryRelation[];
+  entities: Entity[];
+}
+
+export interface SearchFilterOptions {
+  limit: number;
+  scope?: MemoryScope | MemoryScope[];
+  categories?: MemoryCategory[];
+  filter?: MemoryFilter;
+}
+
+export interface MaintenanceOptions {
+  /** Remove table versions older than this many days */
+  pruneOlderThanDays: number;
+  /** Row count at which to build an ANN vector index */
+  vectorIndexThreshold: number;
+  /** Rebuild the vector index even if it is up to date */
+  reindex?: boolean;
+}
+
+export interface MemoryStore {
+  /** Open (and, where needed, create or migrate) the store. Idempotent. */
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  // CRUD
+  insert(memory: NewMemory): Promise<Memory>;
+  bulkInsert(records: MemoryRecord[]): Promise<void>;
+  /**
+   * Apply an update, saving the previous record as a new history version
+   * (unless only the vector changes, see `recordsHistory()`)
+   */
+  update(id: string, updates: MemoryUpdate, change?: ChangeContext): Promise<Memory | null>;
+  getById(id: string, options?: { withVector?: boolean }): Promise<Memory | null>;
+  /** The live memories among `ids` in one read, in no particular order (missing IDs are skipped) */
+  getByIds(ids: string[], options?: { withVector?: boolean }): Promise<Memory[]>;
+  incrementAccessCount(id: string): Promise<void>;
+
+  // Soft delete
+  delete(id: string, change?: Omit<ChangeContext, 'operation'>): Promise<boolean>;
+  deleteMany(ids: string[], change?: Omit<ChangeContext, 'operation'>): Promise<string[]>;
+  deleteByScope(scope: MemoryScope, change?: Omit<ChangeContext, 'operation'>): Promise<string[]>;
+  listTrash(options?: { scope?: MemoryScope; limit?: number }): Promise<TrashedMemory[]>;
+  restore(id: string): Promise<Memory | null>;
+  /** Permanently delete trashed memories (only those deleted before `olderThan`, or with one of `ids`) */
+  purgeTrash(options?: { olderThan?: number; ids?: string[] }): Promise<number>;
+
+  // History
+  getHistory(id: string): Promise<MemoryVersion[]>;
+  getVersion(id: string, version: number): Promise<MemoryVersion | null>;
+
+  // Relations
+  addRelation(relation: NewRelation): Promise<MemoryRelation>;
+  /** Relations touching any of `memoryIds`, oldest first (direction defaults to both) */
+  getRelations(memoryIds: string[], query?: RelationQuery): Promise<MemoryRelation[]>;
+  removeRelation(id: string): Promise<boolean>;
+
+  // Entities (purging a memory removes it from every entity's memoryIds)
+  addEntity(entity: NewEntity): Promise<Entity>;
+  updateEntity(id: string, updates: EntityUpdate): Promise<Entity | null>;
+  getEntity(id: string): Promise<Entity | null>;
+  /** Entities whose name or an alias normalizes to one of `names` */
+  findEntities(names: string[], options?: { scope?: MemoryScope | MemoryScope[] }): Promise<Entity[]>;
+  /** Sorted by name */
+  listEntities(options?: EntityListOptions): Promise<Entity[]>;
+  deleteEntity(id: string): Promise<boolean>;
+
+  // Search (expired memories are excluded)
+  /** `_distance` is the cosine distance (1 - similarity) */
+  vectorSearch(
+    queryVector: number[],
+    options: SearchFilterOptions & { minScore?: number },
+  ): Promise<Array<Memory & { _distance: number }>>;
+  /** `_score` is the backend's BM25 relevance (higher is better) */
+  fullTextSearch(query: string, options: SearchFilterOptions): Promise<Array<Memory & { _score: number }>>;
+
+  // Listing & stats
+  list(options?: ListOptions): Promise<ListResult>;
+  countByScope(scope: MemoryScope): Promise<number>;
+  /** Tags of live memories with usage counts, most used first */
+  listTags(options?: TagListOptions): Promise<TagCount[]>;
+  /** Every scope holding live memories, largest first */
+  listScopes(): Promise<ScopeSummary[]>;
+  getStats(): Promise<MemoryStats>;
+  getAllForExport(scope?: MemoryScope): Promise<Memory[]>;
+  /** Every live memory including its vector, in batches (used to copy between backends) */
+  exportRecords(options?: { batchSize?: number }): AsyncIterable<MemoryRecord[]>;
+  /** Trash, version history, relations and entities (used to copy between backends) */
+  exportArchive(): Promise<StoreArchive>;
+  /** Write an exported archive as-is. Meant for a freshly created store. */
+  importArchive(archive: StoreArchive): Promise<void>;
+
+  // Expiration
+  findExpired(now?: number): Promise<Memory[]>;
+  sweepExpired(action: SweepAction, now?: number): Promise<string[]>;
+
+  /** Interrupted writes repaired on open (backends with a write-ahead journal) */
+  getRecovery?(): RecoveryReport | undefined;
+
+  // Snapshots (backends with versioned storage)
+  /** Label the current state of every table. Labels must be unique. */
+  createSnapshot?(label: string, trigger: SnapshotTrigger): Promise<Snapshot>;
+  /** Newest first */
+  listSnapshots?(): Promise<Snapshot[]>;
+  /** Roll every table back to the snapshot's versions (later snapshots stay restorable) */
+  restoreSnapshot?(id: string): Promise<Snapshot | null>;
+  deleteSnapshot?(id: string): Promise<boolean>;
+
+  /** Compact storage, prune old versions and refresh indexes */
+  maintain?(options: MaintenanceOptions): Promise<MaintenanceReport>;
+}
+
+/**
+ * Whether an update saves a history version. Vector-only updates (re-embedding)
+ * don't, so a re-embed doesn't bury real edits under a version per memory.
+ */
+export function recordsHistory(updates: MemoryUpdate): boolean {
+  return Object.entries(updates).some(([key, value]) => key !== 'vector' && value !== undefined);
+}
+
+/**
+ * Open the backend selected by `storage.backend`.
+ * Backends are imported lazily so only the selected one is loaded.
+ */
+export async function createMemoryStore(config: TinmemConfig): Promise<MemoryStore> {
+  if (config.encryption.enabled && config.storage.backend === 'sqlite') {
+    throw new Error('Encryption at rest is not supported by the sqlite backend; use lancedb');
+  }
+
+  switch (config.storage.backend) {
+    case 'memory': {
+      const { InMemoryStore } = await import('./in-memory-store.js');
+      const store = new InMemoryStore(config.embedding.dimensions);
+      await store.init();
+      return store;
+    }
+    case 'sqlite': {
+      const { SqliteStore } = await import('./sqlite-store.js');
+      const store = new SqliteStore(config.dbPath, config.embedding.dimensions, {
+        busyTimeoutMs: config.storage.lock.timeoutMs,
+      });
+      await store.init();
+      return store;
+    }
+    case 'lancedb': {
+      const { getDB } = await import('./db.js');
+      const { createFieldCipher } = await import('./encryption.js');
+      return getDB(config.dbPath, config.embedding.dimensions, {
+        autoMigrate: config.storage.autoMigrate,
+        lock: config.storage.lock,
+        cipher: config.encryption.enabled ? createFieldCipher(config.encryption) : undefined,
+      });
+    }
+  }
+}
+
+/**
+ * Copy every live memory (with vectors, IDs and timestamps) from one store
+ * into another. Use copyArchive() for the rest of the store.
+ * Returns the number of memories copied.
+ */
+export async function copyMemories(
+  source: MemoryStore,
+  target: MemoryStore,
+  options: { batchSize?: number; onProgress?: (copied: number) => void } = {},
+): Promise<number> {
+  let copied = 0;
+  for await (const batch of source.exportRecords({ batchSize: options.batchSize })) {
+    if (batch.length === 0) continue;
+    await target.bulkInsert(batch);
+    copied += batch.length;
+    options.onProgress?.(copied);
+  }
+  return copied;
+}
+
+/**
+ * Copy trash, version history, relations and entities from one store into
+ * another. Returns how many of each were copied.
+ */
+export async function copyArchive(
+  source: MemoryStore,
+  target: MemoryStore,
+): Promise<{ trash: number; history: number; relations: number; entities: number }> {
+  const archive = await source.exportArchive();
+  await target.importArchive(archive);
+  return {
+    trash: archive.trash.length,
+    history: archive.history.length,
+    relations: archive.relations.length,
+    entities: archive.entities.length,
+  };
+}
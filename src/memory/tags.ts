@@ -0,0 +1,32 @@
+/**
+ * openclaw-tinmem - Tag helpers
+ * Counting and rewriting tags, shared by every storage backend and the manager
+ */
+
+import type { TagCount } from '../types.js';
+
+/**
+ * Count how many memories carry each tag, most used first. Ties are ordered
+ * by plain string comparison, like SQLite's default collation.
+ */
+export function countTags(tagLists: Iterable<string[]>, prefix?: string): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const tags of tagLists) {
+    for (const tag of new Set(tags)) {
+      if (prefix && !tag.startsWith(prefix)) continue;
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+}
+
+/**
+ * Replace every tag in `sources` with `target`, keeping the original order
+ * and dropping duplicates (so merging into an existing tag leaves one copy).
+ */
+export function replaceTags(tags: string[], sources: string[], target: string): string[] {
+  const replaced = tags.map(t => (sources.includes(t) ? target : t));
+  return [...new Set(replaced)];
+}
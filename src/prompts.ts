@@ -1,9 +1,9 @@
 /**
  * openclaw-tinmem - LLM prompt templates
- * For memory extraction and deduplication
+ * For memory extraction, deduplication, query expansion and context injection
  */
 
-import type { Memory, MemoryCategory } from './types.js';
+import type { AbstractionLevel, BudgetedContext, Memory, MemoryCategory, MemoryScope } from './types.js';
 
 // ─── Extraction Prompts ───────────────────────────────────────────────────────
 
@@ -27,12 +27,13 @@ For each memory, provide three levels:
 
 ## Guidelines
 
-1. Extract only durable, factual information (not temporary states)
+1. Extract only durable, factual information. For facts that are only valid for a while (travel plans, this week's goals, a current sprint), set \`expiresInDays\` to how long they stay relevant; omit it for lasting facts
 2. Each memory should be self-contained and understandable out of context
 3. Assign importance 0.0-1.0 (0.9+ for critical facts, 0.5 for useful context, 0.2 for minor details)
 4. Provide relevant tags for searchability
 5. Skip trivial exchanges (greetings, acknowledgments)
 6. Return empty array if nothing meaningful to extract
+7. List the named people, projects, organizations, tools and places a memory is about in \`entities\`. Use the fullest name as \`name\` and put other names used for the same thing (abbreviations, nicknames, "the X project") in \`aliases\`
 
 ## Output Format
 
@@ -45,7 +46,11 @@ Return a JSON array of memory objects:
     "content": "Full narrative with all context",
     "category": "profile|preferences|entities|events|cases|patterns",
     "importance": 0.8,
-    "tags": ["tag1", "tag2"]
+    "tags": ["tag1", "tag2"],
+    "expiresInDays": 7,
+    "entities": [
+      { "name": "TaskFlow", "type": "person|project|organization|tool|place|other", "aliases": ["TF"] }
+    ]
   }
 ]
 \`\`\``;
@@ -105,6 +110,8 @@ export const DEDUP_SYSTEM_PROMPT = `You are a memory deduplication expert. Your
 - **MERGE**: The new memory overlaps with an existing memory and they should be combined (provide merged content)
 - **SKIP**: The new memory is redundant - the existing memory already captures this information adequately
 
+If you choose CREATE because the new memory contradicts or replaces an existing one (e.g. a changed preference), set \`supersedesId\` to that memory's ID so the outdated memory is no longer recalled.
+
 ## Merge Rules by Category
 
 - **profile**: Always merge (consolidate identity information)
@@ -125,6 +132,7 @@ Return a JSON object:
   "mergedSummary": "merged L1 summary (for MERGE only)",
   "mergedContent": "merged L2 content combining both (for MERGE only)",
   "mergedTags": ["combined", "tags"],
+  "supersedesId": "id-of-existing-memory-the-new-one-replaces (for CREATE only, optional)",
   "reason": "Brief explanation of the decision"
 }
 \`\`\``;
@@ -155,6 +163,37 @@ ${candidatesText}
 Determine whether to CREATE, MERGE (with which candidate), or SKIP the new memory.`;
 }
 
+// ─── Query Expansion Prompts ──────────────────────────────────────────────────
+
+export const QUERY_EXPANSION_SYSTEM_PROMPT = `You rewrite a user's message into search queries for an AI assistant's long-term memory store. The store holds facts about the user (profile, preferences), people and projects they mention, past events, solved problems and recurring workflows.
+
+Messages are often short or indirect ("do it the way we did last time"). Write standalone queries that spell out what the assistant would need to remember to answer: the likely topic, the kind of memory (preference, past case, workflow) and concrete keywords. Each query should look for something different.
+
+Return a JSON object:
+\`\`\`json
+{ "queries": ["first query", "second query"] }
+\`\`\``;
+
+export function buildQueryExpansionPrompt(query: string, maxQueries: number): string {
+  return `## User Message
+
+${query}
+
+Write up to ${maxQueries} search queries for memories relevant to this message.`;
+}
+
+export const HYDE_SYSTEM_PROMPT = `You write a hypothetical memory that an AI assistant's long-term memory store might contain and that would help answer the user's message. The store holds facts about the user, their preferences, projects, past events, solved problems and workflows.
+
+Write it like a stored memory: one short paragraph of plain factual statements, with concrete names and keywords. Make plausible guesses where details are unknown. Return only the paragraph.`;
+
+export function buildHydePrompt(query: string): string {
+  return `## User Message
+
+${query}
+
+Write the memory.`;
+}
+
 // ─── Context Injection Safety ─────────────────────────────────────────────────
 
 /**
@@ -170,9 +209,16 @@ export function sanitizeForContext(text: string): string {
 
 // ─── Context Injection Prompt ─────────────────────────────────────────────────
 
+/**
+ * Render memories as an `<agent-experience>` block grouped by category. Each
+ * memory is shown at its own `level` if it has one, else at `level`.
+ */
 export function buildContextInjection(
-  memories: Array<Pick<Memory, 'headline' | 'summary' | 'content' | 'category' | 'tags'>>,
-  level: 'L0' | 'L1' | 'L2' = 'L1',
+  memories: Array<Pick<Memory, 'headline' | 'summary' | 'content' | 'category' | 'tags'> & {
+    inheritedFrom?: MemoryScope;
+    level?: AbstractionLevel;
+  }>,
+  level: AbstractionLevel = 'L1',
 ): string {
   if (memories.length === 0) return '';
 
@@ -197,13 +243,10 @@ export function buildContextInjection(
   for (const [cat, mems] of byCategory) {
     sections.push(`\n### ${categoryLabels[cat]}`);
     for (const m of mems) {
-      if (level === 'L0') {
-        sections.push(`- ${sanitizeForContext(m.headline)}`);
-      } else if (level === 'L1') {
-        sections.push(`- ${sanitizeForContext(m.summary)}`);
-      } else {
-        sections.push(`- ${sanitizeForContext(m.content)}`);
-      }
+      const memoryLevel = m.level ?? level;
+      const text = memoryLevel === 'L0' ? m.headline : memoryLevel === 'L1' ? m.summary : m.content;
+      const source = m.inheritedFrom ? ` (from ${m.inheritedFrom})` : '';
+      sections.push(`- ${sanitizeForContext(text)}${source}`);
     }
   }
 
@@ -211,6 +254,63 @@ export function buildContextInjection(
   return sections.join('\n');
 }
 
+// ─── Token Budget ─────────────────────────────────────────────────────────────
+
+/** Estimated number of tokens in `text`; swap in a real tokenizer for exact budgets */
+export type TokenEstimator = (text: string) => number;
+
+/** Rough estimate for English-like text: about four characters per token */
+export const estimateTokens: TokenEstimator = text => Math.ceil(text.length / 4);
+
+export interface ContextBudgetOptions {
+  /** Most tokens the whole block may use (0 = no limit) */
+  maxTokens: number;
+  /** How many of the top memories may be rendered in full (L2); the rest start at L1 */
+  fullDetail: number;
+  /** Start every memory at this level instead (ignores fullDetail) */
+  level?: AbstractionLevel;
+  estimateTokens?: TokenEstimator;
+}
+
+const LEVELS: AbstractionLevel[] = ['L2', 'L1', 'L0'];
+
+/**
+ * Render memories (best first) within a token budget. The top `fullDetail`
+ * memories start at L2 and the rest at L1 (or all at `level`); a memory that doesn't fit drops to
+ * L1, then L0. Rendering stops at the first memory that doesn't fit even at
+ * L0. Tokens are counted on the whole block, headers and tags included.
+ */
+export function buildBudgetedContext(
+  memories: Array<Pick<Memory, 'id' | 'headline' | 'summary' | 'content' | 'category' | 'tags'> & {
+    inheritedFrom?: MemoryScope;
+  }>,
+  options: ContextBudgetOptions,
+): BudgetedContext {
+  const estimate = options.estimateTokens ?? estimateTokens;
+  const chosen: Array<(typeof memories)[number] & { level: AbstractionLevel }> = [];
+  let text = '';
+
+  for (const [rank, m] of memories.entries()) {
+    const start = options.level ? LEVELS.indexOf(options.level) : rank < options.fullDetail ? 0 : 1;
+    let fitted = false;
+    for (const level of LEVELS.slice(start)) {
+      const candidate = buildContextInjection([...chosen, { ...m, level }]);
+      if (options.maxTokens > 0 && estimate(candidate) > options.maxTokens) continue;
+      chosen.push({ ...m, level });
+      text = candidate;
+      fitted = true;
+      break;
+    }
+    if (!fitted) break;
+  }
+
+  return {
+    text,
+    tokensUsed: text ? estimate(text) : 0,
+    rendered: chosen.map(m => ({ memoryId: m.id, level: m.level })),
+  };
+}
+
 // ─── Noise Filter ────────────────────────────────────────────────────────────
 
 export const NOISE_PATTERNS = [
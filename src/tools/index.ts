@@ -6,10 +6,11 @@
 import type { TinmemConfig } from '../config.js';
 import type {
   Memory, MemoryScope,
-  MemoryRecallInput, MemoryStoreInput, MemoryForgetInput, MemoryUpdateInput,
+  MemoryRecallInput, MemoryStoreInput, MemoryForgetInput, MemoryUpdateInput, MemoryLinkInput,
   RetrievalResult,
 } from '../types.js';
 import { getMemoryManager } from '../memory/manager.js';
+import { filterFromInput } from '../memory/filter.js';
 
 // ─── Tool Definitions (OpenClaw compatible format) ────────────────────────────
 
@@ -28,11 +29,33 @@ export const TOOL_DEFINITIONS = [
           type: 'string',
           description: 'Memory scope to search (e.g., "global", "agent:myagent", "project:myproject"). Can be comma-separated for multiple scopes.',
         },
+        inherit: {
+          type: 'boolean',
+          description: 'Also search the scopes this scope inherits from, such as global (default: true)',
+        },
         categories: {
           type: 'array',
           items: { type: 'string', enum: ['profile', 'preferences', 'entities', 'events', 'cases', 'patterns'] },
           description: 'Filter by memory categories',
         },
+        filter: {
+          type: 'object',
+          description: 'Further conditions that must all hold. Times accept ISO dates or durations ago like "30d", "12h", "2w".',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' }, description: 'Has at least one of these tags' },
+            allTags: { type: 'array', items: { type: 'string' }, description: 'Has every one of these tags' },
+            tagPrefixes: { type: 'array', items: { type: 'string' }, description: 'Has a tag starting with one of these, e.g. "project:"' },
+            minImportance: { type: 'number', description: 'Importance at least this (0.0-1.0)' },
+            maxImportance: { type: 'number', description: 'Importance at most this (0.0-1.0)' },
+            createdAfter: { type: 'string', description: 'Created at or after, e.g. "30d" for the last 30 days' },
+            createdBefore: { type: 'string', description: 'Created at or before' },
+            updatedAfter: { type: 'string', description: 'Last updated at or after' },
+            updatedBefore: { type: 'string', description: 'Last updated at or before' },
+            accessedAfter: { type: 'string', description: 'Last recalled at or after' },
+            accessedBefore: { type: 'string', description: 'Last recalled at or before' },
+            metadata: { type: 'object', description: 'Top-level metadata keys that must equal these values' },
+          },
+        },
         limit: {
           type: 'number',
           description: 'Maximum number of memories to return (default: 10)',
@@ -42,6 +65,11 @@ export const TOOL_DEFINITIONS = [
           enum: ['L0', 'L1', 'L2'],
           description: 'Detail level: L0=headline only, L1=summary (default), L2=full content',
         },
+        expand: {
+          type: 'string',
+          enum: ['off', 'multi-query', 'hyde'],
+          description: 'Rewrite a short or indirect query before searching: multi-query searches several rephrasings, hyde searches a guessed answer (default: configured mode)',
+        },
       },
       required: ['query'],
     },
@@ -74,13 +102,18 @@ export const TOOL_DEFINITIONS = [
           items: { type: 'string' },
           description: 'Tags for this memory',
         },
+        expiresInDays: {
+          type: 'number',
+          exclusiveMinimum: 0,
+          description: 'Forget this memory after N days (for temporary facts; default: category TTL or never)',
+        },
       },
       required: ['content', 'category'],
     },
   },
   {
     name: 'memory_forget',
-    description: 'Remove a memory by ID or search query.',
+    description: 'Remove a memory by ID or search query. Removed memories go to the trash and can be restored by ID until purged.',
     parameters: {
       type: 'object',
       properties: {
@@ -139,6 +172,37 @@ export const TOOL_DEFINITIONS = [
       required: ['id'],
     },
   },
+  {
+    name: 'memory_link',
+    description: 'Record a typed relation between two memories, e.g. that a new memory supersedes an outdated one. Superseded memories are no longer recalled.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sourceId: {
+          type: 'string',
+          description: 'Memory the relation starts from (e.g. the newer memory)',
+        },
+        targetId: {
+          type: 'string',
+          description: 'Memory the relation points to (e.g. the outdated memory)',
+        },
+        type: {
+          type: 'string',
+          enum: ['supersedes', 'relatedTo', 'derivedFrom', 'mergedFrom'],
+          description: 'source supersedes / is related to / was derived from / was merged from target',
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the memories are linked',
+        },
+        remove: {
+          type: 'boolean',
+          description: 'Remove this relation instead of adding it',
+        },
+      },
+      required: ['sourceId', 'targetId', 'type'],
+    },
+  },
 ];
 
 // ─── Tool Handlers ────────────────────────────────────────────────────────────
@@ -159,8 +223,11 @@ export class MemoryTools {
 
     const result: RetrievalResult = await manager.recall(input.query, {
       scope: scopes,
+      inheritScopes: input.inherit ?? true,
       categories: input.categories,
+      filter: filterFromInput(input.filter),
       limit: input.limit,
+      queryExpansion: input.expand,
     });
 
     const level = input.level ?? 'L1';
@@ -177,6 +244,8 @@ export class MemoryTools {
         tags: m.tags,
         score: m.score,
         createdAt: m.createdAt,
+        ...(m.linkedFrom && { linkedFrom: m.linkedFrom }),
+        ...(m.inheritedFrom && { inheritedFrom: m.inheritedFrom }),
       })),
       totalFound: result.totalFound,
       timingMs: result.timingMs,
@@ -186,32 +255,52 @@ export class MemoryTools {
   async memory_store(input: MemoryStoreInput): Promise<{
     stored: number;
     memoryIds: string[];
+    message: string;
   }> {
     const manager = await getMemoryManager(this.config);
+    const scope = (input.scope ?? this.config.defaultScope) as MemoryScope;
+    if (!manager.scopes.canWrite(scope)) {
+      return { stored: 0, memoryIds: [], message: `Scope ${scope} is read-only` };
+    }
+    if (input.expiresInDays !== undefined && !(Number.isFinite(input.expiresInDays) && input.expiresInDays > 0)) {
+      return { stored: 0, memoryIds: [], message: `expiresInDays must be a positive number, got ${input.expiresInDays}` };
+    }
 
     const memories = await manager.store(input.content, input.category, {
       scope: input.scope as MemoryScope | undefined,
       importance: input.importance,
       tags: input.tags,
+      expiresAt: input.expiresInDays !== undefined
+        ? Date.now() + input.expiresInDays * 86400 * 1000
+        : undefined,
     });
 
     return {
       stored: memories.length,
       memoryIds: memories.map(m => m.id),
+      message: `Stored ${memories.length} memories in scope ${scope}`,
     };
   }
 
   async memory_forget(input: MemoryForgetInput): Promise<{
     deleted: number;
+    restorableIds: string[];
     message: string;
   }> {
     const manager = await getMemoryManager(this.config);
 
     if (input.id) {
-      const success = await manager.forget(input.id);
+      const existing = await manager.getById(input.id);
+      if (existing && !manager.scopes.canWrite(existing.scope)) {
+        return { deleted: 0, restorableIds: [], message: `Memory ${input.id} is in read-only scope ${existing.scope}` };
+      }
+      const success = await manager.forget(input.id, { actor: 'tool' });
       return {
         deleted: success ? 1 : 0,
-        message: success ? `Deleted memory ${input.id}` : `Memory ${input.id} not found`,
+        restorableIds: success ? [input.id] : [],
+        message: success
+          ? `Moved memory ${input.id} to trash (restore with: tinmem trash restore ${input.id})`
+          : `Memory ${input.id} not found`,
       };
     }
 
@@ -221,21 +310,32 @@ export class MemoryTools {
         categories: input.categories,
         limit: 10,
         minScore: 0.5,
+        // Only delete what the query itself matched, not memories pulled in alongside it
+        expandEntities: false,
+        followRelations: [],
+        mmr: false,
       });
 
       if (result.memories.length === 0) {
-        return { deleted: 0, message: 'No matching memories found' };
+        return { deleted: 0, restorableIds: [], message: 'No matching memories found' };
       }
 
-      const ids = result.memories.map(m => m.id);
-      const count = await manager.forgetMany(ids);
+      const ids = result.memories.filter(m => manager.scopes.canWrite(m.scope)).map(m => m.id);
+      if (ids.length === 0) {
+        return { deleted: 0, restorableIds: [], message: 'All matching memories are in read-only scopes' };
+      }
+      const trashed = await manager.forgetMany(ids, {
+        actor: 'tool',
+        reason: `memory_forget query: ${input.query}`,
+      });
       return {
-        deleted: count,
-        message: `Deleted ${count} memories matching "${input.query}"`,
+        deleted: trashed.length,
+        restorableIds: trashed,
+        message: `Moved ${trashed.length} memories matching "${input.query}" to trash. They can be restored by ID until purged.`,
       };
     }
 
-    return { deleted: 0, message: 'Please provide either id or query' };
+    return { deleted: 0, restorableIds: [], message: 'Please provide either id or query' };
   }
 
   async memory_update(input: MemoryUpdateInput): Promise<{
@@ -245,13 +345,18 @@ export class MemoryTools {
   }> {
     const manager = await getMemoryManager(this.config);
 
+    const existing = await manager.getById(input.id);
+    if (existing && !manager.scopes.canWrite(existing.scope)) {
+      return { updated: false, message: `Memory ${input.id} is in read-only scope ${existing.scope}` };
+    }
+
     const updated = await manager.update(input.id, {
       content: input.content,
       summary: input.summary,
       headline: input.headline,
       importance: input.importance,
       tags: input.tags,
-    });
+    }, { actor: 'tool' });
 
     if (!updated) {
       return { updated: false, message: `Memory ${input.id} not found` };
@@ -270,6 +375,45 @@ export class MemoryTools {
     };
   }
 
+  async memory_link(input: MemoryLinkInput): Promise<{
+    success: boolean;
+    relationId?: string;
+    message: string;
+  }> {
+    const manager = await getMemoryManager(this.config);
+
+    for (const id of [input.sourceId, input.targetId]) {
+      const existing = await manager.getById(id);
+      if (existing && !manager.scopes.canWrite(existing.scope)) {
+        return { success: false, message: `Memory ${id} is in read-only scope ${existing.scope}` };
+      }
+    }
+
+    if (input.remove) {
+      const removed = await manager.unlink(input.sourceId, input.targetId, input.type);
+      return {
+        success: removed > 0,
+        message: removed > 0
+          ? `Removed ${input.type} relation from ${input.sourceId} to ${input.targetId}`
+          : `No ${input.type} relation from ${input.sourceId} to ${input.targetId}`,
+      };
+    }
+
+    try {
+      const relation = await manager.link(input.sourceId, input.targetId, input.type, {
+        actor: 'tool',
+        reason: input.reason,
+      });
+      return {
+        success: true,
+        relationId: relation.id,
+        message: `Linked ${input.sourceId} ${input.type} ${input.targetId}`,
+      };
+    } catch (err) {
+      return { success: false, message: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
   /**
    * Dispatch tool call by name
    */
@@ -279,6 +423,7 @@ export class MemoryTools {
       case 'memory_store': return this.memory_store(input as MemoryStoreInput);
       case 'memory_forget': return this.memory_forget(input as MemoryForgetInput);
       case 'memory_update': return this.memory_update(input as MemoryUpdateInput);
+      case 'memory_link': return this.memory_link(input as MemoryLinkInput);
       default: throw new Error(`Unknown tool: ${toolName}`);
     }
   }
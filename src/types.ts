@@ -32,6 +32,22 @@ export type MemoryCategory =
  */
 export type AbstractionLevel = 'L0' | 'L1' | 'L2';
 
+/** A memory placed in injected context, and the level it was rendered at */
+export interface RenderedMemory {
+  memoryId: string;
+  level: AbstractionLevel;
+}
+
+/** Context injection built within a token budget */
+export interface BudgetedContext {
+  /** The `<agent-experience>` block ('' when nothing fit) */
+  text: string;
+  /** Estimated tokens of `text` */
+  tokensUsed: number;
+  /** Memories included, in score order */
+  rendered: RenderedMemory[];
+}
+
 // ─── Memory Scope ────────────────────────────────────────────────────────────
 
 /**
@@ -49,6 +65,67 @@ export type MemoryScope =
   | `user:${string}`
   | `custom:${string}`;
 
+/** Inheritance and access policy of a scope (see the `scopes` config) */
+export interface ScopeRule {
+  /** Scopes this one also reads from, nearest first; inheritance is transitive */
+  inherits: MemoryScope[];
+  /** false: scopes that inherit from this one skip it */
+  read: boolean;
+  /** false: agents (capture hooks and memory tools) can't write to it */
+  write: boolean;
+  /** Most memories the scope may hold; undefined = unlimited */
+  maxMemories?: number;
+}
+
+/** One scope searched for a requested scope */
+export interface ResolvedScope {
+  scope: MemoryScope;
+  /** Inheritance steps from the requested scope (0 = the scope itself) */
+  depth: number;
+  /** The scope it was inherited through (undefined at depth 0) */
+  via?: MemoryScope;
+}
+
+/** Usage of one scope, as listed by `tinmem scopes` */
+export interface ScopeSummary {
+  scope: MemoryScope;
+  /** Live memories in the scope (including expired ones not yet swept) */
+  count: number;
+  /** Latest update or recall of any of its memories (unix ms) */
+  lastActivityAt: number;
+  avgImportance: number;
+}
+
+/**
+ * Which memories are evicted first when a scope is over its quota:
+ * - importance: lowest importance
+ * - lru: least recently accessed
+ * - oldest: earliest created
+ */
+export type EvictionPolicy = 'importance' | 'lru' | 'oldest';
+
+export interface EvictionResult {
+  policy: EvictionPolicy;
+  action: SweepAction;
+  dryRun: boolean;
+  /** IDs of memories that were (or, in a dry run, would be) evicted, by scope */
+  evicted: Partial<Record<MemoryScope, string[]>>;
+}
+
+/** Outcome of copying, moving or merging one scope into another */
+export interface ScopeTransferResult {
+  source: MemoryScope;
+  target: MemoryScope;
+  /** Memories copied or moved into the target */
+  transferred: number;
+  /** Merged into a similar memory already in the target (merge only) */
+  merged: number;
+  /** Dropped as duplicates of a memory in the target (merge only) */
+  skipped: number;
+  /** Entities carried over to the target */
+  entities: number;
+}
+
 // ─── Core Memory Record ──────────────────────────────────────────────────────
 
 export interface Memory {
@@ -91,6 +168,9 @@ export interface Memory {
   /** Arbitrary metadata */
   metadata: Record<string, unknown>;
 
+  /** Expiry timestamp (unix ms); absent = never expires */
+  expiresAt?: number;
+
   /** Embedding vector (not returned in queries by default) */
   vector?: number[];
 }
@@ -112,9 +192,192 @@ export interface DedupResult {
   mergedSummary?: string;  // For MERGE: the merged L1 summary
   mergedHeadline?: string; // For MERGE: the merged L0 headline
   mergedTags?: string[];   // For MERGE: combined tags
+  supersedesId?: string;   // For CREATE: existing memory the new one replaces
   reason?: string;         // Explanation for the decision
 }
 
+// ─── Versioning ──────────────────────────────────────────────────────────────
+
+/**
+ * Who initiated a change to a memory:
+ * - tool: Agent tool call (memory_update, ...)
+ * - hook: OpenClaw lifecycle hook
+ * - cli: tinmem command-line interface
+ * - dedup: Deduplicator MERGE decision
+ * - sweeper: Expiry sweeper archiving expired memories
+ * - api: Direct programmatic MemoryManager call
+ */
+export type MemoryActor = 'tool' | 'hook' | 'cli' | 'dedup' | 'sweeper' | 'api';
+
+export type MemoryChangeOperation = 'update' | 'merge' | 'revert';
+
+export interface ChangeContext {
+  actor: MemoryActor;
+  operation?: MemoryChangeOperation;
+  reason?: string;
+}
+
+/**
+ * Snapshot of a memory as it was before an update, merge or revert.
+ * Versions are numbered per memory starting at 1.
+ */
+export interface MemoryVersion {
+  memoryId: string;
+  version: number;
+  operation: MemoryChangeOperation;
+  actor: MemoryActor;
+  reason?: string;
+  /** When the change that superseded this snapshot happened (unix ms) */
+  createdAt: number;
+  /** The record before the change (vector included when available) */
+  snapshot: Memory;
+}
+
+// ─── Trash ───────────────────────────────────────────────────────────────────
+
+/**
+ * A soft-deleted memory. Trashed memories are excluded from recall, list and
+ * stats, and are permanently purged after `trash.retentionDays`.
+ */
+export interface TrashedMemory extends Memory {
+  /** When the memory was moved to the trash (unix ms) */
+  deletedAt: number;
+  deletedBy: MemoryActor;
+  deleteReason?: string;
+}
+
+// ─── Expiration ──────────────────────────────────────────────────────────────
+
+/**
+ * What the sweeper does with expired memories:
+ * - archive: Move to the trash (restorable until purged)
+ * - delete: Remove permanently, including history
+ */
+export type SweepAction = 'archive' | 'delete';
+
+export interface SweepResult {
+  action: SweepAction;
+  dryRun: boolean;
+  /** IDs of expired memories that were (or, in a dry run, would be) swept */
+  memoryIds: string[];
+}
+
+// ─── Crash Recovery ──────────────────────────────────────────────────────────
+
+/**
+ * Row replacements guarded by the write-ahead journal:
+ * - update: content/metadata update, merge or revert
+ * - access: access-count bump during recall
+ */
+export type JournalOperation = 'update' | 'access';
+
+/**
+ * What init() did with an interrupted journal entry:
+ * - replayed: the row was missing and the new version was written
+ * - rolled-back: replay failed, so the previous version was restored
+ * - completed: the row was intact; only the journal entry was cleared
+ */
+export type RecoveryAction = 'replayed' | 'rolled-back' | 'completed';
+
+export interface RecoveredRecord {
+  memoryId: string;
+  operation: JournalOperation;
+  action: RecoveryAction;
+  /** When the interrupted mutation started (unix ms) */
+  journaledAt: number;
+}
+
+export interface RecoveryReport {
+  recoveredAt: number;
+  records: RecoveredRecord[];
+}
+
+// ─── Snapshots ───────────────────────────────────────────────────────────────
+
+/**
+ * Why a snapshot was taken:
+ * - manual: Requested explicitly (CLI or MemoryManager.snapshot())
+ * - forget-scope: Automatically before forgetting a whole scope
+ * - reembed: Automatically before re-embedding
+ * - restore: Automatically before restoring another snapshot
+ * - scope-change: Automatically before renaming, moving or merging a scope
+ */
+export type SnapshotTrigger = 'manual' | 'forget-scope' | 'reembed' | 'restore' | 'scope-change';
+
+/**
+ * A labeled point-in-time state of the whole store, including vectors,
+ * trash and history.
+ */
+export interface Snapshot {
+  id: string;
+  label: string;
+  trigger: SnapshotTrigger;
+  createdAt: number;
+  /** Store schema version when the snapshot was taken */
+  schemaVersion: number;
+  /** Memories in the store (including expired ones) at snapshot time */
+  memoryCount: number;
+  /** Table name → table version captured by the snapshot */
+  tableVersions: Record<string, number>;
+}
+
+// ─── Maintenance ─────────────────────────────────────────────────────────────
+
+export interface IndexInfo {
+  name: string;
+  /** e.g. FTS, IVF_PQ */
+  type: string;
+  columns: string[];
+  indexedRows: number;
+  /** Rows added since the index was last built or optimized (searched without the index) */
+  unindexedRows: number;
+}
+
+/**
+ * What maintenance did with the ANN vector index:
+ * - created: the table crossed `maintenance.vectorIndexThreshold`
+ * - rebuilt: retrained (forced, or the table doubled since training)
+ * - updated: new rows were added to the existing index
+ * - none: below the threshold, no index
+ */
+export type VectorIndexAction = 'created' | 'rebuilt' | 'updated' | 'none';
+
+export interface MaintenanceReport {
+  /** Totals across the memories, trash, history, relations and entities tables */
+  compaction: {
+    fragmentsRemoved: number;
+    fragmentsAdded: number;
+    filesRemoved: number;
+    filesAdded: number;
+  };
+  prune: {
+    versionsRemoved: number;
+    bytesRemoved: number;
+  };
+  vectorIndex: VectorIndexAction;
+  /** Columns whose full-text indexes were rebuilt */
+  ftsIndexesRebuilt: string[];
+  sizeBeforeBytes: number;
+  sizeAfterBytes: number;
+  durationMs: number;
+}
+
+// ─── Encryption ──────────────────────────────────────────────────────────────
+
+export interface ReencryptReport {
+  /** Key ID new values are encrypted with (undefined: the store is now plaintext) */
+  keyId?: string;
+  /** Rows rewritten per table */
+  memories: number;
+  trash: number;
+  history: number;
+  /** Old table versions removed so earlier plaintext or ciphertext is gone */
+  versionsPruned: number;
+  /** Snapshots dropped because their table versions were pruned */
+  snapshotsDropped: number;
+  durationMs: number;
+}
+
 // ─── Extraction Results ──────────────────────────────────────────────────────
 
 export interface ExtractedMemory {
@@ -125,6 +388,60 @@ export interface ExtractedMemory {
   importance: number;
   tags: string[];
   metadata?: Record<string, unknown>;
+  /** How long the fact stays relevant; absent = use the category default */
+  expiresInDays?: number;
+  /** Named things the memory is about, resolved against the entity registry */
+  entities?: EntityMention[];
+}
+
+// ─── Filters ─────────────────────────────────────────────────────────────────
+
+/** Inclusive time range (unix ms); either bound may be omitted */
+export interface TimeRange {
+  from?: number;
+  to?: number;
+}
+
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Structured filter for list, search and recall. All given conditions must
+ * hold; on top of the scope and category filters.
+ */
+export interface MemoryFilter {
+  tags?: {
+    /** At least one of these tags */
+    any?: string[];
+    /** Every one of these tags */
+    all?: string[];
+    /** At least one tag starting with one of these prefixes */
+    prefix?: string[];
+  };
+  importance?: { min?: number; max?: number };
+  createdAt?: TimeRange;
+  updatedAt?: TimeRange;
+  lastAccessedAt?: TimeRange;
+  /** Top-level metadata keys that must equal these values */
+  metadata?: Record<string, MetadataValue>;
+}
+
+/**
+ * Flat filter shape accepted by agent tools and the CLI. Times may be unix
+ * ms, ISO dates or relative durations like "30d", "12h" or "2w" (ago).
+ */
+export interface MemoryFilterInput {
+  tags?: string[];
+  allTags?: string[];
+  tagPrefixes?: string[];
+  minImportance?: number;
+  maxImportance?: number;
+  createdAfter?: string | number;
+  createdBefore?: string | number;
+  updatedAfter?: string | number;
+  updatedBefore?: string | number;
+  accessedAfter?: string | number;
+  accessedBefore?: string | number;
+  metadata?: Record<string, MetadataValue>;
 }
 
 // ─── Retrieval ───────────────────────────────────────────────────────────────
@@ -132,18 +449,57 @@ export interface ExtractedMemory {
 export interface RetrievalOptions {
   scope?: MemoryScope | MemoryScope[];
   categories?: MemoryCategory[];
+  filter?: MemoryFilter;
   limit?: number;
   minScore?: number;
   level?: AbstractionLevel;
+  /** Drop memories that a live memory supersedes (default: retrieval.excludeSuperseded) */
+  excludeSuperseded?: boolean;
+  /** Also return memories linked to the results by these relations (default: retrieval.followRelations) */
+  followRelations?: RelationType[];
+  /** Add the memories of entities named in the query (default: retrieval.expandEntities) */
+  expandEntities?: boolean;
+  /** Also search the scopes that `scope` inherits from (see the `scopes` config) */
+  inheritScopes?: boolean;
+  /** Rewrite the query with the LLM before searching (default: retrieval.queryExpansion.mode) */
+  queryExpansion?: QueryExpansionMode;
+  /** Diversify results with maximal marginal relevance (default: retrieval.mmr.enabled) */
+  mmr?: boolean;
+  /** MMR relevance vs. diversity trade-off, 0-1 (default: retrieval.mmr.lambda) */
+  mmrLambda?: number;
 }
 
+/**
+ * How the LLM rewrites a query before searching:
+ * - off: search the query as given
+ * - multi-query: also search several standalone sub-queries
+ * - hyde: also search a hypothetical memory that would answer the query
+ */
+export type QueryExpansionMode = 'off' | 'multi-query' | 'hyde';
+
+/**
+ * How vector and BM25 results are turned into comparable scores before weighting:
+ * - weighted: cosine similarity, and BM25 divided by the best BM25 score in the batch
+ * - rrf: reciprocal rank fusion; each result's rank per source, scaled by the weighted score
+ * - zscore: each source standardized against its own batch (the batch mean scores 0.5)
+ */
+export type FusionStrategy = 'weighted' | 'rrf' | 'zscore';
+
 export interface ScoredMemory extends Memory {
   score: number;
   vectorScore: number;
   bm25Score: number;
+  /** Fusion strategy that produced vectorScore and bm25Score */
+  fusion: FusionStrategy;
   rerankScore?: number;
   recencyBoost: number;
   importanceBoost: number;
+  /** MMR penalty for resembling higher-ranked results: (1 - lambda) × closest similarity */
+  diversityPenalty?: number;
+  /** Set when the memory was pulled in by following a relation from another result */
+  linkedFrom?: { memoryId: string; type: RelationType };
+  /** Set to the memory's scope when it was found through scope inheritance */
+  inheritedFrom?: MemoryScope;
 }
 
 export interface RetrievalResult {
@@ -153,6 +509,125 @@ export interface RetrievalResult {
   timingMs: number;
 }
 
+// ─── Listing ─────────────────────────────────────────────────────────────────
+
+export type ListOrderField = 'createdAt' | 'updatedAt' | 'lastAccessedAt' | 'importance' | 'accessCount';
+export type ListOrderDir = 'asc' | 'desc';
+
+export interface ListOptions {
+  scope?: MemoryScope | MemoryScope[];
+  categories?: MemoryCategory[];
+  filter?: MemoryFilter;
+  limit?: number;
+  /** Skip this many rows (prefer `cursor` for stable paging) */
+  offset?: number;
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  orderBy?: ListOrderField;
+  orderDir?: ListOrderDir;
+  /** Include memories past their expiresAt (default: false) */
+  includeExpired?: boolean;
+}
+
+export interface ListResult {
+  memories: Memory[];
+  /** Pass as `cursor` to fetch the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+// ─── Relations ───────────────────────────────────────────────────────────────
+
+/**
+ * Typed edge between two memories, read as "source <type> target":
+ * - supersedes: source replaces target, which is now outdated
+ * - relatedTo: both are about the same thing (treated as symmetric)
+ * - derivedFrom: source was inferred or summarized from target
+ * - mergedFrom: source absorbed target's content
+ */
+export type RelationType = 'supersedes' | 'relatedTo' | 'derivedFrom' | 'mergedFrom';
+
+export interface MemoryRelation {
+  id: string;
+  sourceId: string;
+  targetId: string;
+  type: RelationType;
+  createdAt: number;
+  actor: MemoryActor;
+  reason?: string;
+}
+
+/** Which edges of a memory to read: outgoing (it is the source), incoming, or both */
+export type RelationDirection = 'out' | 'in' | 'both';
+
+export interface RelationQuery {
+  direction?: RelationDirection;
+  types?: RelationType[];
+}
+
+/** A relation seen from one memory, with the memory at the other end */
+export interface MemoryLink {
+  relation: MemoryRelation;
+  direction: 'out' | 'in';
+  memory: Memory;
+}
+
+/** A memory reached while traversing relations */
+export interface LinkedMemory extends MemoryLink {
+  /** Number of hops from the starting memory (1 = direct link) */
+  depth: number;
+}
+
+// ─── Entities ────────────────────────────────────────────────────────────────
+
+export type EntityType = 'person' | 'project' | 'organization' | 'tool' | 'place' | 'other';
+
+/**
+ * A named thing with one registry entry per scope, so "TaskFlow", "taskflow
+ * app" and "the TF project" resolve to the same ID.
+ */
+export interface Entity {
+  id: string;
+  /** Canonical display name */
+  name: string;
+  type: EntityType;
+  /** Other names the entity goes by (the canonical name is not repeated) */
+  aliases: string[];
+  attributes: Record<string, unknown>;
+  scope: MemoryScope;
+  /** Memories about this entity, oldest link first */
+  memoryIds: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** An entity as named in an extracted memory */
+export interface EntityMention {
+  name: string;
+  type?: EntityType;
+  aliases?: string[];
+}
+
+export interface EntityListOptions {
+  scope?: MemoryScope | MemoryScope[];
+  type?: EntityType;
+  /** Only entities linked to this memory */
+  memoryId?: string;
+}
+
+// ─── Tags ────────────────────────────────────────────────────────────────────
+
+export interface TagCount {
+  tag: string;
+  /** Memories carrying the tag */
+  count: number;
+}
+
+export interface TagListOptions {
+  scope?: MemoryScope;
+  /** Only tags starting with this prefix */
+  prefix?: string;
+}
+
 // ─── Context Injection ───────────────────────────────────────────────────────
 
 export interface InjectedContext {
@@ -200,7 +675,31 @@ export interface MemoryStats {
   oldestMemory?: number;
   newestMemory?: number;
   avgImportance: number;
+  /** On-disk size of the store, including old table versions */
   dbSizeBytes?: number;
+  /** Data fragments in the memories table; many small ones slow reads until compacted */
+  fragmentCount?: number;
+  /** Indexes on the memories table */
+  indexes?: IndexInfo[];
+  /** When `tinmem maintain` last ran (unix ms) */
+  lastMaintenanceAt?: number;
+  /** Most recent startup that repaired interrupted writes */
+  lastRecovery?: RecoveryReport;
+  /** Quota of each scope in byScope that has one (see `scopes.defaultMaxMemories`) */
+  quotas?: Record<string, number>;
+  /** Persistent embedding cache, when enabled */
+  embeddingCache?: EmbeddingCacheStats;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  /** Lookups answered from the cache since it was last cleared */
+  hits: number;
+  /** Lookups that had to call the embedding provider */
+  misses: number;
 }
 
 export interface ExportData {
@@ -215,9 +714,13 @@ export interface ExportData {
 export interface MemoryRecallInput {
   query: string;
   scope?: MemoryScope | MemoryScope[];
+  /** Also search the scopes `scope` inherits from (default: true) */
+  inherit?: boolean;
   categories?: MemoryCategory[];
+  filter?: MemoryFilterInput;
   limit?: number;
   level?: AbstractionLevel;
+  expand?: QueryExpansionMode;
 }
 
 export interface MemoryStoreInput {
@@ -226,6 +729,7 @@ export interface MemoryStoreInput {
   scope?: MemoryScope;
   importance?: number;
   tags?: string[];
+  expiresInDays?: number;
 }
 
 export interface MemoryForgetInput {
@@ -235,6 +739,15 @@ export interface MemoryForgetInput {
   categories?: MemoryCategory[];
 }
 
+export interface MemoryLinkInput {
+  sourceId: string;
+  targetId: string;
+  type: RelationType;
+  reason?: string;
+  /** Remove the link instead of adding it */
+  remove?: boolean;
+}
+
 export interface MemoryUpdateInput {
   id: string;
   content?: string;
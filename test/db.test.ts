@@ -0,0 +1,126 @@
+/**
+ * Tests specific to the LanceDB storage backend (shared behaviour is in
+ * store-contract.test.ts)
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TinmemDB, getDB } from '../src/memory/db.js';
+import { FieldCipher } from '../src/memory/encryption.js';
+import { makeMemory } from './store-fixtures.js';
+
+let dir: string;
+let store: TinmemDB;
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'tinmem-lancedb-'));
+  store = new TinmemDB(dir, 4);
+  await store.init();
+});
+
+afterEach(async () => {
+  await store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('TinmemDB', () => {
+  describe('fullTextSearch()', () => {
+    it('should not let expired memories take result slots', async () => {
+      for (let i = 0; i < 3; i++) await store.insert(makeMemory({ headline: `expired ${i}`, expiresAt: Date.now() - 1000 }));
+      await store.insert(makeMemory({ headline: 'live' }));
+      // Once every row is indexed, expiry is part of the search's WHERE clause
+      await store.maintain({ pruneOlderThanDays: 7, vectorIndexThreshold: 1000 });
+
+      expect((await store.fullTextSearch('typescript', { limit: 1 })).map(r => r.headline)).toEqual(['live']);
+    });
+
+    it('should apply filters to rows added since the FTS index was built', async () => {
+      await store.insert(makeMemory({ headline: 'indexed' }));
+      await store.maintain({ pruneOlderThanDays: 7, vectorIndexThreshold: 1000 });
+      await store.insert(makeMemory({ headline: 'new', scope: 'agent:x' }));
+      await store.insert(makeMemory({ headline: 'new expired', scope: 'agent:x', expiresAt: Date.now() - 1000 }));
+
+      const results = await store.fullTextSearch('typescript', { limit: 10, scope: 'agent:x' });
+      expect(results.map(r => r.headline)).toEqual(['new']);
+    });
+  });
+
+  describe('crash recovery', () => {
+    /** Reopen the store as the next process would after a crash */
+    async function reopen(): Promise<TinmemDB> {
+      const next = new TinmemDB(dir, 4);
+      await next.init();
+      return next;
+    }
+
+    it('should roll back an update whose delete never ran and drop its history version', async () => {
+      const created = await store.insert(makeMemory());
+      const { table } = store as unknown as { table: { delete(where: string): Promise<void> } };
+      jest.spyOn(table, 'delete').mockRejectedValueOnce(new Error('crash'));
+      await expect(store.update(created.id, { content: 'Never landed' }, { actor: 'cli' })).rejects.toThrow('crash');
+
+      const next = await reopen();
+      expect(next.getRecovery()?.records).toEqual([
+        expect.objectContaining({ memoryId: created.id, operation: 'update', action: 'rolled-back' }),
+      ]);
+      expect((await next.getById(created.id))?.content).toBe(makeMemory().content);
+      expect(await next.getHistory(created.id)).toEqual([]);
+    });
+
+    it('should report an update whose new row landed as completed', async () => {
+      const created = await store.insert(makeMemory());
+      const { journal } = store as unknown as { journal: { commit(entry: unknown): void } };
+      jest.spyOn(journal, 'commit').mockImplementationOnce(() => {});
+      await store.update(created.id, { content: 'Landed' }, { actor: 'cli' });
+
+      const next = await reopen();
+      expect(next.getRecovery()?.records).toEqual([expect.objectContaining({ memoryId: created.id, action: 'completed' })]);
+      expect((await next.getById(created.id))?.content).toBe('Landed');
+      expect(await next.getHistory(created.id)).toHaveLength(1);
+    });
+  });
+
+  describe('maintain', () => {
+    const options = { pruneOlderThanDays: 0, vectorIndexThreshold: 1000 };
+
+    it('should prune old versions and rebuild the FTS indexes', async () => {
+      const created = await store.insert(makeMemory());
+      await store.update(created.id, { content: 'The user writes Rust at work.' });
+      await store.update(created.id, { content: 'The user writes Go at work.' });
+
+      const report = await store.maintain(options);
+      expect(report.prune.versionsRemoved).toBeGreaterThan(0);
+      expect(report.vectorIndex).toBe('none');
+      expect(report.ftsIndexesRebuilt).toEqual(['content', 'summary', 'headline']);
+
+      const hits = await store.fullTextSearch('Go', { limit: 5 });
+      expect(hits.map(h => h.id)).toEqual([created.id]);
+      expect((await store.getStats()).indexes!.map(i => i.columns[0]).sort()).toEqual(['content', 'headline', 'summary']);
+    });
+
+    it('should keep the versions a snapshot points at', async () => {
+      const created = await store.insert(makeMemory());
+      const snapshot = await store.createSnapshot('before-edit', 'manual');
+      await store.update(created.id, { content: 'Edited after the snapshot' });
+
+      await store.maintain(options);
+      expect(await store.restoreSnapshot(snapshot.id)).toMatchObject({ label: 'before-edit' });
+      expect((await store.getById(created.id))?.content).toBe(makeMemory().content);
+    });
+  });
+
+  describe('getDB', () => {
+    it('should share an instance only between callers with the same options', async () => {
+      const shared = await getDB(dir, 4, { autoMigrate: true });
+      expect(await getDB(dir, 4, { autoMigrate: true })).toBe(shared);
+      expect(await getDB(dir, 4, { autoMigrate: false })).not.toBe(shared);
+
+      const encrypted = await getDB(dir, 4, { cipher: new FieldCipher(Buffer.alloc(32, 1)) });
+      expect(encrypted).not.toBe(shared);
+      expect(await getDB(dir, 4, { cipher: new FieldCipher(Buffer.alloc(32, 1)) })).toBe(encrypted);
+      expect(await getDB(dir, 4, { cipher: new FieldCipher(Buffer.alloc(32, 2)) })).not.toBe(encrypted);
+    });
+  });
+});
@@ -6,7 +6,7 @@ import { describe, it, expect, jest } from '@jest/globals';
 import { MemoryDeduplicator } from '../src/memory/deduplicator.js';
 import type { TinmemConfig } from '../src/config.js';
 import type { Memory } from '../src/types.js';
-import type { TinmemDB } from '../src/memory/db.js';
+import type { MemoryStore } from '../src/memory/store.js';
 import type { EmbeddingService } from '../src/embeddings.js';
 import type { LLMService } from '../src/llm.js';
 
@@ -14,10 +14,18 @@ function makeConfig(strategy: 'llm' | 'vector' | 'both' = 'llm'): TinmemConfig {
   return {
     dbPath: '/tmp/test-tinmem',
     defaultScope: 'global',
+    scopes: { defaultInherits: ['global'], rules: {}, eviction: { policy: 'importance', action: 'archive', onInsert: true } },
     embedding: { provider: 'openai', apiKey: 'test', model: 'text-embedding-3-small', dimensions: 1536 },
+    embeddingCache: { enabled: false, maxEntries: 50000, maxSizeMB: 256 },
     llm: { apiKey: 'test', model: 'gpt-4o-mini', maxTokens: 2048, temperature: 0.1 },
     deduplication: { strategy, similarityThreshold: 0.85, llmThreshold: 0.90 },
-    retrieval: { limit: 10, minScore: 0.3, hybrid: true, candidateMultiplier: 3 },
+    retrieval: {
+      limit: 10, minScore: 0.3, hybrid: true, candidateMultiplier: 3,
+      excludeSuperseded: true, followRelations: [], maxLinked: 3, expandEntities: true,
+      fusion: { strategy: 'weighted', rrfK: 60 },
+      queryExpansion: { mode: 'off', maxQueries: 3, cacheSize: 256, cacheTtlMinutes: 60 },
+      mmr: { enabled: false, lambda: 0.7 },
+    },
     scoring: {
       vectorWeight: 0.4, bm25Weight: 0.3, rerankerWeight: 0.3,
       recencyBoostDays: 7, recencyBoostFactor: 0.15,
@@ -28,9 +36,21 @@ function makeConfig(strategy: 'llm' | 'vector' | 'both' = 'llm'): TinmemConfig {
       minContentLength: 20,
       skipPatterns: [],
     },
+    storage: {
+      backend: 'lancedb',
+      autoMigrate: true,
+      lock: { timeoutMs: 10000, staleMs: 30000, retryIntervalMs: 50 },
+    },
+    encryption: { enabled: false, keyEnv: 'TINMEM_ENCRYPTION_KEY' },
+    trash: { retentionDays: 30 },
+    ttl: { defaults: {}, sweepAction: 'archive', sweepOnStartup: true },
+    snapshots: { retain: 10, autoSnapshot: true },
+    maintenance: { pruneOlderThanDays: 7, vectorIndexThreshold: 10000 },
     autoRecall: true,
     recallLimit: 8,
     recallMinScore: 0.4,
+    recallMaxTokens: 1500,
+    recallFullDetail: 2,
     debug: false,
   } as TinmemConfig;
 }
@@ -56,9 +76,9 @@ function makeMemory(overrides: Partial<Memory & { _distance: number }>): Memory
 }
 
 // Helper to create typed mocks
-function makeMockDb(returnValue: Array<Memory & { _distance: number }> = []): Pick<TinmemDB, 'vectorSearch'> {
+function makeMockDb(returnValue: Array<Memory & { _distance: number }> = []): Pick<MemoryStore, 'vectorSearch'> {
   return {
-    vectorSearch: jest.fn<TinmemDB['vectorSearch']>().mockResolvedValue(returnValue),
+    vectorSearch: jest.fn<MemoryStore['vectorSearch']>().mockResolvedValue(returnValue),
   };
 }
 
@@ -87,7 +107,7 @@ describe('MemoryDeduplicator', () => {
       const mockLlm = makeMockLlm();
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig(),
@@ -117,7 +137,7 @@ describe('MemoryDeduplicator', () => {
       const mockLlm = makeMockLlm();
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig(),
@@ -148,7 +168,7 @@ describe('MemoryDeduplicator', () => {
       const mockLlm = makeMockLlm();
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig(),
@@ -180,7 +200,7 @@ describe('MemoryDeduplicator', () => {
       const mockLlm = makeMockLlm();
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig('vector'),
@@ -213,7 +233,7 @@ describe('MemoryDeduplicator', () => {
       const mockLlm = makeMockLlm(JSON.stringify({ decision: 'CREATE', reason: 'Different topic' }));
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig('llm'),
@@ -236,6 +256,28 @@ describe('MemoryDeduplicator', () => {
       expect(result.decision).toBe('CREATE');
     });
 
+    it('should pass supersedesId through only for a candidate memory', async () => {
+      const similar = [makeMemory({ _distance: 0.1 })];
+      const input = {
+        headline: 'User moved to Berlin',
+        summary: 'Summary',
+        content: 'Content',
+        category: 'entities' as const,
+        importance: 0.7,
+        tags: [],
+      };
+
+      const run = (supersedesId: string) => new MemoryDeduplicator(
+        makeMockDb(similar) as unknown as MemoryStore,
+        makeMockEmbedding() as unknown as EmbeddingService,
+        makeMockLlm(JSON.stringify({ decision: 'CREATE', reason: 'Moved', supersedesId })) as unknown as LLMService,
+        makeConfig('llm'),
+      ).deduplicate(input, vector, 'global');
+
+      expect((await run('existing-id')).supersedesId).toBe('existing-id');
+      expect((await run('made-up-id')).supersedesId).toBeUndefined();
+    });
+
     it('should call LLM for MERGE decision with merged content', async () => {
       const similar = [makeMemory({ _distance: 0.1 })];
       const mockDb = makeMockDb(similar);
@@ -251,7 +293,7 @@ describe('MemoryDeduplicator', () => {
       }));
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig('llm'),
@@ -285,7 +327,7 @@ describe('MemoryDeduplicator', () => {
       };
 
       const dedup = new MemoryDeduplicator(
-        mockDb as unknown as TinmemDB,
+        mockDb as unknown as MemoryStore,
         mockEmbedding as unknown as EmbeddingService,
         mockLlm as unknown as LLMService,
         makeConfig('llm'),
@@ -0,0 +1,187 @@
+/**
+ * Tests for the persistent embedding cache
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, readdirSync, utimesSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachedEmbeddingService, COUNTERS_FLUSH_INTERVAL_MS, EmbeddingCache } from '../src/embedding-cache.js';
+import type { EmbeddingMode, EmbeddingService } from '../src/embeddings.js';
+
+const LIMITS = { maxEntries: 100, maxBytes: 1024 * 1024 };
+
+function makeEmbedding(provider = 'openai'): EmbeddingService & {
+  embedBatch: jest.Mock<(texts: string[], mode: EmbeddingMode) => Promise<number[][]>>;
+} {
+  const vectorOf = (text: string, mode: EmbeddingMode) => [text.length, mode === 'query' ? 1 : 0.5, -1];
+  return {
+    provider,
+    dimensions: 3,
+    embed: jest.fn(async (text: string, mode: EmbeddingMode) => vectorOf(text, mode)),
+    embedBatch: jest.fn(async (texts: string[], mode: EmbeddingMode) => texts.map(t => vectorOf(t, mode))),
+  };
+}
+
+describe('EmbeddingCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tinmem-embcache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should key by provider, model, dimensions and mode as well as text', () => {
+    const parts = { provider: 'openai', model: 'm', dimensions: 3, mode: 'document' as const };
+    const key = EmbeddingCache.key(parts, 'hello');
+    expect(EmbeddingCache.key({ ...parts, provider: 'jina' }, 'hello')).not.toBe(key);
+    expect(EmbeddingCache.key({ ...parts, model: 'n' }, 'hello')).not.toBe(key);
+    expect(EmbeddingCache.key({ ...parts, dimensions: 4 }, 'hello')).not.toBe(key);
+    expect(EmbeddingCache.key({ ...parts, mode: 'query' }, 'hello')).not.toBe(key);
+    expect(EmbeddingCache.key({ ...parts }, 'hello')).toBe(key);
+  });
+
+  it('should persist vectors and counters across instances', () => {
+    const cache = new EmbeddingCache(dir, LIMITS);
+    cache.set('a', [0.25, -0.5, 1]);
+    expect(cache.get('a', 3)).toEqual([0.25, -0.5, 1]);
+    expect(cache.get('b', 3)).toBeUndefined();
+    cache.flush();
+
+    const reopened = new EmbeddingCache(dir, LIMITS);
+    expect(reopened.get('a', 3)).toEqual([0.25, -0.5, 1]);
+    expect(reopened.stats()).toMatchObject({ entries: 1, sizeBytes: 12, hits: 2, misses: 1 });
+  });
+
+  it('should drop an entry with the wrong dimensions', () => {
+    const cache = new EmbeddingCache(dir, LIMITS);
+    cache.set('a', [1, 2]);
+    expect(cache.get('a', 3)).toBeUndefined();
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it('should evict the least recently used entries beyond maxEntries down to 90%', () => {
+    const limits = { ...LIMITS, maxEntries: 4 };
+    const cache = new EmbeddingCache(dir, limits);
+    ['a', 'b', 'c', 'd'].forEach((key, i) => {
+      cache.set(key, [i]);
+      // Make "a" the oldest entry on disk, then use it
+      utimesSync(join(dir, `${key}.f32`), new Date(1000 * (i + 1)), new Date(1000 * (i + 1)));
+    });
+    const reopened = new EmbeddingCache(dir, limits);
+    reopened.get('a', 1);
+    reopened.set('e', [4]);
+
+    expect(reopened.stats().entries).toBe(3);
+    expect(reopened.get('b', 1)).toBeUndefined();
+    expect(reopened.get('c', 1)).toBeUndefined();
+    expect(reopened.get('a', 1)).toEqual([0]);
+    expect(reopened.get('e', 1)).toEqual([4]);
+  });
+
+  it('should evict beyond maxBytes down to 90%', () => {
+    const cache = new EmbeddingCache(dir, { ...LIMITS, maxBytes: 48 });
+    for (const key of ['a', 'b', 'c', 'd']) cache.set(key, [1, 2, 3]);
+    expect(cache.stats()).toMatchObject({ entries: 4, sizeBytes: 48 });
+
+    cache.set('e', [4, 5, 6]);
+    expect(cache.stats()).toMatchObject({ entries: 3, sizeBytes: 36 });
+  });
+
+  it('should write counters on an interval rather than on every lookup', () => {
+    jest.useFakeTimers();
+    try {
+      const cache = new EmbeddingCache(dir, LIMITS);
+      cache.set('a', [1]);
+      cache.get('a', 1);
+      cache.get('b', 1);
+      expect(existsSync(join(dir, 'counters.json'))).toBe(false);
+
+      jest.advanceTimersByTime(COUNTERS_FLUSH_INTERVAL_MS);
+      expect(new EmbeddingCache(dir, LIMITS).stats()).toMatchObject({ hits: 1, misses: 1 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should keep counts pending while another process holds the counters lock', () => {
+    const cache = new EmbeddingCache(dir, LIMITS);
+    cache.set('a', [1]);
+    cache.get('a', 1);
+    writeFileSync(join(dir, 'counters.lock'), '');
+
+    cache.flush();
+    expect(new EmbeddingCache(dir, LIMITS).stats().hits).toBe(0);
+    expect(cache.stats().hits).toBe(1);
+
+    rmSync(join(dir, 'counters.lock'));
+    cache.flush();
+    expect(new EmbeddingCache(dir, LIMITS).stats().hits).toBe(1);
+  });
+
+  it('should remove every vector and reset the counters on clear', () => {
+    const cache = new EmbeddingCache(dir, LIMITS);
+    cache.set('a', [1]);
+    cache.set('b', [2]);
+    cache.get('a', 1);
+    cache.flush();
+
+    expect(cache.clear()).toBe(2);
+    expect(readdirSync(dir)).toEqual([]);
+    expect(new EmbeddingCache(dir, LIMITS).stats()).toMatchObject({ entries: 0, hits: 0, misses: 0 });
+  });
+});
+
+describe('CachedEmbeddingService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tinmem-embcache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only embed texts it has not seen', async () => {
+    const inner = makeEmbedding();
+    const service = new CachedEmbeddingService(inner, new EmbeddingCache(dir, LIMITS), 'small');
+
+    expect(await service.embed('hello', 'document')).toEqual([5, 0.5, -1]);
+    const vectors = await service.embedBatch(['hello', 'hi', 'hi'], 'document');
+
+    expect(vectors).toEqual([[5, 0.5, -1], [2, 0.5, -1], [2, 0.5, -1]]);
+    expect(inner.embed).toHaveBeenCalledTimes(1);
+    expect(inner.embedBatch).toHaveBeenCalledWith(['hi'], 'document');
+    expect(service.cache.stats()).toMatchObject({ entries: 2, hits: 1, misses: 2 });
+  });
+
+  it('should cache query and document embeddings separately', async () => {
+    const inner = makeEmbedding();
+    const service = new CachedEmbeddingService(inner, new EmbeddingCache(dir, LIMITS), 'small');
+
+    await service.embed('hello', 'document');
+    expect(await service.embed('hello', 'query')).toEqual([5, 1, -1]);
+    expect(inner.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not share vectors between providers', async () => {
+    const cache = new EmbeddingCache(dir, LIMITS);
+    await new CachedEmbeddingService(makeEmbedding('openai'), cache, 'm').embed('hello', 'document');
+
+    const other = makeEmbedding('jina');
+    await new CachedEmbeddingService(other, cache, 'm').embed('hello', 'document');
+    expect(other.embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep embedding when the cache cannot be written', async () => {
+    const cache = new EmbeddingCache(join(dir, 'missing'), LIMITS);
+    jest.spyOn(cache, 'set').mockImplementation(() => { throw new Error('EROFS'); });
+    const service = new CachedEmbeddingService(makeEmbedding(), cache, 'm');
+
+    expect(await service.embed('hello', 'document')).toEqual([5, 0.5, -1]);
+  });
+});
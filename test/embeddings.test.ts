@@ -2,8 +2,9 @@
  * Tests for embedding utilities
  */
 
-import { describe, it, expect } from '@jest/globals';
-import { cosineSimilarity, normalizeVector } from '../src/embeddings.js';
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { cosineSimilarity, createEmbeddingService, normalizeVector, type EmbeddingMode } from '../src/embeddings.js';
+import type { TinmemConfig } from '../src/config.js';
 
 describe('cosineSimilarity()', () => {
   it('should return 1.0 for identical vectors', () => {
@@ -69,3 +70,58 @@ describe('normalizeVector()', () => {
     expect(result[2]).toBeCloseTo(0, 5);
   });
 });
+
+describe('query vs. document embeddings', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /** The JSON body sent to the provider for one embed() call in `mode` */
+  async function requestBody(embedding: Record<string, unknown>, mode: EmbeddingMode, response: unknown) {
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify(response), { status: 200 }),
+    );
+    const config = {
+      embedding: { apiKey: 'test', dimensions: 3, ...embedding },
+      embeddingCache: { enabled: false },
+    } as unknown as TinmemConfig;
+
+    await createEmbeddingService(config).embed('dark mode', mode);
+    return JSON.parse(fetchMock.mock.calls[0]![1]!.body as string) as Record<string, unknown>;
+  }
+
+  const openaiResponse = { data: [{ embedding: [1, 0, 0], index: 0 }] };
+  const geminiResponse = { embedding: { values: [1, 0, 0] } };
+  const ollamaResponse = { embeddings: [[1, 0, 0]] };
+
+  it('should use the Jina retrieval tasks', async () => {
+    const jina = { provider: 'jina', model: 'jina-embeddings-v3', baseUrl: 'https://api.jina.ai/v1' };
+    expect((await requestBody(jina, 'query', openaiResponse)).task).toBe('retrieval.query');
+    jest.restoreAllMocks();
+    expect((await requestBody(jina, 'document', openaiResponse)).task).toBe('retrieval.passage');
+  });
+
+  it('should set the Gemini task type', async () => {
+    const gemini = { provider: 'gemini', model: 'text-embedding-004', baseUrl: 'https://example.test' };
+    expect((await requestBody(gemini, 'query', geminiResponse)).taskType).toBe('RETRIEVAL_QUERY');
+    jest.restoreAllMocks();
+    expect((await requestBody(gemini, 'document', geminiResponse)).taskType).toBe('RETRIEVAL_DOCUMENT');
+  });
+
+  it('should add the nomic task prefixes for nomic models on Ollama only', async () => {
+    const nomic = { provider: 'ollama', model: 'nomic-embed-text', baseUrl: 'http://localhost:11434/api' };
+    expect((await requestBody(nomic, 'query', ollamaResponse)).input).toBe('search_query: dark mode');
+    jest.restoreAllMocks();
+    expect((await requestBody(nomic, 'document', ollamaResponse)).input).toBe('search_document: dark mode');
+    jest.restoreAllMocks();
+    const other = { ...nomic, model: 'mxbai-embed-large' };
+    expect((await requestBody(other, 'query', ollamaResponse)).input).toBe('dark mode');
+  });
+
+  it('should send OpenAI queries and documents alike', async () => {
+    const openai = { provider: 'openai', model: 'text-embedding-3-small' };
+    const query = await requestBody(openai, 'query', openaiResponse);
+    jest.restoreAllMocks();
+    expect(await requestBody(openai, 'document', openaiResponse)).toEqual(query);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for field encryption and key loading
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FieldCipher, createFieldCipher, generateKey, isEncrypted, keyId, loadKey, parseKey,
+} from '../src/memory/encryption.js';
+
+const KEY_A = parseKey('a'.repeat(64));
+const KEY_B = parseKey('b'.repeat(64));
+
+describe('FieldCipher', () => {
+  const cipher = new FieldCipher(KEY_A);
+
+  it('should round-trip a value', () => {
+    const sealed = cipher.encrypt('content', 'User lives in Berlin');
+    expect(isEncrypted(sealed)).toBe(true);
+    expect(sealed).not.toContain('Berlin');
+    expect(sealed.startsWith(`enc:v1:${keyId(KEY_A)}:`)).toBe(true);
+    expect(cipher.decrypt('content', sealed)).toBe('User lives in Berlin');
+  });
+
+  it('should use a fresh IV for every value', () => {
+    expect(cipher.encrypt('content', 'same')).not.toBe(cipher.encrypt('content', 'same'));
+  });
+
+  it('should pass plaintext through decrypt()', () => {
+    expect(cipher.decrypt('summary', 'written before encryption')).toBe('written before encryption');
+  });
+
+  it('should reject a tampered value', () => {
+    const sealed = cipher.encrypt('content', 'secret');
+    const payload = Buffer.from(sealed.split(':')[3]!, 'base64');
+    payload[payload.length - 1] ^= 1;
+    const tampered = `enc:v1:${keyId(KEY_A)}:${payload.toString('base64')}`;
+    expect(() => cipher.decrypt('content', tampered)).toThrow(/authentication failed/);
+  });
+
+  it('should reject a value moved to another field', () => {
+    const sealed = cipher.encrypt('content', 'secret');
+    expect(() => cipher.decrypt('headline', sealed)).toThrow(/authentication failed/);
+  });
+
+  it('should reject a value encrypted with an unknown key', () => {
+    const sealed = new FieldCipher(KEY_B).encrypt('content', 'secret');
+    expect(() => cipher.decrypt('content', sealed)).toThrow(/unknown key/);
+  });
+
+  it('should decrypt with previous keys but encrypt with the new one', () => {
+    const oldValue = new FieldCipher(KEY_A).encrypt('content', 'old');
+    const rotating = new FieldCipher(KEY_B, [KEY_A]);
+
+    expect(rotating.decrypt('content', oldValue)).toBe('old');
+    expect(rotating.keyId).toBe(keyId(KEY_B));
+    expect(rotating.encrypt('content', 'new')).toContain(`:${keyId(KEY_B)}:`);
+  });
+});
+
+describe('parseKey()', () => {
+  it('should accept hex and base64 keys', () => {
+    const hex = generateKey();
+    expect(parseKey(hex)).toHaveLength(32);
+    expect(parseKey(Buffer.from(hex, 'hex').toString('base64')).equals(Buffer.from(hex, 'hex'))).toBe(true);
+  });
+
+  it('should reject keys of the wrong length', () => {
+    expect(() => parseKey('abcd')).toThrow(/32 bytes/);
+  });
+});
+
+describe('loadKey()', () => {
+  const ENV = 'TINMEM_TEST_ENCRYPTION_KEY';
+  let dir: string | undefined;
+
+  afterEach(() => {
+    delete process.env[ENV];
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should prefer the environment variable over the key file', () => {
+    dir = mkdtempSync(join(tmpdir(), 'tinmem-key-'));
+    const keyFile = join(dir, 'key');
+    writeFileSync(keyFile, `${'b'.repeat(64)}\n`);
+
+    expect(loadKey({ keyEnv: ENV, keyFile })?.equals(KEY_B)).toBe(true);
+    process.env[ENV] = 'a'.repeat(64);
+    expect(loadKey({ keyEnv: ENV, keyFile })?.equals(KEY_A)).toBe(true);
+  });
+
+  it('should report a missing key', () => {
+    expect(loadKey({ keyEnv: ENV })).toBeUndefined();
+    expect(() => createFieldCipher({ keyEnv: ENV })).toThrow(/No encryption key found/);
+    expect(() => loadKey({ keyFile: '/nonexistent/tinmem.key' })).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for entity name matching and merging
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeEntityName, entityKeys, withAliases, queryEntityKeys, mergeEntityFields,
+} from '../src/memory/entities.js';
+import type { Entity } from '../src/types.js';
+
+function makeEntity(overrides: Partial<Entity> = {}): Entity {
+  return {
+    id: '00000000-0000-4000-8000-000000000001',
+    name: 'TaskFlow',
+    type: 'project',
+    aliases: [],
+    attributes: {},
+    scope: 'global',
+    memoryIds: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('normalizeEntityName()', () => {
+  it('should fold case, punctuation and whitespace', () => {
+    expect(normalizeEntityName('  Task-Flow!  App ')).toBe('task flow app');
+    expect(normalizeEntityName('ÉCOLE')).toBe('école');
+    expect(normalizeEntityName('?!')).toBe('');
+  });
+});
+
+describe('entityKeys()', () => {
+  it('should return distinct keys for the name and aliases', () => {
+    expect(entityKeys({ name: 'TaskFlow', aliases: ['taskflow', 'TF', 'the TF project'] }))
+      .toEqual(['taskflow', 'tf', 'the tf project']);
+  });
+});
+
+describe('withAliases()', () => {
+  it('should only add names the entity does not already go by', () => {
+    expect(withAliases({ name: 'TaskFlow', aliases: ['TF'] }, ['taskflow', ' TaskFlow App ', 'tf', 'taskflow app']))
+      .toEqual(['TF', 'TaskFlow App']);
+  });
+});
+
+describe('queryEntityKeys()', () => {
+  it('should return every run of up to four words', () => {
+    const keys = queryEntityKeys('How is the TF project going?');
+    expect(keys).toContain('tf');
+    expect(keys).toContain('the tf project');
+    expect(keys).toContain('is the tf project');
+    expect(keys).not.toContain('how is the tf project');
+  });
+});
+
+describe('mergeEntityFields()', () => {
+  it('should turn source names into aliases and combine memories', () => {
+    const target = makeEntity({ aliases: ['TF'], attributes: { owner: 'ana' }, memoryIds: ['m1'] });
+    const source = makeEntity({
+      id: '00000000-0000-4000-8000-000000000002',
+      name: 'taskflow app',
+      aliases: ['tf', 'Flow'],
+      attributes: { owner: 'bob', repo: 'tf' },
+      memoryIds: ['m1', 'm2'],
+    });
+
+    expect(mergeEntityFields(target, [source])).toEqual({
+      aliases: ['TF', 'taskflow app', 'Flow'],
+      attributes: { owner: 'ana', repo: 'tf' },
+      memoryIds: ['m1', 'm2'],
+    });
+  });
+});
@@ -11,10 +11,18 @@ function makeConfig(overrides?: Partial<TinmemConfig>): TinmemConfig {
   return {
     dbPath: '/tmp/test-tinmem',
     defaultScope: 'global',
+    scopes: { defaultInherits: ['global'], rules: {}, eviction: { policy: 'importance', action: 'archive', onInsert: true } },
     embedding: { provider: 'openai', apiKey: 'test', model: 'text-embedding-3-small', dimensions: 1536 },
+    embeddingCache: { enabled: false, maxEntries: 50000, maxSizeMB: 256 },
     llm: { apiKey: 'test', model: 'gpt-4o-mini', maxTokens: 2048, temperature: 0.1 },
     deduplication: { strategy: 'llm', similarityThreshold: 0.85, llmThreshold: 0.90 },
-    retrieval: { limit: 10, minScore: 0.3, hybrid: true, candidateMultiplier: 3 },
+    retrieval: {
+      limit: 10, minScore: 0.3, hybrid: true, candidateMultiplier: 3,
+      excludeSuperseded: true, followRelations: [], maxLinked: 3, expandEntities: true,
+      fusion: { strategy: 'weighted', rrfK: 60 },
+      queryExpansion: { mode: 'off', maxQueries: 3, cacheSize: 256, cacheTtlMinutes: 60 },
+      mmr: { enabled: false, lambda: 0.7 },
+    },
     scoring: {
       vectorWeight: 0.4, bm25Weight: 0.3, rerankerWeight: 0.3,
       recencyBoostDays: 7, recencyBoostFactor: 0.15,
@@ -25,9 +33,21 @@ function makeConfig(overrides?: Partial<TinmemConfig>): TinmemConfig {
       minContentLength: 20,
       skipPatterns: ['^(hi|hello|hey|thanks|thank you|ok|okay|yes|no|sure|great)[\\.!?]?$'],
     },
+    storage: {
+      backend: 'lancedb',
+      autoMigrate: true,
+      lock: { timeoutMs: 10000, staleMs: 30000, retryIntervalMs: 50 },
+    },
+    encryption: { enabled: false, keyEnv: 'TINMEM_ENCRYPTION_KEY' },
+    trash: { retentionDays: 30 },
+    ttl: { defaults: {}, sweepAction: 'archive', sweepOnStartup: true },
+    snapshots: { retain: 10, autoSnapshot: true },
+    maintenance: { pruneOlderThanDays: 7, vectorIndexThreshold: 10000 },
     autoRecall: true,
     recallLimit: 8,
     recallMinScore: 0.4,
+    recallMaxTokens: 1500,
+    recallFullDetail: 2,
     debug: false,
     ...overrides,
   } as TinmemConfig;
@@ -133,6 +153,54 @@ describe('MemoryExtractor', () => {
       expect(result[0]!.importance).toBeLessThanOrEqual(1.0);
     });
 
+    it('should keep a positive expiresInDays and drop invalid ones', async () => {
+      const base = { summary: 'Summary', content: 'Content', category: 'events', importance: 0.5, tags: [] };
+      const llmResponse = JSON.stringify([
+        { ...base, headline: 'User is travelling this week', expiresInDays: 7 },
+        { ...base, headline: 'Negative TTL', expiresInDays: -3 },
+        { ...base, headline: 'String TTL', expiresInDays: 'soon' },
+      ]);
+
+      const llm = makeLLM(llmResponse);
+      const extractor = new MemoryExtractor(llm, makeConfig());
+
+      const result = await extractor.extractFromTurn(
+        'I am in Berlin for a conference until Friday.',
+        'Enjoy the conference! Let me know if you need anything.',
+      );
+
+      expect(result.map(m => m.expiresInDays)).toEqual([7, undefined, undefined]);
+    });
+
+    it('should keep well-formed entity mentions', async () => {
+      const llmResponse = JSON.stringify([{
+        headline: 'User leads the TaskFlow project',
+        summary: 'Summary',
+        content: 'Content',
+        category: 'entities',
+        importance: 0.7,
+        tags: [],
+        entities: [
+          { name: ' TaskFlow ', type: 'project', aliases: ['TF', 42, ''] },
+          { name: 'Acme', type: 'company' },
+          { type: 'person' },
+        ],
+      }]);
+
+      const llm = makeLLM(llmResponse);
+      const extractor = new MemoryExtractor(llm, makeConfig());
+
+      const result = await extractor.extractFromTurn(
+        'I am leading TaskFlow (we call it TF) at Acme now.',
+        'Congratulations on leading the project!',
+      );
+
+      expect(result[0]!.entities).toEqual([
+        { name: 'TaskFlow', type: 'project', aliases: ['TF'] },
+        { name: 'Acme', type: undefined, aliases: [] },
+      ]);
+    });
+
     it('should handle LLM returning empty array', async () => {
       const llm = makeLLM('[]');
       const extractor = new MemoryExtractor(llm, makeConfig());
@@ -0,0 +1,130 @@
+/**
+ * Tests for structured memory filters
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compileFilter, matchesFilter, parseTimeBound, filterFromInput, isEmptyFilter,
+} from '../src/memory/filter.js';
+import type { Memory } from '../src/types.js';
+
+function makeMemory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    headline: 'Docker setup',
+    summary: 'Docker setup',
+    content: 'Docker setup',
+    category: 'cases',
+    scope: 'global',
+    importance: 0.8,
+    tags: ['docker', 'ops'],
+    metadata: { repo: 'api', stars: 3, pinned: true },
+    createdAt: 1_000,
+    updatedAt: 2_000,
+    accessCount: 0,
+    lastAccessedAt: 2_000,
+    ...overrides,
+  };
+}
+
+describe('compileFilter()', () => {
+  it('should return no clauses for no filter', () => {
+    expect(compileFilter(undefined)).toEqual([]);
+  });
+
+  it('should compile tags, ranges and metadata', () => {
+    const clauses = compileFilter({
+      tags: { any: ['docker', 'k8s'], all: ['ops'] },
+      importance: { min: 0.5 },
+      createdAt: { from: 10, to: 20 },
+      metadata: { repo: 'api' },
+    });
+    expect(clauses).toEqual([
+      "array_has_any(`tags`, make_array('docker', 'k8s'))",
+      "array_has_all(`tags`, make_array('ops'))",
+      '`importance` >= 0.5',
+      '`createdAt` >= 10',
+      '`createdAt` <= 20',
+      `(strpos(\`metadata\`, '"repo":"api",') > 0 OR strpos(\`metadata\`, '"repo":"api"}') > 0)`,
+    ]);
+  });
+
+  it('should escape quotes in tag and metadata values', () => {
+    const [tagClause, metaClause] = compileFilter({ tags: { all: ["it's"] }, metadata: { note: "o'k" } });
+    expect(tagClause).toBe("array_has_all(`tags`, make_array('it''s'))");
+    expect(metaClause).toContain(`'"note":"o''k",'`);
+  });
+
+  it('should match tag prefixes at the start of a tag only', () => {
+    const [clause] = compileFilter({ tags: { prefix: ['project:'] } });
+    expect(clause).toBe(
+      "(strpos(concat('\u001f', array_to_string(`tags`, '\u001f')), '\u001fproject:') > 0)",
+    );
+    expect(() => compileFilter({ tags: { prefix: ['a\u001fb'] } })).toThrow('Invalid tag');
+  });
+
+  it('should reject unsafe keys and non-finite bounds', () => {
+    expect(() => compileFilter({ metadata: { "a' OR 1=1 --": 'x' } })).toThrow('Invalid metadata key');
+    expect(() => compileFilter({ importance: { min: NaN } })).toThrow('Invalid importance.min');
+    expect(() => compileFilter({ metadata: { repo: {} as unknown as string } })).toThrow('Invalid metadata filter value');
+  });
+});
+
+describe('matchesFilter()', () => {
+  it('should match tags any/all', () => {
+    expect(matchesFilter(makeMemory(), { tags: { any: ['k8s', 'ops'] } })).toBe(true);
+    expect(matchesFilter(makeMemory(), { tags: { all: ['docker', 'k8s'] } })).toBe(false);
+    expect(matchesFilter(makeMemory(), { tags: { prefix: ['doc'] } })).toBe(true);
+    expect(matchesFilter(makeMemory(), { tags: { prefix: ['ker'] } })).toBe(false);
+  });
+
+  it('should match ranges inclusively', () => {
+    expect(matchesFilter(makeMemory(), { importance: { min: 0.8, max: 0.8 } })).toBe(true);
+    expect(matchesFilter(makeMemory(), { updatedAt: { from: 2_001 } })).toBe(false);
+  });
+
+  it('should compare metadata by type', () => {
+    expect(matchesFilter(makeMemory(), { metadata: { repo: 'api', stars: 3, pinned: true } })).toBe(true);
+    expect(matchesFilter(makeMemory(), { metadata: { stars: '3' } })).toBe(false);
+    expect(matchesFilter(makeMemory(), { metadata: { missing: 'x' } })).toBe(false);
+  });
+});
+
+describe('parseTimeBound()', () => {
+  const now = Date.UTC(2025, 0, 31);
+
+  it('should parse durations relative to now', () => {
+    expect(parseTimeBound('30d', now)).toBe(now - 30 * 86400 * 1000);
+    expect(parseTimeBound('12h', now)).toBe(now - 12 * 3600 * 1000);
+  });
+
+  it('should parse ISO dates and unix ms', () => {
+    expect(parseTimeBound('2025-01-01', now)).toBe(Date.UTC(2025, 0, 1));
+    expect(parseTimeBound('1700000000000', now)).toBe(1_700_000_000_000);
+    expect(parseTimeBound(42, now)).toBe(42);
+  });
+
+  it('should reject garbage', () => {
+    expect(() => parseTimeBound('last tuesday', now)).toThrow('Invalid time');
+  });
+});
+
+describe('filterFromInput()', () => {
+  it('should return undefined for an empty input', () => {
+    expect(filterFromInput(undefined)).toBeUndefined();
+    expect(filterFromInput({ tags: [], metadata: {} })).toBeUndefined();
+    expect(isEmptyFilter({})).toBe(true);
+  });
+
+  it('should map the flat input shape', () => {
+    const now = 1_000_000;
+    expect(filterFromInput({ tags: ['a'], minImportance: 0.7, createdAfter: '1m', metadata: { k: 1 } }, now)).toEqual({
+      tags: { any: ['a'], all: undefined },
+      importance: { min: 0.7, max: undefined },
+      createdAt: { from: now - 60_000, to: undefined },
+      updatedAt: undefined,
+      lastAccessedAt: undefined,
+      metadata: { k: 1 },
+    });
+  });
+});
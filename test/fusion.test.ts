@@ -0,0 +1,121 @@
+/**
+ * Tests for hybrid result fusion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { combineFused, fuseResults, type FusionOptions } from '../src/memory/fusion.js';
+import { MemoryScorer } from '../src/memory/scorer.js';
+import { TinmemConfigSchema } from '../src/config.js';
+import type { FusionStrategy, Memory } from '../src/types.js';
+
+function makeMemory(id: string): Memory {
+  const now = Date.now();
+  return {
+    id,
+    headline: id,
+    summary: id,
+    content: id,
+    category: 'patterns',
+    scope: 'global',
+    importance: 0.5,
+    createdAt: now,
+    updatedAt: now,
+    accessCount: 0,
+    lastAccessedAt: now,
+    tags: [],
+    metadata: {},
+  };
+}
+
+const vector = (id: string, similarity: number) => ({ ...makeMemory(id), _distance: 1 - similarity });
+const bm25 = (id: string, score: number) => ({ ...makeMemory(id), _score: score });
+const options = (strategy: FusionStrategy): FusionOptions => ({ strategy, rrfK: 60 });
+
+function scoresById(fused: ReturnType<typeof fuseResults>): Record<string, [number, number]> {
+  return Object.fromEntries(fused.map(m => [m.id, [m.vectorScore, m.bm25Score]]));
+}
+
+describe('fuseResults()', () => {
+  it('should keep cosine similarity and max-normalize BM25 with weighted', () => {
+    const fused = fuseResults([vector('a', 0.9), vector('b', 0.5)], [bm25('b', 2), bm25('c', 8)], options('weighted'));
+    expect(scoresById(fused)).toEqual({ a: [0.9, 0], b: [0.5, 0.25], c: [0, 1] });
+    expect(fused.every(m => m.fusion === 'weighted')).toBe(true);
+  });
+
+  it('should score by rank per source, scaled by relevance, with rrf', () => {
+    // BM25 hits arrive unsorted; ranks come from their scores
+    const fused = fuseResults([vector('a', 0.9), vector('b', 0.2)], [bm25('a', 1), bm25('b', 3)], options('rrf'));
+    const scores = scoresById(fused);
+    expect(scores.a![0]).toBeCloseTo(0.9);
+    expect(scores.a![1]).toBeCloseTo(61 / 62 / 3);
+    expect(scores.b![0]).toBeCloseTo(61 / 62 * 0.2);
+    expect(scores.b![1]).toBe(1);
+    expect(fused[0]!.fusion).toBe('rrf');
+  });
+
+  it('should give half credit with rrf to keyword hits vector search missed', () => {
+    const fused = fuseResults([vector('a', 0.9), vector('b', 0.8)], [bm25('a', 5), bm25('c', 5)], options('rrf'));
+    const scores = scoresById(fused);
+    expect(scores.a).toEqual([0.9, 1]);
+    expect(scores.c![1]).toBeCloseTo(61 / 62 / 2);
+    // An unrelated keyword hit doesn't cost vector-only hits anything
+    expect(scores.b![0]).toBeCloseTo(61 / 62 * 0.8);
+
+    // A vector search that found nothing says nothing about the keyword hits
+    expect(scoresById(fuseResults([], [bm25('c', 5)], options('rrf')))).toEqual({ c: [0, 1] });
+  });
+
+  it('should keep weak vector-only hits low with rrf when BM25 finds nothing', () => {
+    const fused = fuseResults([vector('a', 0.2), vector('b', 0.15), vector('c', 0.1)], [], options('rrf'));
+    const scores = scoresById(fused);
+    // Ranked first, but no more relevant than its similarity
+    expect(scores.a![0]).toBeCloseTo(0.2);
+    expect(scores.c![0]).toBeCloseTo(61 / 63 * 0.1);
+
+    const config = TinmemConfigSchema.parse({ embedding: { provider: 'openai', apiKey: 'test' }, llm: { apiKey: 'test' } });
+    const lastAccessedAt = Date.now() - 30 * 86400000;
+    const scored = new MemoryScorer(config).score(fused.map(m => ({ ...m, importance: 0, lastAccessedAt })));
+    expect(scored.every(m => m.score < config.retrieval.minScore)).toBe(true);
+  });
+
+  it('should keep a weak keyword-only match below the default minScore with rrf', () => {
+    const config = TinmemConfigSchema.parse({ embedding: { provider: 'openai', apiKey: 'test' }, llm: { apiKey: 'test' } });
+    // No importance or recency boost, so only the fused scores count
+    const lastAccessedAt = Date.now() - 30 * 86400000;
+    const fused = fuseResults(
+      [vector('a', 0.9), vector('b', 0.85)],
+      [bm25('a', 4), bm25('c', 0.2)],
+      options('rrf'),
+    ).map(m => ({ ...m, importance: 0, lastAccessedAt }));
+
+    const scored = new MemoryScorer(config).score(fused);
+    expect(scored.find(m => m.id === 'c')!.score).toBeLessThan(config.retrieval.minScore);
+    expect(scored.find(m => m.id === 'a')!.score).toBeGreaterThan(config.retrieval.minScore);
+  });
+
+  it('should standardize each source against its batch with zscore', () => {
+    const fused = fuseResults([vector('a', 0.9), vector('b', 0.7), vector('c', 0.5)], [bm25('c', 5)], options('zscore'));
+    const scores = scoresById(fused);
+    expect(scores.b![0]).toBeCloseTo(0.5);
+    expect(scores.a![0]).toBeGreaterThan(0.5);
+    expect(scores.c![0]).toBeLessThan(0.5);
+    // A lone BM25 hit is average for its batch, not a perfect match
+    expect(scores.c![1]).toBeCloseTo(0.5);
+  });
+
+  it('should count entity matches as full keyword matches', () => {
+    for (const strategy of ['weighted', 'rrf', 'zscore'] as const) {
+      const fused = fuseResults([vector('a', 0.4)], [], options(strategy), new Set(['a']));
+      expect(fused[0]!.bm25Score).toBe(1);
+    }
+  });
+});
+
+describe('combineFused()', () => {
+  it('should keep the best score per source across searches', () => {
+    const first = fuseResults([vector('a', 0.9), vector('b', 0.3)], [bm25('b', 1)], options('weighted'));
+    const second = fuseResults([vector('b', 0.6)], [bm25('a', 2), bm25('c', 4)], options('weighted'));
+
+    expect(scoresById(combineFused([first, second]))).toEqual({ a: [0.9, 0.5], b: [0.6, 1], c: [0, 1] });
+  });
+});
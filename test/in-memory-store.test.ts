@@ -0,0 +1,30 @@
+/**
+ * Tests specific to the in-memory storage backend (shared behaviour is in
+ * store-contract.test.ts)
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { InMemoryStore } from '../src/memory/in-memory-store.js';
+import { makeMemory } from './store-fixtures.js';
+
+let store: InMemoryStore;
+
+beforeEach(async () => {
+  store = new InMemoryStore(4);
+  await store.init();
+});
+
+describe('InMemoryStore', () => {
+  describe('fullTextSearch()', () => {
+    it('should rank documents with rarer matching terms higher', async () => {
+      await store.insert(makeMemory({ headline: 'Uses PostgreSQL', content: 'Database is PostgreSQL', tags: [] }));
+      await store.insert(makeMemory({ headline: 'Uses React', content: 'Frontend is React', tags: [] }));
+      await store.insert(makeMemory({ headline: 'Uses React Native', content: 'Mobile app is React Native', tags: [] }));
+
+      const results = await store.fullTextSearch('postgresql react', { limit: 10 });
+      expect(results).toHaveLength(3);
+      expect(results[0]!.headline).toBe('Uses PostgreSQL');
+      expect(results.every(r => r._score > 0)).toBe(true);
+    });
+  });
+});
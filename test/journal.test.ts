@@ -0,0 +1,67 @@
+/**
+ * Tests for the write-ahead journal
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WriteAheadJournal, JOURNAL_DIR_NAME } from '../src/memory/journal.js';
+
+let dbPath: string;
+
+beforeEach(() => {
+  dbPath = mkdtempSync(join(tmpdir(), 'tinmem-journal-'));
+});
+
+afterEach(() => {
+  rmSync(dbPath, { recursive: true, force: true });
+});
+
+describe('WriteAheadJournal', () => {
+  it('should report nothing for a store without a journal', () => {
+    expect(new WriteAheadJournal(dbPath).pending()).toEqual([]);
+  });
+
+  it('should keep entries until they are committed', () => {
+    const journal = new WriteAheadJournal(dbPath);
+    const entry = journal.begin('update', 'm1', { id: 'm1', content: 'old' }, { id: 'm1', content: 'new' });
+
+    const pending = new WriteAheadJournal(dbPath).pending();
+    expect(pending).toHaveLength(1);
+    expect(pending[0]).toMatchObject({
+      operation: 'update',
+      memoryId: 'm1',
+      before: { content: 'old' },
+      after: { content: 'new' },
+    });
+
+    journal.commit(entry);
+    expect(journal.pending()).toEqual([]);
+  });
+
+  it('should return entries in write order', () => {
+    const journal = new WriteAheadJournal(dbPath);
+    journal.begin('update', 'm1', {}, {});
+    journal.begin('access', 'm2', {}, {});
+    journal.begin('update', 'm3', {}, {});
+
+    expect(journal.pending().map(e => e.memoryId)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should store typed-array vectors as plain arrays', () => {
+    const journal = new WriteAheadJournal(dbPath);
+    journal.begin('access', 'm1', { vector: new Float32Array([1, 2]) }, { vector: [1, 2] });
+
+    expect(journal.pending()[0]!.before.vector).toEqual([1, 2]);
+  });
+
+  it('should discard torn temp files', () => {
+    const journal = new WriteAheadJournal(dbPath);
+    journal.begin('update', 'm1', {}, {});
+    writeFileSync(join(journal.dir, '000-torn.json.tmp'), '{"id":');
+
+    expect(journal.pending()).toHaveLength(1);
+    expect(readdirSync(join(dbPath, JOURNAL_DIR_NAME)).some(n => n.endsWith('.tmp'))).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the inter-process write lock
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync, existsSync, utimesSync } from 'fs';
+import { tmpdir, hostname } from 'os';
+import { join } from 'path';
+import { DirectoryLock, LockTimeoutError, LOCK_FILE_NAME } from '../src/memory/lock.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'tinmem-lock-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeForeignLock(pid: number, host = hostname()): void {
+  writeFileSync(
+    join(dir, LOCK_FILE_NAME),
+    JSON.stringify({ pid, hostname: host, acquiredAt: Date.now(), token: 'foreign' }),
+  );
+}
+
+describe('DirectoryLock', () => {
+  it('should create the lock file while held and remove it on release', async () => {
+    const lock = new DirectoryLock(dir);
+
+    const release = await lock.acquire();
+    expect(lock.readHolder()?.pid).toBe(process.pid);
+
+    release();
+    expect(existsSync(join(dir, LOCK_FILE_NAME))).toBe(false);
+  });
+
+  it('should time out while another holder is alive', async () => {
+    const lock = new DirectoryLock(dir, { timeoutMs: 100, retryIntervalMs: 10 });
+    const release = await lock.acquire();
+
+    await expect(lock.acquire()).rejects.toBeInstanceOf(LockTimeoutError);
+    release();
+  });
+
+  it('should hand the lock over once the holder releases', async () => {
+    const lock = new DirectoryLock(dir, { timeoutMs: 1000, retryIntervalMs: 10 });
+    const release = await lock.acquire();
+
+    const waiting = lock.acquire();
+    setTimeout(release, 50);
+
+    const releaseSecond = await waiting;
+    expect(lock.readHolder()?.pid).toBe(process.pid);
+    releaseSecond();
+  });
+
+  it('should break a lock left by a dead process on this host', async () => {
+    // PIDs are bounded well below this on every supported platform
+    writeForeignLock(2 ** 30);
+    const lock = new DirectoryLock(dir, { timeoutMs: 100, retryIntervalMs: 10 });
+
+    const release = await lock.acquire();
+    expect(lock.readHolder()?.token).not.toBe('foreign');
+    release();
+  });
+
+  it('should break a lock whose lease has expired', async () => {
+    writeForeignLock(1, 'some-other-host');
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(join(dir, LOCK_FILE_NAME), old, old);
+    const lock = new DirectoryLock(dir, { timeoutMs: 100, staleMs: 1000, retryIntervalMs: 10 });
+
+    const release = await lock.acquire();
+    expect(lock.readHolder()?.hostname).toBe(hostname());
+    release();
+  });
+
+  it('should not break a fresh lock held on another host', async () => {
+    writeForeignLock(1, 'some-other-host');
+    const lock = new DirectoryLock(dir, { timeoutMs: 100, staleMs: 10_000, retryIntervalMs: 10 });
+
+    await expect(lock.acquire()).rejects.toThrow(/pid 1 on some-other-host/);
+  });
+
+  it('should release the lock when the callback throws', async () => {
+    const lock = new DirectoryLock(dir);
+
+    await expect(lock.withLock(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(existsSync(join(dir, LOCK_FILE_NAME))).toBe(false);
+  });
+
+  it('should leave a lock it no longer owns in place', async () => {
+    const lock = new DirectoryLock(dir);
+    const release = await lock.acquire();
+
+    // Simulate our lease being broken and taken over by someone else
+    writeForeignLock(1, 'some-other-host');
+    release();
+
+    expect(lock.readHolder()?.token).toBe('foreign');
+  });
+});
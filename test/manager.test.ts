@@ -0,0 +1,109 @@
+/**
+ * Tests for MemoryManager startup housekeeping and scope quotas
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryManager } from '../src/memory/manager.js';
+import { SqliteStore } from '../src/memory/sqlite-store.js';
+import { TinmemConfigSchema, type TinmemConfig } from '../src/config.js';
+import { makeMemory } from './store-fixtures.js';
+
+function makeConfig(dbPath: string, retentionDays: number, overrides: Record<string, unknown> = {}): TinmemConfig {
+  return TinmemConfigSchema.parse({
+    dbPath,
+    storage: { backend: 'sqlite' },
+    embedding: { provider: 'openai', apiKey: 'test', dimensions: 4 },
+    embeddingCache: { enabled: false },
+    llm: { apiKey: 'test' },
+    trash: { retentionDays },
+    ...overrides,
+  });
+}
+
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'tinmem-manager-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('MemoryManager.init()', () => {
+  it('should purge trash past the retention window on startup', async () => {
+    const store = new SqliteStore(dir, 4);
+    await store.init();
+    const memory = await store.insert({
+      headline: 'Old note', summary: 'Old note', content: 'Old note', category: 'events', scope: 'global',
+      importance: 0.5, tags: [], metadata: {}, vector: [1, 0, 0, 0],
+    });
+    await store.delete(memory.id);
+    await store.close();
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const keeping = new MemoryManager(makeConfig(dir, 30));
+    await keeping.init();
+    expect((await keeping.listTrash()).map(m => m.id)).toEqual([memory.id]);
+
+    const purging = new MemoryManager(makeConfig(dir, 0));
+    await purging.init();
+    expect(await purging.listTrash()).toEqual([]);
+  });
+});
+
+describe('MemoryManager scope transfers', () => {
+  it('should evict over-quota memories from the target scope', async () => {
+    const store = new SqliteStore(dir, 4);
+    await store.init();
+    await store.insert(makeMemory({ headline: 'Kept', scope: 'agent:a', importance: 0.9 }));
+    await store.insert(makeMemory({ headline: 'Evicted', scope: 'agent:a', importance: 0.1 }));
+    await store.insert(makeMemory({ headline: 'Copied', scope: 'agent:b', importance: 0.5 }));
+    await store.close();
+
+    const manager = new MemoryManager(makeConfig(dir, 30, {
+      scopes: { rules: { 'agent:x': { read: true, write: true, maxMemories: 1 } } },
+    }));
+    await manager.init();
+
+    await manager.moveScope('agent:a', 'agent:x');
+    expect((await manager.listTrash()).map(m => m.headline)).toEqual(['Evicted']);
+
+    await manager.copyScope('agent:b', 'agent:x');
+    expect((await manager.listScopes()).find(s => s.scope === 'agent:x')?.count).toBe(1);
+  });
+});
+
+describe('MemoryManager.revert()', () => {
+  async function movedMemory(): Promise<string> {
+    const store = new SqliteStore(dir, 4);
+    await store.init();
+    const memory = await store.insert(makeMemory({ scope: 'agent:a' }));
+    await store.update(memory.id, { scope: 'agent:b' });
+    await store.close();
+    return memory.id;
+  }
+
+  it('should move a memory back to the scope of the version', async () => {
+    const id = await movedMemory();
+    const manager = new MemoryManager(makeConfig(dir, 30));
+    await manager.init();
+
+    expect((await manager.revert(id, 1))?.scope).toBe('agent:a');
+  });
+
+  it('should refuse to revert into a read-only scope', async () => {
+    const id = await movedMemory();
+    const manager = new MemoryManager(makeConfig(dir, 30, {
+      scopes: { rules: { 'agent:a': { read: true, write: false } } },
+    }));
+    await manager.init();
+
+    await expect(manager.revert(id, 1)).rejects.toThrow(/read-only scope agent:a/);
+    expect((await manager.getById(id))?.scope).toBe('agent:b');
+  });
+});
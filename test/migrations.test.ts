@@ -0,0 +1,129 @@
+/**
+ * Tests for schema migrations
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import type * as lancedb from '@lancedb/lancedb';
+import {
+  MIGRATIONS, LATEST_SCHEMA_VERSION,
+  runMigrations, addColumnsStep, createTableStep,
+  type Migration, type MigrationContext,
+} from '../src/memory/migrations.js';
+
+// Minimal in-memory stand-in for a LanceDB connection: tracks tables and their columns
+function makeFakeDb(initial: Record<string, string[]> = {}) {
+  const tables = new Map(Object.entries(initial).map(([name, cols]) => [name, new Set(cols)]));
+
+  const openTable = jest.fn(async (name: string) => {
+    const cols = tables.get(name);
+    if (!cols) throw new Error(`Table ${name} not found`);
+    return {
+      schema: async () => ({ fields: [...cols].map(c => ({ name: c })) }),
+      addColumns: async (adds: Array<{ name: string; valueSql: string }>) => {
+        for (const a of adds) cols.add(a.name);
+      },
+      delete: async () => {},
+    };
+  });
+
+  const db = {
+    tableNames: async () => [...tables.keys()],
+    openTable,
+    createTable: jest.fn(async (name: string, rows: Array<Record<string, unknown>>) => {
+      tables.set(name, new Set(Object.keys(rows[0] ?? {})));
+      return openTable(name);
+    }),
+  };
+
+  const ctx: MigrationContext = { db: db as unknown as lancedb.Connection, dimensions: 4 };
+  return { ctx, tables, db };
+}
+
+describe('MIGRATIONS registry', () => {
+  it('should be strictly increasing starting at 1', () => {
+    MIGRATIONS.forEach((m, i) => expect(m.version).toBe(i + 1));
+    expect(LATEST_SCHEMA_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1]!.version);
+  });
+});
+
+describe('runMigrations', () => {
+  it('should create every table for a new store', async () => {
+    const { ctx, tables } = makeFakeDb();
+    const onApplied = jest.fn<(version: number) => void>();
+
+    const report = await runMigrations(ctx, 0, { onApplied });
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(tables.has('memories')).toBe(true);
+    expect(tables.has('memory_history')).toBe(true);
+    expect(tables.has('memory_trash')).toBe(true);
+    expect(onApplied).toHaveBeenCalledTimes(MIGRATIONS.length);
+  });
+
+  it('should only run migrations newer than the stored version', async () => {
+    const { ctx, db } = makeFakeDb({ memories: ['id', 'vector'] });
+
+    const report = await runMigrations(ctx, 1);
+
+    expect(report.migrations.map(m => m.version)).not.toContain(1);
+    expect(db.createTable).not.toHaveBeenCalledWith('memories', expect.anything(), expect.anything());
+  });
+
+  it('should not modify anything in dry-run mode', async () => {
+    const { ctx, tables } = makeFakeDb({ memories: ['id', 'vector'] });
+    const onApplied = jest.fn<(version: number) => void>();
+
+    const report = await runMigrations(ctx, 1, { dryRun: true, onApplied });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.migrations.find(m => m.version === 2)?.changes).toEqual([
+      'create table memory_history',
+      'create table memory_trash',
+    ]);
+    expect(tables.has('memory_history')).toBe(false);
+    expect(onApplied).not.toHaveBeenCalled();
+  });
+
+  it('should skip steps whose changes already exist', async () => {
+    const { ctx } = makeFakeDb({ memories: ['id'], memory_history: ['id'], memory_trash: ['id'] });
+
+    const report = await runMigrations(ctx, 1);
+
+    expect(report.migrations.find(m => m.version === 2)?.changes).toEqual([]);
+  });
+
+  it('should add expiresAt to stores created before expiration existed', async () => {
+    const { ctx, tables } = makeFakeDb({ memories: ['id'], memory_history: ['id'], memory_trash: ['id'] });
+
+    await runMigrations(ctx, 2);
+
+    expect(tables.get('memories')?.has('expiresAt')).toBe(true);
+    expect(tables.get('memory_trash')?.has('expiresAt')).toBe(true);
+  });
+
+  it('should add only missing columns', async () => {
+    const { ctx, tables } = makeFakeDb({ memories: ['id', 'pinned'] });
+    const migrations: Migration[] = [
+      { version: 1, description: 'base', steps: [createTableStep('memories', () => ({ id: '' }))] },
+      {
+        version: 2,
+        description: 'add flags',
+        steps: [addColumnsStep('memories', [
+          { name: 'pinned', valueSql: 'false' },
+          { name: 'expiresAt', valueSql: 'CAST(0 AS DOUBLE)' },
+        ])],
+      },
+    ];
+
+    const report = await runMigrations(ctx, 1, { migrations });
+
+    expect(report.migrations).toHaveLength(1);
+    expect(tables.get('memories')).toEqual(new Set(['id', 'pinned', 'expiresAt']));
+  });
+
+  it('should refuse stores from a newer schema version', async () => {
+    const { ctx } = makeFakeDb();
+    await expect(runMigrations(ctx, LATEST_SCHEMA_VERSION + 1)).rejects.toThrow(/newer/);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for maximal marginal relevance diversification
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diversify } from '../src/memory/mmr.js';
+import type { ScoredMemory } from '../src/types.js';
+
+function makeScored(id: string, score: number): ScoredMemory {
+  const now = Date.now();
+  return {
+    id,
+    headline: id,
+    summary: id,
+    content: id,
+    category: 'preferences',
+    scope: 'global',
+    importance: 0.5,
+    createdAt: now,
+    updatedAt: now,
+    accessCount: 0,
+    lastAccessedAt: now,
+    tags: [],
+    metadata: {},
+    score,
+    vectorScore: score,
+    bm25Score: 0,
+    fusion: 'weighted',
+    recencyBoost: 0,
+    importanceBoost: 0,
+  };
+}
+
+// Three near-identical preferences and one memory about something else
+const memories = [makeScored('dark-1', 0.9), makeScored('dark-2', 0.88), makeScored('dark-3', 0.86), makeScored('editor', 0.7)];
+const vectors = new Map([
+  ['dark-1', [1, 0, 0]],
+  ['dark-2', [0.99, 0.1, 0]],
+  ['dark-3', [0.98, 0.12, 0]],
+  ['editor', [0, 0, 1]],
+]);
+
+describe('diversify()', () => {
+  it('should keep the relevance order with lambda 1', () => {
+    const picked = diversify(memories, vectors, 3, 1);
+    expect(picked.map(m => m.id)).toEqual(['dark-1', 'dark-2', 'dark-3']);
+    expect(picked.every(m => m.diversityPenalty === 0)).toBe(true);
+  });
+
+  it('should promote a different memory over near-duplicates', () => {
+    const picked = diversify(memories, vectors, 2, 0.5);
+    expect(picked.map(m => m.id)).toEqual(['dark-1', 'editor']);
+    expect(picked[0]!.diversityPenalty).toBe(0);
+    expect(picked[1]!.diversityPenalty).toBe(0);
+  });
+
+  it('should report the penalty of each pick and leave scores unchanged', () => {
+    const picked = diversify(memories, vectors, 4, 0.5);
+    expect(picked.map(m => m.id)).toEqual(['dark-1', 'editor', 'dark-2', 'dark-3']);
+    expect(picked[2]!.diversityPenalty).toBeGreaterThan(0.45);
+    expect(picked[2]!.score).toBe(0.88);
+  });
+
+  it('should treat memories without vectors as unlike the rest', () => {
+    const picked = diversify(memories, new Map([['dark-1', [1, 0, 0]]]), 2, 0.5);
+    expect(picked.map(m => m.id)).toEqual(['dark-1', 'dark-2']);
+  });
+});
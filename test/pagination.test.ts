@@ -0,0 +1,95 @@
+/**
+ * Tests for cursor pagination helpers
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  encodeCursor, decodeCursor, comparePositions, paginate, assertOrderField,
+} from '../src/memory/pagination.js';
+
+type Row = { id: string; importance: number };
+
+function rows(): Row[] {
+  // Several ties on importance to exercise the id tie-breaker
+  return [
+    { id: 'a', importance: 0.5 },
+    { id: 'b', importance: 0.9 },
+    { id: 'c', importance: 0.5 },
+    { id: 'd', importance: 0.1 },
+    { id: 'e', importance: 0.5 },
+    { id: 'f', importance: 0.9 },
+    { id: 'g', importance: 0.3 },
+  ];
+}
+
+const positionOf = (r: Row) => ({ value: r.importance, id: r.id });
+
+describe('cursor encoding', () => {
+  it('should round-trip a position', () => {
+    const cursor = encodeCursor('importance', 'desc', { value: 0.7, id: 'abc' });
+    expect(decodeCursor(cursor, 'importance', 'desc')).toEqual({ value: 0.7, id: 'abc' });
+  });
+
+  it('should reject a cursor issued for a different ordering', () => {
+    const cursor = encodeCursor('importance', 'desc', { value: 0.7, id: 'abc' });
+    expect(() => decodeCursor(cursor, 'createdAt', 'desc')).toThrow(/issued for/);
+    expect(() => decodeCursor(cursor, 'importance', 'asc')).toThrow(/issued for/);
+  });
+
+  it('should reject malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor', 'createdAt', 'desc')).toThrow('Invalid list cursor');
+    const bad = Buffer.from(JSON.stringify({ o: 'createdAt', d: 'desc', v: 'x', id: 1 })).toString('base64url');
+    expect(() => decodeCursor(bad, 'createdAt', 'desc')).toThrow('Invalid list cursor');
+  });
+});
+
+describe('assertOrderField', () => {
+  it('should accept known fields and reject others', () => {
+    expect(() => assertOrderField('importance')).not.toThrow();
+    expect(() => assertOrderField('headline')).toThrow(/Invalid order field/);
+  });
+});
+
+describe('comparePositions', () => {
+  it('should break ties by id in the same direction', () => {
+    expect(comparePositions({ value: 1, id: 'a' }, { value: 1, id: 'b' }, 'asc')).toBeLessThan(0);
+    expect(comparePositions({ value: 1, id: 'a' }, { value: 1, id: 'b' }, 'desc')).toBeGreaterThan(0);
+    expect(comparePositions({ value: 1, id: 'a' }, { value: 1, id: 'a' }, 'desc')).toBe(0);
+  });
+});
+
+describe('paginate', () => {
+  it('should walk every row exactly once in global order', () => {
+    const seen: string[] = [];
+    let after: { value: number; id: string } | undefined;
+
+    for (let i = 0; i < 10; i++) {
+      const { page, next } = paginate(rows(), positionOf, { orderDir: 'desc', limit: 2, after });
+      seen.push(...page.map(r => r.id));
+      if (!next) break;
+      after = next;
+    }
+
+    expect(seen).toEqual(['f', 'b', 'e', 'c', 'a', 'g', 'd']);
+  });
+
+  it('should not return a next position on the last page', () => {
+    const { page, next } = paginate(rows(), positionOf, { orderDir: 'asc', limit: 7 });
+    expect(page).toHaveLength(7);
+    expect(next).toBeUndefined();
+  });
+
+  it('should keep pages stable when rows are inserted before the cursor', () => {
+    const first = paginate(rows(), positionOf, { orderDir: 'desc', limit: 3 });
+    const grown = [...rows(), { id: 'z', importance: 0.95 }];
+    const second = paginate(grown, positionOf, { orderDir: 'desc', limit: 3, after: first.next });
+
+    expect(first.page.map(r => r.id)).toEqual(['f', 'b', 'e']);
+    expect(second.page.map(r => r.id)).toEqual(['c', 'a', 'g']);
+  });
+
+  it('should apply offset after the cursor', () => {
+    const { page } = paginate(rows(), positionOf, { orderDir: 'asc', limit: 2, offset: 1 });
+    expect(page.map(r => r.id)).toEqual(['g', 'a']);
+  });
+});
@@ -3,7 +3,9 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { isNoise, buildContextInjection, buildExtractionPrompt, buildDedupPrompt, sanitizeForContext } from '../src/prompts.js';
+import {
+  isNoise, buildContextInjection, buildBudgetedContext, buildExtractionPrompt, buildDedupPrompt, sanitizeForContext,
+} from '../src/prompts.js';
 import type { Memory } from '../src/types.js';
 
 describe('isNoise()', () => {
@@ -101,6 +103,71 @@ describe('buildContextInjection()', () => {
     expect(result).toContain('Past Events');
     expect(result).toContain('Previous Cases');
   });
+
+  it('should name the scope of inherited memories', () => {
+    const memories = [
+      makeMemory({ summary: 'Own memory' }),
+      { ...makeMemory({ summary: 'Shared memory', scope: 'user:alice' }), inheritedFrom: 'user:alice' as const },
+    ];
+    const result = buildContextInjection(memories, 'L1');
+    expect(result).toContain('- Own memory\n');
+    expect(result).toContain('- Shared memory (from user:alice)');
+  });
+});
+
+describe('buildBudgetedContext()', () => {
+  const makeMemory = (id: string): Memory => ({
+    id,
+    headline: `${id} headline`,
+    summary: `${id} summary `.repeat(5),
+    content: `${id} content `.repeat(40),
+    category: 'preferences',
+    scope: 'global',
+    importance: 0.5,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    accessCount: 0,
+    lastAccessedAt: Date.now(),
+    tags: [],
+    metadata: {},
+  });
+  const memories = ['a', 'b', 'c', 'd'].map(makeMemory);
+
+  it('should render the top memories in full and the rest as summaries when unlimited', () => {
+    const context = buildBudgetedContext(memories, { maxTokens: 0, fullDetail: 2 });
+    expect(context.rendered.map(r => r.level)).toEqual(['L2', 'L2', 'L1', 'L1']);
+    expect(context.text).toContain('a content');
+    expect(context.text).not.toContain('c content');
+    expect(context.tokensUsed).toBe(Math.ceil(context.text.length / 4));
+  });
+
+  it('should drop to lower levels and stop at the budget', () => {
+    const context = buildBudgetedContext(memories, { maxTokens: 135, fullDetail: 2 });
+    expect(context.rendered).toEqual([
+      { memoryId: 'a', level: 'L2' },
+      { memoryId: 'b', level: 'L1' },
+      { memoryId: 'c', level: 'L0' },
+    ]);
+    expect(context.tokensUsed).toBeLessThanOrEqual(135);
+    expect(context.text).not.toContain('d headline');
+  });
+
+  it('should start every memory at the given level', () => {
+    const context = buildBudgetedContext(memories, { maxTokens: 0, fullDetail: 2, level: 'L0' });
+    expect(context.rendered.every(r => r.level === 'L0')).toBe(true);
+  });
+
+  it('should use a custom token estimator', () => {
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const context = buildBudgetedContext(memories, { maxTokens: 20, fullDetail: 0, estimateTokens: words });
+    expect(context.tokensUsed).toBe(words(context.text));
+    expect(context.tokensUsed).toBeLessThanOrEqual(20);
+    expect(context.rendered.length).toBeGreaterThan(0);
+  });
+
+  it('should return nothing when even one headline does not fit', () => {
+    expect(buildBudgetedContext(memories, { maxTokens: 5, fullDetail: 2 })).toEqual({ text: '', tokensUsed: 0, rendered: [] });
+  });
 });
 
 describe('buildExtractionPrompt()', () => {
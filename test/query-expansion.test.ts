@@ -0,0 +1,86 @@
+/**
+ * Tests for LLM query expansion
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { QueryExpander } from '../src/memory/query-expansion.js';
+import type { LLMService } from '../src/llm.js';
+import type { TinmemConfig } from '../src/config.js';
+
+function makeConfig(cacheSize = 256): TinmemConfig {
+  return {
+    debug: false,
+    retrieval: {
+      queryExpansion: { mode: 'off', maxQueries: 2, cacheSize, cacheTtlMinutes: 60 },
+    },
+  } as unknown as TinmemConfig;
+}
+
+function makeLLM(response: string | Error): LLMService {
+  const complete = jest.fn<() => Promise<string>>();
+  if (response instanceof Error) complete.mockRejectedValue(response);
+  else complete.mockResolvedValue(response);
+  return { complete };
+}
+
+describe('QueryExpander', () => {
+  it('should return distinct sub-queries up to maxQueries', async () => {
+    const llm = makeLLM(JSON.stringify({
+      queries: ['Deploy the way we did last time', 'previous deployment steps', 'previous deployment steps', 'deploy workflow', 'extra'],
+    }));
+    const expander = new QueryExpander(llm, makeConfig());
+
+    expect(await expander.expand('deploy the way we did last time', 'multi-query')).toEqual([
+      'previous deployment steps',
+      'deploy workflow',
+    ]);
+  });
+
+  it('should return one hypothetical memory for hyde', async () => {
+    const llm = makeLLM('  The user deploys with docker compose on the staging host.\n');
+    const expander = new QueryExpander(llm, makeConfig());
+
+    expect(await expander.expand('how do I deploy?', 'hyde')).toEqual([
+      'The user deploys with docker compose on the staging host.',
+    ]);
+  });
+
+  it('should not call the LLM when off', async () => {
+    const llm = makeLLM('{}');
+    expect(await new QueryExpander(llm, makeConfig()).expand('anything', 'off')).toEqual([]);
+    expect(llm.complete).not.toHaveBeenCalled();
+  });
+
+  it('should cache rewrites per mode and normalized query', async () => {
+    const llm = makeLLM(JSON.stringify({ queries: ['a', 'b'] }));
+    const expander = new QueryExpander(llm, makeConfig());
+
+    await expander.expand('Same  question', 'multi-query');
+    expect(await expander.expand('same question', 'multi-query')).toEqual(['a', 'b']);
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+
+    await expander.expand('same question', 'hyde');
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the least recently used rewrite when the cache is full', async () => {
+    const llm = makeLLM(JSON.stringify({ queries: ['x'] }));
+    const expander = new QueryExpander(llm, makeConfig(2));
+
+    await expander.expand('one', 'multi-query');
+    await expander.expand('two', 'multi-query');
+    await expander.expand('one', 'multi-query');
+    await expander.expand('three', 'multi-query');
+    expect(llm.complete).toHaveBeenCalledTimes(3);
+
+    await expander.expand('one', 'multi-query');
+    expect(llm.complete).toHaveBeenCalledTimes(3);
+    await expander.expand('two', 'multi-query');
+    expect(llm.complete).toHaveBeenCalledTimes(4);
+  });
+
+  it('should fall back to no expansion when the LLM fails', async () => {
+    const expander = new QueryExpander(makeLLM(new Error('timeout')), makeConfig());
+    expect(await expander.expand('what did we decide?', 'multi-query')).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for scope inheritance and access policies
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ScopeResolver, agentScope, summarizeScopes } from '../src/memory/scopes.js';
+import type { TinmemConfig } from '../src/config.js';
+
+function makeResolver(scopes: Partial<TinmemConfig['scopes']> = {}): ScopeResolver {
+  return new ScopeResolver({
+    defaultInherits: ['global'],
+    rules: {},
+    eviction: { policy: 'importance', action: 'archive', onInsert: true },
+    ...scopes,
+  });
+}
+
+describe('ScopeResolver', () => {
+  it('should inherit global by default, and global nothing', () => {
+    const resolver = makeResolver();
+    expect(resolver.readScopes('agent:bot')).toEqual(['agent:bot', 'global']);
+    expect(resolver.readScopes('global')).toEqual(['global']);
+  });
+
+  it('should follow inheritance transitively, nearest first', () => {
+    const resolver = makeResolver({
+      rules: {
+        'project:x': { inherits: ['user:alice'], read: true, write: true },
+        'user:alice': { inherits: ['custom:team'], read: true, write: true },
+      },
+    });
+
+    expect(resolver.resolve('project:x')).toEqual([
+      { scope: 'project:x', depth: 0 },
+      { scope: 'user:alice', depth: 1, via: 'project:x' },
+      { scope: 'custom:team', depth: 2, via: 'user:alice' },
+      { scope: 'global', depth: 3, via: 'custom:team' },
+    ]);
+  });
+
+  it('should prefer an exact rule over a type pattern', () => {
+    const resolver = makeResolver({
+      rules: {
+        'agent:*': { inherits: ['user:alice', 'global'], read: true, write: true },
+        'agent:isolated': { inherits: [], read: true, write: true },
+      },
+    });
+
+    expect(resolver.readScopes('agent:bot')).toEqual(['agent:bot', 'user:alice', 'global']);
+    expect(resolver.readScopes('agent:isolated')).toEqual(['agent:isolated']);
+  });
+
+  it('should stop at cycles', () => {
+    const resolver = makeResolver({
+      rules: {
+        'project:a': { inherits: ['project:b'], read: true, write: true },
+        'project:b': { inherits: ['project:a'], read: true, write: true },
+      },
+    });
+    expect(resolver.readScopes('project:a')).toEqual(['project:a', 'project:b']);
+  });
+
+  it('should skip inherited scopes that are not readable', () => {
+    const resolver = makeResolver({
+      rules: {
+        'project:x': { inherits: ['user:alice', 'global'], read: true, write: true },
+        'user:alice': { read: false, write: true },
+      },
+    });
+
+    expect(resolver.readScopes('project:x')).toEqual(['project:x', 'global']);
+    // A private scope is still read when requested directly
+    expect(resolver.readScopes('user:alice')).toEqual(['user:alice', 'global']);
+  });
+
+  it('should merge the chains of several requested scopes', () => {
+    const resolver = makeResolver({
+      rules: { 'project:x': { inherits: ['user:alice'], read: true, write: true } },
+    });
+    expect(resolver.readScopes(['agent:bot', 'project:x'])).toEqual(['agent:bot', 'project:x', 'global', 'user:alice']);
+  });
+
+  it('should enforce write policies', () => {
+    const resolver = makeResolver({ rules: { global: { read: true, write: false } } });
+    expect(resolver.canWrite('agent:bot')).toBe(true);
+    expect(resolver.canWrite('global')).toBe(false);
+  });
+
+  it('should fall back to the default quota', () => {
+    const resolver = makeResolver({
+      defaultMaxMemories: 1000,
+      rules: {
+        'agent:*': { read: true, write: true, maxMemories: 200 },
+        'user:alice': { read: true, write: true },
+      },
+    });
+    expect(resolver.quota('agent:bot')).toBe(200);
+    expect(resolver.quota('user:alice')).toBe(1000);
+    expect(makeResolver().quota('global')).toBeUndefined();
+  });
+
+  it('should reject invalid scopes in the config', () => {
+    expect(() => makeResolver({ defaultInherits: ['nope'] })).toThrow(/Invalid memory scope/);
+    expect(() => makeResolver({ rules: { 'team:*': { read: true, write: true } } })).toThrow(/Invalid memory scope/);
+  });
+});
+
+describe('agentScope()', () => {
+  it('should use the agent scope when an agent ID is given', () => {
+    expect(agentScope('bot', 'global')).toBe('agent:bot');
+    expect(agentScope(undefined, 'project:x')).toBe('project:x');
+  });
+});
+
+describe('summarizeScopes()', () => {
+  it('should count, average and take the latest update or access per scope', () => {
+    const summary = summarizeScopes([
+      { scope: 'global', importance: 0.2, updatedAt: 100, lastAccessedAt: 100 },
+      { scope: 'agent:a', importance: 0.5, updatedAt: 100, lastAccessedAt: 400 },
+      { scope: 'global', importance: 0.8, updatedAt: 300, lastAccessedAt: 200 },
+      { scope: 'agent:b', importance: 0.1, updatedAt: 50, lastAccessedAt: 50 },
+    ]);
+
+    expect(summary).toEqual([
+      { scope: 'global', count: 2, lastActivityAt: 300, avgImportance: 0.5 },
+      { scope: 'agent:a', count: 1, lastActivityAt: 400, avgImportance: 0.5 },
+      { scope: 'agent:b', count: 1, lastActivityAt: 50, avgImportance: 0.1 },
+    ]);
+  });
+});
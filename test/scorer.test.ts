@@ -4,7 +4,7 @@
 
 import { describe, it, expect } from '@jest/globals';
 import { MemoryScorer } from '../src/memory/scorer.js';
-import type { Memory } from '../src/types.js';
+import type { FusedMemory } from '../src/memory/fusion.js';
 
 const BASE_CONFIG = {
   scoring: {
@@ -25,7 +25,7 @@ const BASE_CONFIG = {
   },
 } as ConstructorParameters<typeof MemoryScorer>[0];
 
-function makeMemory(overrides: Partial<Memory & { vectorScore: number; bm25Score: number }>): Memory & { vectorScore: number; bm25Score: number } {
+function makeMemory(overrides: Partial<FusedMemory>): FusedMemory {
   const now = Date.now();
   return {
     id: 'test-id',
@@ -43,6 +43,7 @@ function makeMemory(overrides: Partial<Memory & { vectorScore: number; bm25Score
     metadata: {},
     vectorScore: 0.8,
     bm25Score: 0.6,
+    fusion: 'weighted',
     ...overrides,
   };
 }
@@ -0,0 +1,63 @@
+/**
+ * Tests for snapshot lookup and retention
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { autoSnapshotLabel, findSnapshot, snapshotsToPrune } from '../src/memory/snapshots.js';
+import type { Snapshot } from '../src/types.js';
+
+const DAY = 86400 * 1000;
+
+function makeSnapshot(id: string, label: string, createdAt: number): Snapshot {
+  return {
+    id,
+    label,
+    trigger: 'manual',
+    createdAt,
+    schemaVersion: 3,
+    memoryCount: 0,
+    tableVersions: { memories: 1 },
+  };
+}
+
+describe('findSnapshot()', () => {
+  const snapshots = [
+    makeSnapshot('aaaa1111-0000-4000-8000-000000000000', 'before-upgrade', 1),
+    makeSnapshot('aaaa2222-0000-4000-8000-000000000000', 'weekly', 2),
+  ];
+
+  it('should match by id, label or unique id prefix', () => {
+    expect(findSnapshot(snapshots, 'aaaa1111-0000-4000-8000-000000000000')?.label).toBe('before-upgrade');
+    expect(findSnapshot(snapshots, 'weekly')?.id).toBe('aaaa2222-0000-4000-8000-000000000000');
+    expect(findSnapshot(snapshots, 'aaaa2')?.label).toBe('weekly');
+  });
+
+  it('should not match an ambiguous prefix', () => {
+    expect(findSnapshot(snapshots, 'aaaa')).toBeUndefined();
+    expect(findSnapshot(snapshots, 'missing')).toBeUndefined();
+  });
+});
+
+describe('snapshotsToPrune()', () => {
+  const now = 100 * DAY;
+  const snapshots = [1, 2, 3, 4, 5].map(d => makeSnapshot(`id-${d}`, `s${d}`, now - d * DAY));
+
+  it('should keep only the newest `retain` snapshots', () => {
+    expect(snapshotsToPrune(snapshots, { retain: 3 }, now).map(s => s.label)).toEqual(['s4', 's5']);
+  });
+
+  it('should also drop snapshots older than maxAgeDays', () => {
+    expect(snapshotsToPrune(snapshots, { retain: 10, maxAgeDays: 2.5 }, now).map(s => s.label))
+      .toEqual(['s3', 's4', 's5']);
+  });
+
+  it('should prune nothing when within policy', () => {
+    expect(snapshotsToPrune(snapshots, { retain: 5 }, now)).toEqual([]);
+  });
+});
+
+describe('autoSnapshotLabel()', () => {
+  it('should name the trigger and time', () => {
+    expect(autoSnapshotLabel('reembed', Date.UTC(2025, 0, 31, 12))).toBe('before-reembed-2025-01-31T12:00:00.000Z');
+  });
+});
@@ -1,4 +1,6 @@
-import { assertUuid, assertScope, assertCategory, escapeSqlLiteral } from '../src/memory/sql-safety.js';
+import {
+  assertUuid, assertScope, assertCategory, assertTag, assertMetadataKey, escapeSqlLiteral,
+} from '../src/memory/sql-safety.js';
 
 describe('assertUuid', () => {
   it('accepts valid UUID v4', () => {
@@ -104,6 +106,30 @@ describe('assertScope', () => {
   });
 });
 
+describe('assertTag', () => {
+  it('accepts tags with spaces and quotes', () => {
+    expect(() => assertTag("user's laptop")).not.toThrow();
+  });
+
+  it('rejects empty, overlong and control-character tags', () => {
+    expect(() => assertTag('')).toThrow('Invalid tag');
+    expect(() => assertTag('x'.repeat(101))).toThrow('Invalid tag');
+    expect(() => assertTag('a\nb')).toThrow('Invalid tag');
+  });
+});
+
+describe('assertMetadataKey', () => {
+  it('accepts simple keys', () => {
+    expect(() => assertMetadataKey('source.file_name-2')).not.toThrow();
+  });
+
+  it('rejects quotes and spaces', () => {
+    expect(() => assertMetadataKey('a"b')).toThrow('Invalid metadata key');
+    expect(() => assertMetadataKey("a' OR 1=1")).toThrow('Invalid metadata key');
+    expect(() => assertMetadataKey('')).toThrow('Invalid metadata key');
+  });
+});
+
 describe('escapeSqlLiteral', () => {
   it('returns unchanged string without quotes', () => {
     expect(escapeSqlLiteral('hello world')).toBe('hello world');
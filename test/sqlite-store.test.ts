@@ -0,0 +1,112 @@
+/**
+ * Tests specific to the SQLite storage backend (shared behaviour is in
+ * store-contract.test.ts)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteStore } from '../src/memory/sqlite-store.js';
+import { InMemoryStore } from '../src/memory/in-memory-store.js';
+import { copyArchive, copyMemories } from '../src/memory/store.js';
+import { makeMemory } from './store-fixtures.js';
+
+let dir: string;
+let store: SqliteStore;
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'tinmem-sqlite-'));
+  store = new SqliteStore(dir, 4);
+  await store.init();
+});
+
+afterEach(async () => {
+  await store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SqliteStore', () => {
+  describe('CRUD', () => {
+    it('should persist across reopen', async () => {
+      const created = await store.insert(makeMemory());
+      await store.close();
+
+      store = new SqliteStore(dir, 4);
+      await store.init();
+      expect((await store.getById(created.id))?.headline).toBe('User prefers TypeScript');
+    });
+  });
+
+  describe('search', () => {
+    it('should apply structured filters in SQL', async () => {
+      await store.insert(makeMemory({ headline: 'match', tags: ['docker', 'ops'], importance: 0.9, metadata: { repo: 'api', pinned: true } }));
+      await store.insert(makeMemory({ headline: 'low', tags: ['docker'], importance: 0.2, metadata: { repo: 'api', pinned: true } }));
+      await store.insert(makeMemory({ headline: 'unpinned', tags: ['ops'], importance: 0.9, metadata: { repo: 'api', pinned: false } }));
+      await store.insert(makeMemory({ headline: 'string true', tags: ['docker'], importance: 0.9, metadata: { repo: 'api', pinned: 'true' } }));
+
+      const filter = { tags: { any: ['docker', 'ops'] }, importance: { min: 0.5 }, metadata: { repo: 'api', pinned: true } };
+      expect((await store.vectorSearch([1, 0, 0, 0], { limit: 10, filter })).map(r => r.headline)).toEqual(['match']);
+      expect((await store.list({ filter })).memories.map(m => m.headline)).toEqual(['match']);
+    });
+
+    it('should full-text search with FTS5 and survive query punctuation', async () => {
+      await store.insert(makeMemory({ headline: 'Uses PostgreSQL', content: 'Database is PostgreSQL', tags: [] }));
+      await store.insert(makeMemory({ headline: 'Uses React', content: 'Frontend is React', tags: [] }));
+
+      const results = await store.fullTextSearch('postgresql "OR" (', { limit: 10 });
+      expect(results.map(r => r.headline)).toEqual(['Uses PostgreSQL']);
+      expect(results[0]!._score).toBeGreaterThan(0);
+    });
+
+    it('should keep the FTS index in sync with updates and deletes', async () => {
+      const m = await store.insert(makeMemory({ content: 'Deploys with Kubernetes' }));
+      await store.update(m.id, { content: 'Deploys with Nomad' });
+
+      expect(await store.fullTextSearch('kubernetes', { limit: 10 })).toEqual([]);
+      expect(await store.fullTextSearch('nomad', { limit: 10 })).toHaveLength(1);
+
+      await store.delete(m.id);
+      expect(await store.fullTextSearch('nomad', { limit: 10 })).toEqual([]);
+    });
+  });
+});
+
+describe('copyMemories()', () => {
+  it('should copy every memory with its id and vector', async () => {
+    const source = new InMemoryStore(4);
+    await source.init();
+    const a = await source.insert(makeMemory({ headline: 'a', vector: [0, 1, 0, 0] }));
+    await source.insert(makeMemory({ headline: 'b' }));
+    await source.insert(makeMemory({ headline: 'c' }));
+
+    const progress: number[] = [];
+    const copied = await copyMemories(source, store, { batchSize: 2, onProgress: n => progress.push(n) });
+
+    expect(copied).toBe(3);
+    expect(progress).toEqual([2, 3]);
+    expect((await store.getStats()).total).toBe(3);
+    expect((await store.getById(a.id, { withVector: true }))?.vector).toEqual([0, 1, 0, 0]);
+  });
+});
+
+describe('copyArchive()', () => {
+  it('should copy trash, history, relations and entities from another backend', async () => {
+    const source = new InMemoryStore(4);
+    await source.init();
+    const a = await source.insert(makeMemory({ headline: 'a' }));
+    const b = await source.insert(makeMemory({ headline: 'b' }));
+    await source.update(a.id, { content: 'Edited' }, { actor: 'cli' });
+    await source.addRelation({ sourceId: a.id, targetId: b.id, type: 'relatedTo', actor: 'api' });
+    await source.addEntity({ name: 'TypeScript', type: 'tool', aliases: [], attributes: {}, scope: 'global', memoryIds: [a.id] });
+    await source.delete(b.id);
+
+    await copyMemories(source, store);
+    expect(await copyArchive(source, store)).toEqual({ trash: 1, history: 1, relations: 1, entities: 1 });
+
+    expect((await store.listTrash()).map(m => m.id)).toEqual([b.id]);
+    expect(await store.getHistory(a.id)).toEqual(await source.getHistory(a.id));
+    expect(await store.getRelations([a.id])).toEqual(await source.getRelations([a.id]));
+    expect(await store.listEntities()).toEqual(await source.listEntities());
+  });
+});
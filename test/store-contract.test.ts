@@ -0,0 +1,423 @@
+/**
+ * Behaviour every MemoryStore backend must share
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MemoryStore } from '../src/memory/store.js';
+import { STORE_BACKENDS, makeMemory } from './store-fixtures.js';
+
+describe.each(STORE_BACKENDS)('$name', ({ open }) => {
+  let dir: string;
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'tinmem-store-'));
+    store = open(dir);
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('CRUD', () => {
+    it('should round-trip a memory without exposing its vector', async () => {
+      const created = await store.insert(makeMemory({ metadata: { source: 'test' }, expiresAt: Date.now() + 60_000 }));
+
+      const fetched = await store.getById(created.id);
+      expect(fetched).toMatchObject({ headline: 'User prefers TypeScript', tags: ['typescript'], metadata: { source: 'test' } });
+      expect(fetched?.expiresAt).toBe(created.expiresAt);
+      expect(fetched?.vector).toBeUndefined();
+      expect((await store.getById(created.id, { withVector: true }))?.vector).toEqual([1, 0, 0, 0]);
+    });
+
+    it('should fetch several memories at once, skipping missing and trashed ones', async () => {
+      const a = await store.insert(makeMemory({ vector: [1, 0, 0, 0] }));
+      const b = await store.insert(makeMemory({ vector: [0, 1, 0, 0] }));
+      const c = await store.insert(makeMemory());
+      await store.delete(c.id);
+
+      const fetched = await store.getByIds([a.id, b.id, c.id, '00000000-0000-4000-8000-000000000000'], { withVector: true });
+      expect(fetched.map(m => [m.id, m.vector]).sort()).toEqual([[a.id, [1, 0, 0, 0]], [b.id, [0, 1, 0, 0]]].sort());
+      expect((await store.getByIds([a.id]))[0]?.vector).toBeUndefined();
+      expect(await store.getByIds([])).toEqual([]);
+    });
+
+    it('should reject vectors with the wrong dimensions', async () => {
+      await expect(store.insert(makeMemory({ vector: [1, 0] }))).rejects.toThrow(/dimensions/);
+    });
+
+    it('should not let callers mutate stored records', async () => {
+      const created = await store.insert(makeMemory());
+      const fetched = await store.getById(created.id);
+      fetched!.tags.push('mutated');
+
+      expect((await store.getById(created.id))?.tags).toEqual(['typescript']);
+    });
+
+    it('should record history on update, ignore undefined fields and clear expiry with null', async () => {
+      const created = await store.insert(makeMemory({ expiresAt: Date.now() + 60_000 }));
+
+      const updated = await store.update(created.id, { content: 'New content', summary: undefined, expiresAt: null }, { actor: 'cli' });
+      expect(updated?.content).toBe('New content');
+      expect(updated?.summary).toBe(makeMemory().summary);
+      expect(updated?.expiresAt).toBeUndefined();
+
+      const history = await store.getHistory(created.id);
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ version: 1, actor: 'cli', operation: 'update' });
+      expect(history[0]!.snapshot.content).toBe(makeMemory().content);
+      expect((await store.getVersion(created.id, 1))?.version).toBe(1);
+    });
+
+    it('should keep each version with its actor and reason, and revert to one', async () => {
+      const created = await store.insert(makeMemory());
+      await store.update(created.id, { content: 'Second' }, { actor: 'tool', reason: 'user corrected it' });
+      await store.update(created.id, { content: 'Third', tags: ['ts'] }, { actor: 'dedup', operation: 'merge', reason: 'duplicate' });
+
+      const history = await store.getHistory(created.id);
+      expect(history.map(v => [v.version, v.operation, v.actor, v.reason, v.snapshot.content])).toEqual([
+        [2, 'merge', 'dedup', 'duplicate', 'Second'],
+        [1, 'update', 'tool', 'user corrected it', makeMemory().content],
+      ]);
+
+      // What MemoryManager.revert() does: write the version's snapshot back
+      const { snapshot } = (await store.getVersion(created.id, 1))!;
+      const reverted = await store.update(
+        created.id,
+        { content: snapshot.content, tags: snapshot.tags, vector: snapshot.vector },
+        { actor: 'cli', operation: 'revert', reason: 'Revert to version 1' },
+      );
+      expect(reverted).toMatchObject({ content: makeMemory().content, tags: ['typescript'] });
+      expect((await store.getHistory(created.id))[0]).toMatchObject({
+        version: 3, operation: 'revert', actor: 'cli', reason: 'Revert to version 1', snapshot: { content: 'Third', tags: ['ts'] },
+      });
+    });
+
+    it('should not record a version for a vector-only update', async () => {
+      const created = await store.insert(makeMemory());
+      await store.update(created.id, { vector: [0, 1, 0, 0] }, { actor: 'api', reason: 'Re-embed' });
+
+      expect(await store.getHistory(created.id)).toEqual([]);
+      expect((await store.getById(created.id, { withVector: true }))?.vector).toEqual([0, 1, 0, 0]);
+    });
+
+    it('should move a memory to another scope on update', async () => {
+      const created = await store.insert(makeMemory());
+      await store.update(created.id, { scope: 'project:x' });
+      expect(await store.countByScope('project:x')).toBe(1);
+      expect((await store.listScopes()).map(s => s.scope)).toEqual(['project:x']);
+    });
+
+    it('should return null when updating a missing memory', async () => {
+      expect(await store.update('00000000-0000-4000-8000-000000000000', { content: 'x' })).toBeNull();
+    });
+  });
+
+  describe('trash', () => {
+    it('should soft-delete, restore and purge', async () => {
+      const a = await store.insert(makeMemory());
+      const b = await store.insert(makeMemory({ scope: 'agent:x' }));
+
+      expect(await store.delete(a.id, { actor: 'cli', reason: 'test' })).toBe(true);
+      expect(await store.getById(a.id)).toBeNull();
+      expect((await store.listTrash())[0]).toMatchObject({ id: a.id, deletedBy: 'cli', deleteReason: 'test' });
+
+      expect((await store.restore(a.id))?.id).toBe(a.id);
+      expect(await store.getById(a.id)).not.toBeNull();
+
+      expect(await store.deleteByScope('agent:x')).toEqual([b.id]);
+      expect(await store.purgeTrash()).toBe(1);
+      expect(await store.listTrash()).toEqual([]);
+    });
+
+    it('should restore every field of a trashed memory', async () => {
+      const created = await store.insert(makeMemory({
+        importance: 0.8, metadata: { source: 'test' }, expiresAt: Date.now() + 60_000, vector: [0, 0.5, 0.5, 0],
+      }));
+      await store.incrementAccessCount(created.id);
+      const before = (await store.getById(created.id, { withVector: true }))!;
+      const { vector: _vector, ...plain } = before;
+
+      await store.delete(created.id, { actor: 'tool', reason: 'forget' });
+      expect(await store.listTrash()).toEqual([
+        expect.objectContaining({ ...plain, deletedBy: 'tool', deleteReason: 'forget' }),
+      ]);
+
+      expect(await store.restore(created.id)).toEqual(plain);
+      expect(await store.getById(created.id, { withVector: true })).toEqual(before);
+      expect(await store.listTrash()).toEqual([]);
+    });
+
+    it('should purge history, relations and entity links with the memory', async () => {
+      const a = await store.insert(makeMemory({ headline: 'a' }));
+      const b = await store.insert(makeMemory({ headline: 'b' }));
+      await store.update(a.id, { content: 'Edited' }, { actor: 'cli' });
+      await store.addRelation({ sourceId: b.id, targetId: a.id, type: 'relatedTo', actor: 'api' });
+      const entity = await store.addEntity({
+        name: 'TypeScript', type: 'tool', aliases: [], attributes: {}, scope: 'global', memoryIds: [a.id, b.id],
+      });
+
+      await store.delete(a.id);
+      // Restorable until purged, so nothing else is dropped yet
+      expect(await store.getHistory(a.id)).toHaveLength(1);
+      expect(await store.getRelations([b.id])).toHaveLength(1);
+
+      expect(await store.purgeTrash()).toBe(1);
+      expect(await store.getHistory(a.id)).toEqual([]);
+      expect(await store.getRelations([b.id])).toEqual([]);
+      expect((await store.getEntity(entity.id))?.memoryIds).toEqual([b.id]);
+      expect(await store.restore(a.id)).toBeNull();
+    });
+
+    it('should purge only memories trashed before olderThan', async () => {
+      const a = await store.insert(makeMemory());
+      const b = await store.insert(makeMemory());
+      await store.delete(a.id);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const cutoff = Date.now();
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await store.delete(b.id);
+
+      expect(await store.purgeTrash({ olderThan: cutoff })).toBe(1);
+      expect((await store.listTrash()).map(m => m.id)).toEqual([b.id]);
+    });
+
+    it('should purge only the given IDs', async () => {
+      const a = await store.insert(makeMemory());
+      const b = await store.insert(makeMemory());
+      await store.deleteMany([a.id, b.id]);
+
+      expect(await store.purgeTrash({ ids: [] })).toBe(0);
+      expect(await store.purgeTrash({ ids: [a.id] })).toBe(1);
+      expect((await store.listTrash()).map(m => m.id)).toEqual([b.id]);
+    });
+  });
+
+  describe('relations', () => {
+    it('should return relations by direction and type', async () => {
+      const a = await store.insert(makeMemory({ headline: 'a' }));
+      const b = await store.insert(makeMemory({ headline: 'b' }));
+      const c = await store.insert(makeMemory({ headline: 'c' }));
+      const supersedes = await store.addRelation({ sourceId: a.id, targetId: b.id, type: 'supersedes', actor: 'cli' });
+      await store.addRelation({ sourceId: c.id, targetId: a.id, type: 'relatedTo', actor: 'tool', reason: 'same topic' });
+
+      expect(await store.getRelations([a.id])).toHaveLength(2);
+      expect(await store.getRelations([a.id], { direction: 'out' })).toEqual([supersedes]);
+      expect((await store.getRelations([a.id], { direction: 'in' }))[0]).toMatchObject({ sourceId: c.id, reason: 'same topic' });
+      expect(await store.getRelations([a.id, b.id], { types: ['relatedTo'] })).toHaveLength(1);
+
+      expect(await store.removeRelation(supersedes.id)).toBe(true);
+      expect(await store.removeRelation(supersedes.id)).toBe(false);
+      expect(await store.getRelations([b.id])).toEqual([]);
+    });
+  });
+
+  describe('entities', () => {
+    it('should find entities by normalized name or alias within a scope', async () => {
+      const taskflow = await store.addEntity({
+        name: 'TaskFlow', type: 'project', aliases: ['TF'], attributes: { repo: 'tf' }, scope: 'global', memoryIds: [],
+      });
+      await store.addEntity({ name: 'TaskFlow', type: 'project', aliases: [], attributes: {}, scope: 'agent:x', memoryIds: [] });
+
+      expect((await store.findEntities(['the tf project', 'tf'], { scope: 'global' })).map(e => e.id)).toEqual([taskflow.id]);
+      expect(await store.findEntities(['Task-Flow'])).toHaveLength(0);
+      expect(await store.findEntities(['TASKFLOW'])).toHaveLength(2);
+      expect(await store.getEntity(taskflow.id)).toMatchObject({ aliases: ['TF'], attributes: { repo: 'tf' } });
+    });
+
+    it('should update, list by memory and delete entities', async () => {
+      const m = await store.insert(makeMemory());
+      const entity = await store.addEntity({ name: 'Acme', type: 'other', aliases: [], attributes: {}, scope: 'global', memoryIds: [] });
+
+      const updated = await store.updateEntity(entity.id, { type: 'organization', aliases: ['Acme Corp'], memoryIds: [m.id] });
+      expect(updated).toMatchObject({ type: 'organization', aliases: ['Acme Corp'], memoryIds: [m.id] });
+      expect((await store.findEntities(['acme corp'])).map(e => e.id)).toEqual([entity.id]);
+      expect((await store.listEntities({ memoryId: m.id })).map(e => e.name)).toEqual(['Acme']);
+      expect(await store.listEntities({ type: 'person' })).toEqual([]);
+
+      expect(await store.deleteEntity(entity.id)).toBe(true);
+      expect(await store.getEntity(entity.id)).toBeNull();
+      expect(await store.updateEntity(entity.id, { name: 'Gone' })).toBeNull();
+    });
+  });
+
+  describe('vectorSearch()', () => {
+    it('should rank by cosine similarity within scope and apply minScore', async () => {
+      await store.insert(makeMemory({ headline: 'close', vector: [1, 0.1, 0, 0] }));
+      await store.insert(makeMemory({ headline: 'far', vector: [0, 0, 1, 0] }));
+      await store.insert(makeMemory({ headline: 'other scope', scope: 'agent:x', vector: [1, 0, 0, 0] }));
+
+      const results = await store.vectorSearch([1, 0, 0, 0], { limit: 10, scope: 'global' });
+      expect(results.map(r => r.headline)).toEqual(['close', 'far']);
+      expect(results[0]!._distance).toBeLessThan(results[1]!._distance);
+
+      const filtered = await store.vectorSearch([1, 0, 0, 0], { limit: 10, minScore: 0.5 });
+      expect(filtered.map(r => r.headline)).not.toContain('far');
+    });
+
+    it('should apply structured filters', async () => {
+      await store.insert(makeMemory({ headline: 'docker', tags: ['docker', 'ops'], importance: 0.9, metadata: { repo: 'api' } }));
+      await store.insert(makeMemory({ headline: 'docker low', tags: ['docker'], importance: 0.2, metadata: { repo: 'api' } }));
+      await store.insert(makeMemory({ headline: 'other repo', tags: ['docker', 'ops'], importance: 0.9, metadata: { repo: 'web' } }));
+
+      const filter = { tags: { all: ['docker', 'ops'] }, importance: { min: 0.7 }, metadata: { repo: 'api' } };
+      expect((await store.vectorSearch([1, 0, 0, 0], { limit: 10, filter })).map(r => r.headline)).toEqual(['docker']);
+      expect((await store.list({ filter })).memories.map(m => m.headline)).toEqual(['docker']);
+    });
+  });
+
+  describe('fullTextSearch()', () => {
+    it('should match any query term', async () => {
+      await store.insert(makeMemory({ headline: 'Uses PostgreSQL', content: 'Database is PostgreSQL', tags: [] }));
+      await store.insert(makeMemory({ headline: 'Uses React', content: 'Frontend is React', tags: [] }));
+      await store.insert(makeMemory({ headline: 'Uses React Native', content: 'Mobile app is React Native', tags: [] }));
+
+      const results = await store.fullTextSearch('postgresql react', { limit: 10 });
+      expect(results.map(r => r.headline).sort()).toEqual(['Uses PostgreSQL', 'Uses React', 'Uses React Native']);
+    });
+
+    it('should search only the given scopes and categories', async () => {
+      await store.insert(makeMemory({ headline: 'global' }));
+      await store.insert(makeMemory({ headline: 'other scope', scope: 'agent:x' }));
+      await store.insert(makeMemory({ headline: 'other category', category: 'entities' }));
+
+      const results = await store.fullTextSearch('typescript', { limit: 10, scope: 'global', categories: ['preferences'] });
+      expect(results.map(r => r.headline)).toEqual(['global']);
+    });
+
+    it('should return nothing when no term matches', async () => {
+      await store.insert(makeMemory());
+      expect(await store.fullTextSearch('kubernetes', { limit: 10 })).toEqual([]);
+    });
+  });
+
+  describe('list()', () => {
+    it('should page through every memory exactly once', async () => {
+      for (let i = 0; i < 7; i++) {
+        await store.bulkInsert([{
+          ...makeMemory({ importance: i / 10 }),
+          id: `00000000-0000-4000-8000-00000000000${i}`,
+          createdAt: 1000 + (i % 3), updatedAt: 0, accessCount: 0, lastAccessedAt: 0,
+        }]);
+      }
+
+      for (const orderDir of ['asc', 'desc'] as const) {
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await store.list({ limit: 3, cursor, orderBy: 'createdAt', orderDir });
+          seen.push(...page.memories.map(m => m.id));
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        expect(seen).toHaveLength(7);
+        expect(new Set(seen).size).toBe(7);
+      }
+    });
+  });
+
+  describe('expiration', () => {
+    it('should hide expired memories and archive them on sweep', async () => {
+      const expired = await store.insert(makeMemory({ headline: 'expired', expiresAt: Date.now() - 1000 }));
+      await store.insert(makeMemory({ headline: 'live', expiresAt: Date.now() + 60_000 }));
+
+      expect((await store.list()).memories.map(m => m.headline)).toEqual(['live']);
+      expect((await store.list({ includeExpired: true })).memories).toHaveLength(2);
+      expect(await store.vectorSearch([1, 0, 0, 0], { limit: 10 })).toHaveLength(1);
+      expect(await store.fullTextSearch('typescript', { limit: 10 })).toHaveLength(1);
+      expect((await store.findExpired()).map(m => m.id)).toEqual([expired.id]);
+
+      expect(await store.sweepExpired('archive')).toEqual([expired.id]);
+      expect((await store.listTrash())[0]).toMatchObject({ id: expired.id, deletedBy: 'sweeper' });
+      expect(await store.findExpired()).toEqual([]);
+    });
+
+    it('should delete expired memories permanently', async () => {
+      const expired = await store.insert(makeMemory({ expiresAt: Date.now() - 1000 }));
+
+      expect(await store.sweepExpired('delete')).toEqual([expired.id]);
+      expect(await store.listTrash()).toEqual([]);
+      expect(await store.findExpired()).toEqual([]);
+    });
+  });
+
+  describe('listTags()', () => {
+    it('should count tags and honour scope and prefix', async () => {
+      await store.insert(makeMemory({ tags: ['docker', 'project:api'] }));
+      await store.insert(makeMemory({ tags: ['docker', 'project:web'] }));
+      await store.insert(makeMemory({ scope: 'agent:x', tags: ['docker'] }));
+
+      expect(await store.listTags()).toEqual([
+        { tag: 'docker', count: 3 },
+        { tag: 'project:api', count: 1 },
+        { tag: 'project:web', count: 1 },
+      ]);
+      expect(await store.listTags({ scope: 'agent:x' })).toEqual([{ tag: 'docker', count: 1 }]);
+      expect((await store.listTags({ prefix: 'project:' })).map(t => t.tag)).toEqual(['project:api', 'project:web']);
+      expect((await store.list({ filter: { tags: { prefix: ['project:w'] } } })).memories).toHaveLength(1);
+    });
+  });
+
+  describe('listScopes()', () => {
+    it('should summarize every scope, largest first', async () => {
+      await store.insert(makeMemory({ importance: 0.2 }));
+      await store.insert(makeMemory({ importance: 0.6 }));
+      const other = await store.insert(makeMemory({ scope: 'agent:x', importance: 0.9 }));
+      await store.incrementAccessCount(other.id);
+      const touched = (await store.getById(other.id))!;
+
+      const scopes = await store.listScopes();
+      expect(scopes.map(s => [s.scope, s.count])).toEqual([['global', 2], ['agent:x', 1]]);
+      expect(scopes[0]!.avgImportance).toBeCloseTo(0.4);
+      expect(scopes[1]!.lastActivityAt).toBe(touched.lastAccessedAt);
+    });
+  });
+
+  describe('getStats()', () => {
+    it('should count by category and scope', async () => {
+      await store.insert(makeMemory({ importance: 0.2 }));
+      await store.insert(makeMemory({ category: 'profile', scope: 'agent:x', importance: 0.8 }));
+
+      const stats = await store.getStats();
+      expect(stats.total).toBe(2);
+      expect(stats.byCategory.profile).toBe(1);
+      expect(stats.byScope).toEqual({ global: 1, 'agent:x': 1 });
+      expect(stats.avgImportance).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('exportArchive() / importArchive()', () => {
+    it('should carry trash, history, relations and entities over with their IDs', async () => {
+      const a = await store.insert(makeMemory({ headline: 'a' }));
+      const b = await store.insert(makeMemory({ headline: 'b', vector: [0, 1, 0, 0] }));
+      await store.update(a.id, { content: 'Edited' }, { actor: 'cli', reason: 'typo' });
+      const relation = await store.addRelation({ sourceId: a.id, targetId: b.id, type: 'relatedTo', actor: 'api' });
+      const entity = await store.addEntity({
+        name: 'TypeScript', type: 'tool', aliases: ['TS'], attributes: {}, scope: 'global', memoryIds: [a.id, b.id],
+      });
+      await store.delete(b.id, { actor: 'cli', reason: 'stale' });
+
+      const targetDir = mkdtempSync(join(tmpdir(), 'tinmem-store-'));
+      const target = open(targetDir);
+      await target.init();
+      try {
+        await target.importArchive(await store.exportArchive());
+
+        expect(await target.listTrash()).toEqual(await store.listTrash());
+        expect(await target.getHistory(a.id)).toEqual(await store.getHistory(a.id));
+        expect(await target.getRelations([a.id])).toEqual([relation]);
+        expect(await target.getEntity(entity.id)).toEqual(entity);
+        expect((await target.restore(b.id))?.headline).toBe('b');
+        expect((await target.getById(b.id, { withVector: true }))?.vector).toEqual([0, 1, 0, 0]);
+      } finally {
+        await target.close();
+        rmSync(targetDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
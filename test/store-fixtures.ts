@@ -0,0 +1,30 @@
+/**
+ * Shared fixtures for the storage backend tests
+ */
+
+import { InMemoryStore } from '../src/memory/in-memory-store.js';
+import { SqliteStore } from '../src/memory/sqlite-store.js';
+import { TinmemDB } from '../src/memory/db.js';
+import type { MemoryStore, NewMemory } from '../src/memory/store.js';
+
+export function makeMemory(overrides: Partial<NewMemory> = {}): NewMemory {
+  return {
+    headline: 'User prefers TypeScript',
+    summary: 'The user prefers TypeScript over JavaScript.',
+    content: 'The user said they prefer TypeScript for all new projects.',
+    category: 'preferences',
+    scope: 'global',
+    importance: 0.5,
+    tags: ['typescript'],
+    metadata: {},
+    vector: [1, 0, 0, 0],
+    ...overrides,
+  };
+}
+
+/** Every backend, opened on a fresh directory with 4-dimensional vectors */
+export const STORE_BACKENDS: Array<{ name: string; open(dir: string): MemoryStore }> = [
+  { name: 'InMemoryStore', open: () => new InMemoryStore(4) },
+  { name: 'SqliteStore', open: dir => new SqliteStore(dir, 4) },
+  { name: 'TinmemDB', open: dir => new TinmemDB(dir, 4) },
+];
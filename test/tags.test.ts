@@ -0,0 +1,34 @@
+/**
+ * Tests for tag counting and rewriting
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { countTags, replaceTags } from '../src/memory/tags.js';
+
+describe('countTags()', () => {
+  it('should count memories per tag, most used first', () => {
+    const counts = countTags([['docker', 'ops'], ['docker'], ['k8s', 'ops'], ['docker', 'docker']]);
+    expect(counts).toEqual([
+      { tag: 'docker', count: 3 },
+      { tag: 'ops', count: 2 },
+      { tag: 'k8s', count: 1 },
+    ]);
+  });
+
+  it('should only count tags with the prefix', () => {
+    expect(countTags([['project:a', 'ops'], ['project:b']], 'project:')).toEqual([
+      { tag: 'project:a', count: 1 },
+      { tag: 'project:b', count: 1 },
+    ]);
+  });
+});
+
+describe('replaceTags()', () => {
+  it('should rename in place', () => {
+    expect(replaceTags(['a', 'js', 'b'], ['js'], 'javascript')).toEqual(['a', 'javascript', 'b']);
+  });
+
+  it('should keep one copy when merging into an existing tag', () => {
+    expect(replaceTags(['javascript', 'js', 'ecmascript'], ['js', 'ecmascript'], 'javascript')).toEqual(['javascript']);
+  });
+});